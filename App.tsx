@@ -0,0 +1,21 @@
+import React, { useState } from 'react';
+import type { GameSettings } from './types';
+import { GameScreen } from './components/GameScreen';
+import { SettingsButton } from './components/SettingsPanel';
+import { StartScreen } from './components/StartScreen';
+import { TeacherScreen } from './components/TeacherScreen';
+
+export const App: React.FC = () => {
+  const [settings, setSettings] = useState<GameSettings | null>(null);
+  const [isTeacher, setIsTeacher] = useState(false);
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-indigo-950 to-slate-900 text-slate-100 p-4 sm:p-6 lg:p-8">
+      <SettingsButton />
+      <div className="container mx-auto max-w-7xl">
+        {settings ? <GameScreen settings={settings} onExit={() => setSettings(null)} />
+          : isTeacher ? <TeacherScreen onExit={() => setIsTeacher(false)} />
+          : <StartScreen onStart={setSettings} onOpenTeacher={() => setIsTeacher(true)} />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { DropZone } from './DropZone';
+import { FormulaRenderer } from './FormulaRenderer';
+import { useI18n } from './LocaleProvider';
+import { Modal } from './Modal';
+import type { AttemptLog } from '../lib/attemptLog';
+import { dateLocale } from '../lib/i18n';
+import { misconceptionLabel } from '../lib/misconceptions';
+import { localizeAttemptLog, localizeFormula, localizeSymbol } from '../lib/quantitySymbols';
+
+const REPLAY_STEP_MS = 1000;
+
+const toSeconds = (ms: number) => Math.round(ms / 1000);
+
+const FormulaWithTarget: React.FC<{formula: string; target: string}> = ({ formula, target }) => {
+    const { locale } = useI18n();
+    const shownTarget = localizeSymbol(target, formula, locale);
+    return <span className="flex items-center gap-2"><FormulaRenderer formula={localizeFormula(formula, locale)} highlight={shownTarget} /><span className="text-slate-400">→ {shownTarget}</span></span>;
+};
+
+// Plays an attempt back one change at a time, on the same read-only board the stepwise mode uses.
+export const AttemptReview: React.FC<{log: AttemptLog; onClose: () => void}> = ({ log: storedLog, onClose }) => {
+    const { locale, t } = useI18n();
+    const log = useMemo(() => localizeAttemptLog(storedLog, locale), [storedLog, locale]);
+    const frames = useMemo(() => [{ kind: 'start' as const, atMs: 0, ...log.start }, ...log.events], [log]);
+    const [step, setStep] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const isLast = step === frames.length - 1;
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (isLast) { setIsPlaying(false); return; }
+        const timeout = window.setTimeout(() => setStep(s => s + 1), REPLAY_STEP_MS);
+        return () => window.clearTimeout(timeout);
+    }, [isPlaying, isLast]);
+    const goTo = (next: number) => { setIsPlaying(false); setStep(Math.max(0, Math.min(frames.length - 1, next))); };
+    const frame = frames[step];
+    const { submission } = log;
+    const buttonClass = 'px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-2xl font-bold font-orbitron text-cyan-400">{t('review.title')}</h2>
+                <span className="text-sm text-slate-400">{log.studentName} · {new Date(log.startedAt).toLocaleString(dateLocale(locale))}</span>
+            </div>
+            <div className="flex justify-center text-xl"><FormulaWithTarget formula={log.formula} target={log.targetVariable} /></div>
+            <div className="bg-slate-900/50 p-4 rounded-lg space-y-3">
+                <p className="text-slate-300" aria-live="polite">
+                    {t('review.step', { step: step + 1, count: frames.length })}: <strong>{t(`review.event.${frame.kind}`)}</strong>
+                    {step > 0 && <span className="text-slate-500"> · {t('review.at', { seconds: toSeconds(frame.atMs) })}</span>}
+                </p>
+                <div className="flex items-center justify-center gap-4 flex-col md:flex-row overflow-x-auto">
+                    <div className="w-full md:w-2/5"><DropZone side={frame.left} onSideChange={() => {}} readOnly label={t('common.leftSide')} /></div>
+                    <div className="text-4xl font-bold text-slate-400">=</div>
+                    <div className="w-full md:w-3/5"><DropZone side={frame.right} onSideChange={() => {}} readOnly label={t('common.rightSide')} /></div>
+                </div>
+                {frames.length === 1 ? <p className="text-sm text-slate-400">{t('review.noChanges')}</p> : (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <button onClick={() => goTo(0)} disabled={step === 0} className={buttonClass} aria-label={t('review.first')}>⏮</button>
+                        <button onClick={() => goTo(step - 1)} disabled={step === 0} className={buttonClass} aria-label={t('review.previous')}>◀</button>
+                        <button onClick={() => { if (isLast) setStep(0); setIsPlaying(playing => !playing); }} className={`${buttonClass} font-bold`}>{t(isPlaying ? 'review.pause' : 'review.play')}</button>
+                        <button onClick={() => goTo(step + 1)} disabled={isLast} className={buttonClass} aria-label={t('review.next')}>▶</button>
+                        <button onClick={() => goTo(frames.length - 1)} disabled={isLast} className={buttonClass} aria-label={t('review.last')}>⏭</button>
+                        <input type="range" min={0} max={frames.length - 1} value={step} onChange={(e) => goTo(Number(e.target.value))} aria-label={t('review.steps')} className="flex-grow accent-cyan-500" />
+                    </div>
+                )}
+            </div>
+            {submission && (
+                <div className={`p-4 rounded-lg border space-y-2 ${submission.isCorrect ? 'border-green-600 bg-green-950/40' : 'border-red-600 bg-red-950/40'}`}>
+                    <p className={`font-bold ${submission.isCorrect ? 'text-green-300' : 'text-red-300'}`}>
+                        {t('review.verdict', { verdict: t(submission.isCorrect ? 'review.correct' : 'review.wrong'), seconds: toSeconds(submission.durationMs) })}
+                        {submission.misconception && <span className="ml-2 font-normal text-slate-300">· {misconceptionLabel(submission.misconception, locale)}</span>}
+                    </p>
+                    {submission.answer === null ? <p className="text-slate-300">{t('review.timeUp')}</p>
+                        : <div className="flex flex-wrap items-center gap-2"><span className="text-slate-400">{t('review.answer')}</span><span className="text-lg"><FormulaRenderer formula={submission.answer} /></span></div>}
+                    {submission.explanation && <div><h3 className="font-bold text-cyan-400">{t(submission.hintSource === 'ai' ? 'result.aiHint' : 'result.hint')}</h3><p className="text-slate-300">{submission.explanation}</p></div>}
+                </div>
+            )}
+            <div className="flex justify-end"><button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 font-bold">{t('review.close')}</button></div>
+        </div>
+    );
+};
+
+// The attempts of one student, or of a whole class with the student's name in every row; newest first.
+export const AttemptList: React.FC<{title: string; logs: AttemptLog[]; showStudent?: boolean}> = ({ title, logs, showStudent = false }) => {
+    const { locale, t } = useI18n();
+    const [onlyWrong, setOnlyWrong] = useState(false);
+    const [selected, setSelected] = useState<AttemptLog | null>(null);
+    const shown = [...logs].filter(log => !onlyWrong || !log.submission?.isCorrect).sort((a, b) => b.startedAt - a.startedAt);
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                <h3 className="text-lg font-bold text-cyan-400">{title}</h3>
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer"><input type="checkbox" checked={onlyWrong} onChange={(e) => setOnlyWrong(e.target.checked)} className="accent-cyan-500" />{t('review.onlyWrong')}</label>
+            </div>
+            {shown.length === 0 ? <p className="text-sm text-slate-400">{t('review.empty')}</p> : (
+                <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                    {shown.map(log => (
+                        <li key={log.id} className="flex items-center gap-3 bg-slate-900/50 rounded-md px-3 py-2">
+                            <span className={`font-bold ${log.submission?.isCorrect ? 'text-green-400' : 'text-red-400'}`} aria-label={t(log.submission?.isCorrect ? 'review.correct' : 'review.wrong')}>{log.submission?.isCorrect ? '✓' : '✗'}</span>
+                            <span className="flex-grow min-w-0">
+                                <FormulaWithTarget formula={log.formula} target={log.targetVariable} />
+                                <span className="block text-xs text-slate-500">{showStudent && `${log.studentName} · `}{new Date(log.startedAt).toLocaleString(dateLocale(locale))}</span>
+                            </span>
+                            <button onClick={() => setSelected(log)} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600">{t('review.open')}</button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <Modal isOpen={selected !== null} onClose={() => setSelected(null)}>
+                {selected && <AttemptReview log={selected} onClose={() => setSelected(null)} />}
+            </Modal>
+        </div>
+    );
+};
@@ -0,0 +1,36 @@
+import React, { useContext } from 'react';
+import { SqrtIcon } from './Icons';
+import { PointerDragContext } from './PointerDrag';
+import { useI18n } from './LocaleProvider';
+import { usePreferences } from './PreferencesProvider';
+import { speakSymbol } from '../lib/speech';
+import type { MessageKey } from '../lib/i18n';
+
+export const renderSymbolFace = (symbol: string): React.ReactNode => {
+    if (symbol === '__fraction__') return <span className="text-4xl">/</span>;
+    if (symbol === '__sqrt__') return <SqrtIcon className="w-8 h-8" />;
+    if (symbol === '__square__') return <>x<sup>2</sup></>;
+    if (symbol === '__power__') return <>x<sup>n</sup></>;
+    if (symbol === '__root__') return <><sup className="-mr-1">n</sup><SqrtIcon className="w-8 h-8" /></>;
+    return symbol;
+};
+
+const SYMBOL_TITLES: Record<string, MessageKey> = {
+    '__fraction__': 'symbol.title.__fraction__', '__sqrt__': 'symbol.title.__sqrt__', '__square__': 'symbol.title.__square__', '__power__': 'symbol.title.__power__', '__root__': 'symbol.title.__root__',
+};
+
+export const DraggableSymbol: React.FC<{symbol: string; unit?: string; onActivate?: (symbol: string) => void}> = ({ symbol, unit, onActivate }) => {
+    const { locale, t } = useI18n();
+    const { preferences, reduceMotion } = usePreferences();
+    const drag = useContext(PointerDragContext);
+    const isDragging = drag?.payload?.kind === 'symbol' && drag.payload.symbol === symbol;
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onActivate?.(symbol); } };
+    const title = SYMBOL_TITLES[symbol] ? t(SYMBOL_TITLES[symbol]) : unit ? t('symbol.dragWithUnit', { symbol, unit }) : t('symbol.drag', { symbol });
+    return (
+        <div onPointerDown={(e) => drag?.startDrag(e, { kind: 'symbol', symbol }, renderSymbolFace(symbol))} onClick={() => onActivate?.(symbol)} onKeyDown={handleKeyDown}
+            role="button" tabIndex={0} aria-label={t('symbol.insert', { name: speakSymbol(symbol, locale) })} title={title} style={{ touchAction: 'none' }}
+            className={`flex items-center justify-center ${preferences.largeSymbols ? 'p-4 h-20' : 'p-3 h-16'} bg-slate-700 border-b-4 border-slate-900 rounded-lg cursor-grab active:cursor-grabbing hover:bg-cyan-600 hover:border-cyan-800 transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400 select-none ${symbol === '__fraction__' ? (preferences.largeSymbols ? 'text-5xl' : 'text-4xl') : (preferences.largeSymbols ? 'text-3xl' : 'text-2xl')} font-bold ${isDragging ? (reduceMotion ? 'opacity-50' : 'opacity-50 scale-125') : ''}`}>
+            {renderSymbolFace(symbol)}
+        </div>
+    );
+};
@@ -0,0 +1,206 @@
+import React, { useState, useEffect, useRef, useContext } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { SqrtNode, FractionNode, PowerNode, RootNode, DraggableItem, EquationSide } from '../types';
+import { renderSymbolFace } from './DraggableSymbol';
+import { ClearIcon, SqrtIcon } from './Icons';
+import { PointerDragContext, DropZoneIdContext } from './PointerDrag';
+import { useI18n } from './LocaleProvider';
+import { usePreferences } from './PreferencesProvider';
+import { ROOT_CURSOR, clampCursor, moveCursor, insertAtCursor, deleteAtCursor, shiftItemAtCursor, selectionAt, duplicateSelection, wrapSelection, unwrapAtCursor } from '../lib/equationCursor';
+import type { EquationCursor, EquationSelection, EditResult } from '../lib/equationCursor';
+import { getNested, pathsEqual, removeAtPath } from '../lib/equationTree';
+import { speakSymbol, speakStructure, speakSide, describeCursor } from '../lib/speech';
+import { playDrop, playReset } from '../services/soundService';
+
+const DropIndicator: React.FC = () => <div className="self-stretch w-1 h-10 bg-cyan-400 rounded-full mx-1 animate-pulse" />;
+
+const CursorCaret: React.FC = () => <div className="self-stretch w-0.5 h-10 bg-yellow-400 rounded-full mx-0.5 animate-pulse" aria-hidden="true" />;
+
+export type EquationEditCommand = 'duplicate' | 'wrap-fraction' | 'wrap-sqrt' | 'unwrap';
+
+export interface EquationEditTarget {
+  insert: (symbol: string) => void;
+  edit: (command: EquationEditCommand) => void;
+}
+
+// Lets the symbol palette and the edit buttons act on whichever equation zone the student used last, and lets zones announce changes.
+export interface EquationKeyboardContextValue {
+  announce: (message: string) => void;
+  registerEditTarget: (target: EquationEditTarget, replace: boolean) => void;
+  unregisterEditTarget: (target: EquationEditTarget) => void;
+}
+
+export const EquationKeyboardContext = React.createContext<EquationKeyboardContextValue | null>(null);
+
+// Clicking an item selects it; a shift-click extends the selection within the same box.
+type SelectItemHandler = (itemPath: (string | number)[], extend: boolean) => void;
+
+interface RecursiveDropZoneProps { side: EquationSide; onSideChange: (newSide: EquationSide) => void; rootSide: EquationSide; path: (string | number)[]; readOnly?: boolean; cursor?: EquationCursor | null; selection?: EquationSelection | null; onSelectItem?: SelectItemHandler; }
+
+interface EquationItemProps { item: DraggableItem; onSideChange: (newSide: EquationSide) => void; rootSide: EquationSide; path: (string | number)[]; readOnly?: boolean; cursor?: EquationCursor | null; selection?: EquationSelection | null; onSelectItem?: SelectItemHandler; isSelected?: boolean; }
+
+function EquationItem({ item, onSideChange, rootSide, path, readOnly = false, cursor = null, selection = null, onSelectItem, isSelected = false }: EquationItemProps) {
+    const { locale, t } = useI18n();
+    const { preferences } = usePreferences();
+    const drag = useContext(PointerDragContext);
+    const zoneId = useContext(DropZoneIdContext);
+    const symbolTile = preferences.largeSymbols ? 'bg-slate-700 w-20 h-20 text-3xl' : 'bg-slate-700 w-16 h-16 text-2xl';
+    const isDragging = drag?.payload?.kind === 'item' && drag.payload.item.id === item.id;
+    const handleRemove = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onSideChange(removeAtPath(rootSide, path));
+    };
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.stopPropagation();
+        const ghost = renderSymbolFace(item.type === 'symbol' ? item.content : `__${item.type}__`);
+        drag?.startDrag(e, { kind: 'item', zoneId, path, item }, ghost);
+    };
+    const handleClick = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        onSelectItem?.(path, e.shiftKey);
+    };
+    const renderContent = () => {
+        switch (item.type) {
+            case 'symbol':
+                if (item.content === '__square__') return <span className="font-bold -translate-y-2"><sup>2</sup></span>;
+                return <span className="font-bold">{item.content}</span>;
+            case 'sqrt': return (<div className="flex items-center"><SqrtIcon className="w-8 h-10 text-cyan-400" /><div className="border-t-2 border-cyan-400 p-1 min-h-[72px] min-w-[60px]"><RecursiveDropZone side={(item as SqrtNode).content} onSideChange={onSideChange} rootSide={rootSide} path={[...path, 'content', 'items']} readOnly={readOnly} cursor={cursor} selection={selection} onSelectItem={onSelectItem} /></div></div>);
+            case 'fraction': return (<div className="flex flex-col items-center justify-center p-1"><div className="p-1 min-h-[72px] min-w-[80px]"><RecursiveDropZone side={(item as FractionNode).numerator} onSideChange={onSideChange} rootSide={rootSide} path={[...path, 'numerator', 'items']} readOnly={readOnly} cursor={cursor} selection={selection} onSelectItem={onSelectItem} /></div><div className="w-full h-[2px] bg-slate-400 my-1"></div><div className="p-1 min-h-[72px] min-w-[80px]"><RecursiveDropZone side={(item as FractionNode).denominator} onSideChange={onSideChange} rootSide={rootSide} path={[...path, 'denominator', 'items']} readOnly={readOnly} cursor={cursor} selection={selection} onSelectItem={onSelectItem} /></div></div>);
+            case 'power': return (<div className="self-start p-1 min-h-[48px] min-w-[48px] scale-90 origin-bottom-left"><RecursiveDropZone side={(item as PowerNode).exponent} onSideChange={onSideChange} rootSide={rootSide} path={[...path, 'exponent', 'items']} readOnly={readOnly} cursor={cursor} selection={selection} onSelectItem={onSelectItem} /></div>);
+            case 'root': return (<div className="flex items-center"><div className="self-start p-1 min-h-[48px] min-w-[48px] scale-90 origin-bottom-right"><RecursiveDropZone side={(item as RootNode).index} onSideChange={onSideChange} rootSide={rootSide} path={[...path, 'index', 'items']} readOnly={readOnly} cursor={cursor} selection={selection} onSelectItem={onSelectItem} /></div><SqrtIcon className="w-8 h-10 text-cyan-400" /><div className="border-t-2 border-cyan-400 p-1 min-h-[72px] min-w-[60px]"><RecursiveDropZone side={(item as RootNode).content} onSideChange={onSideChange} rootSide={rootSide} path={[...path, 'content', 'items']} readOnly={readOnly} cursor={cursor} selection={selection} onSelectItem={onSelectItem} /></div></div>);
+        }
+    };
+    if (readOnly) return (<div className={`flex items-center justify-center p-1 rounded-md ${item.type === 'symbol' ? symbolTile : ''}`}>{renderContent()}</div>);
+    return (<div data-equation-item onPointerDown={handlePointerDown} onClick={handleClick} aria-selected={isSelected || undefined} style={{ touchAction: 'none' }} className={`relative group flex items-center justify-center p-1 rounded-md transition-opacity duration-200 cursor-move select-none ${item.type === 'symbol' ? symbolTile : ''} ${isSelected ? 'ring-2 ring-yellow-400' : ''} ${isDragging ? 'opacity-30' : ''}`}><button onClick={handleRemove} onPointerDown={(e) => e.stopPropagation()} tabIndex={-1} className="absolute -top-2 -right-2 w-5 h-5 bg-red-600 rounded-full text-white flex items-center justify-center opacity-0 group-hover:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity z-10" aria-label={t('zone.remove', { name: item.type === 'symbol' ? speakSymbol(item.content, locale) : speakStructure(item.type, locale) })}><ClearIcon /></button>{renderContent()}</div>);
+};
+
+function RecursiveDropZone({ side, onSideChange, rootSide, path, readOnly = false, cursor = null, selection = null, onSelectItem }: RecursiveDropZoneProps) {
+    const { t } = useI18n();
+    const drag = useContext(PointerDragContext);
+    const zoneId = useContext(DropZoneIdContext);
+    const isHovered = !!drag?.hover && drag.hover.zoneId === zoneId && pathsEqual(drag.hover.path, path);
+    const dropIndex = isHovered ? drag!.hover!.index : null;
+    const caretIndex = cursor && pathsEqual(cursor.path, path) ? cursor.index : null;
+    const isSelected = (index: number) => !!selection && pathsEqual(selection.path, path) && index >= selection.start && index < selection.end;
+
+    if (readOnly) return (
+        <div className="flex-grow h-full w-full flex flex-wrap items-center justify-center gap-1 p-2 rounded-lg border-2 border-slate-700">
+            {side.items.map((item, index) => <React.Fragment key={item.id}><EquationItem item={item} onSideChange={onSideChange} rootSide={rootSide} path={[...path, index]} readOnly /></React.Fragment>)}
+        </div>
+    );
+
+    return (
+        <div data-drop-path={JSON.stringify(path)} className={`flex-grow h-full w-full flex flex-wrap items-center justify-center gap-1 p-2 rounded-lg border-2 transition-colors duration-300 ${isHovered ? 'border-cyan-400 bg-slate-800/50' : 'border-dashed border-slate-600'}`}>
+            {side.items.length === 0 && !isHovered && caretIndex === null && <span className="text-slate-500 pointer-events-none">{t('zone.dropHere')}</span>}
+            {side.items.map((item, index) => (
+                <React.Fragment key={item.id}>
+                    {dropIndex === index && <DropIndicator />}
+                    {caretIndex === index && <CursorCaret />}
+                    <EquationItem item={item} onSideChange={onSideChange} rootSide={rootSide} path={[...path, index]} cursor={cursor} selection={selection} onSelectItem={onSelectItem} isSelected={isSelected(index)} />
+                </React.Fragment>
+            ))}
+            {dropIndex === side.items.length && <DropIndicator />}
+            {caretIndex === side.items.length && <CursorCaret />}
+        </div>
+    );
+};
+
+const KEY_SHORTCUTS: Record<string, string> = { '+': '+', '-': '-', '*': '*', '(': '(', ')': ')', '/': '__fraction__', '^': '__square__' };
+
+export const DropZone: React.FC<{side: EquationSide; onSideChange: (newSide: EquationSide) => void; readOnly?: boolean; label?: string}> = ({ side, onSideChange, readOnly = false, label: labelProp }) => {
+    const { locale, t } = useI18n();
+    const label = labelProp ?? t('zone.defaultLabel');
+    const keyboard = useContext(EquationKeyboardContext);
+    const drag = useContext(PointerDragContext);
+    const zoneId = useRef(uuidv4()).current;
+    const [cursorState, setCursorState] = useState<EquationCursor>(ROOT_CURSOR);
+    // The other end of a selection, as an index in the cursor's box; null when nothing is selected.
+    const [anchor, setAnchor] = useState<number | null>(null);
+    const [hasFocus, setHasFocus] = useState(false);
+    const cursor = clampCursor(side, cursorState);
+    const explicitSelection = anchor === null ? null : selectionAt(side, cursor, anchor);
+    // An undo or a drop replaces the side from outside; an old selection would point at the wrong items.
+    useEffect(() => setAnchor(null), [side]);
+
+    const applyEdit = (edit: EditResult) => {
+        if (edit.side !== side) onSideChange(edit.side);
+        setCursorState(edit.cursor); setAnchor(null);
+        keyboard?.announce(`${label}: ${speakSide(edit.side, locale)}. ${describeCursor(edit.side, edit.cursor, locale)}`);
+    };
+    const select = (nextCursor: EquationCursor, nextAnchor: number) => {
+        setCursorState(nextCursor); setAnchor(nextAnchor);
+        const selection = selectionAt(side, nextCursor, nextAnchor);
+        if (selection) keyboard?.announce(t('zone.selected', { items: speakSide({ items: (getNested(side, selection.path) as DraggableItem[]).slice(selection.start, selection.end) }, locale) }));
+    };
+    const handleSelectItem = (itemPath: (string | number)[], extend: boolean) => {
+        const path = itemPath.slice(0, -1), index = itemPath[itemPath.length - 1] as number;
+        const from = extend && anchor !== null && pathsEqual(path, cursor.path) ? anchor : index;
+        select({ path, index: index >= from ? index + 1 : index }, from);
+    };
+    const runCommand = (command: EquationEditCommand) => {
+        if (command === 'unwrap') { applyEdit(unwrapAtCursor(side, cursor)); return; }
+        const selection = selectionAt(side, cursor, anchor);
+        if (!selection) return;
+        playDrop();
+        applyEdit(command === 'duplicate' ? duplicateSelection(side, selection) : wrapSelection(side, selection, command === 'wrap-fraction' ? '__fraction__' : '__sqrt__'));
+    };
+    // The palette and the edit buttons keep a stable target but must always act on the latest side and cursor.
+    const latest = useRef<EquationEditTarget>({ insert: () => {}, edit: () => {} });
+    latest.current = { insert: (symbol) => { playDrop(); applyEdit(insertAtCursor(side, cursor, symbol)); }, edit: runCommand };
+    const editTarget = useRef<EquationEditTarget>({ insert: (symbol) => latest.current.insert(symbol), edit: (command) => latest.current.edit(command) }).current;
+    useEffect(() => {
+        if (readOnly || !keyboard) return;
+        keyboard.registerEditTarget(editTarget, false);
+        return () => keyboard.unregisterEditTarget(editTarget);
+    }, [readOnly, keyboard, editTarget]);
+    // Drops read the side through a ref, since a move between zones updates both before either re-renders.
+    const sideRef = useRef(side);
+    sideRef.current = side;
+    const onSideChangeRef = useRef(onSideChange);
+    onSideChangeRef.current = onSideChange;
+    useEffect(() => {
+        if (readOnly || !drag) return;
+        return drag.registerZone(zoneId, { getSide: () => sideRef.current, onSideChange: (next) => { sideRef.current = next; onSideChangeRef.current(next); } });
+    }, [readOnly, drag?.registerZone, zoneId]);
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+        const arrows: Record<string, 'left' | 'right' | 'up' | 'down' | 'home' | 'end'> = { ArrowLeft: 'left', ArrowRight: 'right', ArrowUp: 'up', ArrowDown: 'down', Home: 'home', End: 'end' };
+        const commands: Record<string, EquationEditCommand> = { KeyD: 'duplicate', KeyB: 'wrap-fraction', KeyW: 'wrap-sqrt', KeyU: 'unwrap' };
+        let edit: EditResult | null = null;
+        if (e.altKey && commands[e.code]) { e.preventDefault(); runCommand(commands[e.code]); return; }
+        if ((e.ctrlKey || e.metaKey) && e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+            e.preventDefault();
+            const index = cursor.index + (e.key === 'ArrowLeft' ? -1 : 1);
+            if (index >= 0 && index <= (getNested(side, cursor.path) as DraggableItem[]).length) select({ path: cursor.path, index }, anchor ?? cursor.index);
+            return;
+        }
+        if (e.key === '/' && explicitSelection) { playDrop(); edit = wrapSelection(side, explicitSelection, '__fraction__'); }
+        else if (e.shiftKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) edit = shiftItemAtCursor(side, cursor, e.key === 'ArrowLeft' ? 'left' : 'right');
+        else if (arrows[e.key]) edit = { side, cursor: moveCursor(side, cursor, arrows[e.key]) };
+        else if (e.key === 'Backspace' || e.key === 'Delete') { edit = deleteAtCursor(side, cursor, e.key === 'Backspace' ? 'backward' : 'forward'); if (edit.side !== side) playReset(); }
+        else if (KEY_SHORTCUTS[e.key] && !e.ctrlKey && !e.metaKey && !e.altKey) { playDrop(); edit = insertAtCursor(side, cursor, KEY_SHORTCUTS[e.key]); }
+        if (!edit) return;
+        e.preventDefault();
+        applyEdit(edit);
+    };
+
+    if (readOnly) return (
+        <div className="flex flex-col items-stretch justify-center h-full w-full bg-slate-900/70 p-2 rounded-xl" role="img" aria-label={`${label}: ${speakSide(side, locale)}`}>
+            <RecursiveDropZone side={side} onSideChange={onSideChange} rootSide={side} path={['items']} readOnly />
+        </div>
+    );
+    return (
+        <DropZoneIdContext.Provider value={zoneId}>
+        <div data-drop-zone={zoneId} tabIndex={0} role="group" aria-label={label} aria-describedby="equation-keyboard-help" onKeyDown={handleKeyDown}
+            onFocus={() => { setHasFocus(true); keyboard?.registerEditTarget(editTarget, true); }} onBlur={() => setHasFocus(false)}
+            className="flex flex-col items-stretch justify-center h-full w-full bg-slate-900/70 p-2 rounded-xl focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400">
+            <RecursiveDropZone side={side} onSideChange={onSideChange} rootSide={side} path={['items']} cursor={hasFocus ? cursor : null} selection={explicitSelection} onSelectItem={handleSelectItem} />
+        </div>
+        </DropZoneIdContext.Provider>
+    );
+};
+
+export const EquationKeyboardHelp: React.FC = () => {
+    const { t } = useI18n();
+    return <p id="equation-keyboard-help" className="sr-only">{t('zone.keyboardHelp')}</p>;
+};
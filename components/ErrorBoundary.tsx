@@ -0,0 +1,26 @@
+import React from 'react';
+import { translate, loadLocale } from '../lib/i18n';
+
+export class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean, error: Error | null }> {
+  constructor(props: { children: React.ReactNode }) {
+    super(props); this.state = { hasError: false, error: null };
+  }
+  static getDerivedStateFromError(error: Error) { return { hasError: true, error }; }
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) { console.error("Uncaught error:", error, errorInfo); }
+  render() {
+    if (this.state.hasError) {
+      // Outside the LocaleProvider, which may be what failed; the stored language is read directly.
+      const locale = loadLocale();
+      return (
+        <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col items-center justify-center p-4">
+            <div className="bg-slate-800 p-8 rounded-lg shadow-lg border border-red-500 text-center max-w-lg">
+                <h1 className="text-2xl font-bold text-red-400 mb-4 font-orbitron">{translate(locale, 'error.title')}</h1>
+                <p className="text-slate-300 mb-4">{translate(locale, 'error.body')}</p>
+                <details className="mt-4 text-left"><summary className="cursor-pointer text-cyan-400 hover:text-cyan-300">{translate(locale, 'error.details')}</summary><pre className="text-left bg-slate-900 p-4 rounded-md text-red-300 overflow-auto text-sm mt-2">{this.state.error?.toString()}</pre></details>
+            </div>
+        </div>
+      );
+    }
+    return this.props.children; 
+  }
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { isGreekLetter, layoutFormula, needsParentheses, rootIndexOf, splitIdentifier } from '../lib/formulaLayout';
+import type { Expr } from '../lib/symbolic';
+
+const FormulaRendererComponent: React.FC<{ formula: string; highlight?: string }> = ({ formula, highlight }) => {
+    const renderIdentifier = (name: string) => {
+        const { base, subscript } = splitIdentifier(name);
+        // The highlight compares whole identifiers, so highlighting "m" leaves "Epot" and "m_1" alone.
+        const className = `${isGreekLetter(base) ? 'font-serif italic' : ''} ${name === highlight ? 'text-yellow-400 font-bold' : ''}`;
+        return <span className={className}>{base}{subscript && <sub className="text-[0.6em]">{subscript}</sub>}</span>;
+    };
+    const renderChild = (child: Expr, parent: Expr, position: 'left' | 'right' | 'base' | 'arg') =>
+        needsParentheses(child, parent, position) ? <>({render(child)})</> : render(child);
+    const render = (expr: Expr): React.ReactElement => {
+        switch (expr.kind) {
+            case 'num': return <span>{expr.value === 0.5 ? '½' : expr.value}</span>;
+            case 'var': return renderIdentifier(expr.name);
+            case 'neg': return <span className="inline-flex items-center">−{renderChild(expr.arg, expr, 'arg')}</span>;
+            case 'sqrt': return (<span className="inline-flex items-center"><span className="text-[1.4em] font-bold text-cyan-400 select-none">√</span><span className="border-t-2 border-cyan-400 pl-1 pr-1 py-1 inline-flex items-center">{render(expr.arg)}</span></span>);
+            case 'pow': {
+                const index = rootIndexOf(expr);
+                if (index !== null) return (<span className="inline-flex items-center"><sup className="text-[0.6em] -mr-1 self-start">{index}</sup><span className="text-[1.4em] font-bold text-cyan-400 select-none">√</span><span className="border-t-2 border-cyan-400 pl-1 pr-1 py-1 inline-flex items-center">{render(expr.base)}</span></span>);
+                return <span className="inline-flex items-start">{renderChild(expr.base, expr, 'base')}<sup className="text-[0.6em] ml-0.5 inline-flex items-center">{render(expr.exponent)}</sup></span>;
+            }
+            case 'bin':
+                if (expr.op === '/') return (<span className="inline-flex flex-col items-center justify-center leading-tight align-middle mx-1"><span className="px-2 inline-flex items-center">{render(expr.left)}</span><span className="w-full h-[1.5px] bg-current my-1"></span><span className="px-2 inline-flex items-center">{render(expr.right)}</span></span>);
+                return (
+                    <span className="inline-flex items-center">
+                        {renderChild(expr.left, expr, 'left')}
+                        {expr.op === '*' ? (expr.implicit ? <span className="w-1" /> : <span className="mx-1">·</span>) : <span className="mx-2">{expr.op === '-' ? '−' : '+'}</span>}
+                        {renderChild(expr.right, expr, 'right')}
+                    </span>
+                );
+        }
+    };
+    if (typeof formula !== 'string') return null;
+    const sides = layoutFormula(formula);
+    if (!sides) return <div className="flex items-center justify-center font-mono">{formula}</div>;
+    return (
+        <div className="flex items-center justify-center">
+            {sides.map((side, index) => <React.Fragment key={index}>{index > 0 && <span className="mx-4">=</span>}{render(side)}</React.Fragment>)}
+        </div>
+    );
+};
+export const FormulaRenderer = React.memo(FormulaRendererComponent);
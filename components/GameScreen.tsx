@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { GameSettings, Problem, EquationSide, MissedProblem } from '../types';
+import { DraggableSymbol } from './DraggableSymbol';
+import { EquationKeyboardContext, DropZone, EquationKeyboardHelp } from './DropZone';
+import type { EquationKeyboardContextValue, EquationEditTarget, EquationEditCommand } from './DropZone';
+import { FormulaRenderer } from './FormulaRenderer';
+import { LoadingSpinner, RetryIcon, NextIcon, ResetIcon } from './Icons';
+import { useI18n } from './LocaleProvider';
+import { Modal } from './Modal';
+import { NumericApplication } from './NumericApplication';
+import { PointerDragProvider } from './PointerDrag';
+import { ProgressBar } from './ProgressBar';
+import { SuccessAnimation } from './SuccessAnimation';
+import { TransformationBoard } from './TransformationBoard';
+import { TypedEquationInput } from './TypedEquationInput';
+import type { TypedInputError } from './TypedEquationInput';
+import { WorkedSolution } from './WorkedSolution';
+import { startAttemptLog, logChange, submitAttempt, saveAttemptLog } from '../lib/attemptLog';
+import type { AttemptEventKind, AttemptLog, AttemptSubmission } from '../lib/attemptLog';
+import { downloadFile, safeFileName } from '../lib/download';
+import { startHistory, recordChange, replacePresent, undo, redo, historySteps } from '../lib/equationHistory';
+import type { EquationHistory, EquationSnapshot } from '../lib/equationHistory';
+import { serializeSide, isSideSubmittable, parseTypedEquation, equationToSides } from '../lib/equationTree';
+import type { DerivationStep } from '../lib/formulaPacks';
+import { createNumericExercise } from '../lib/numeric';
+import { getPhysicsProblem } from '../lib/problems';
+import { delocalizeAttemptLog, delocalizeFormula, localizeProblem } from '../lib/quantitySymbols';
+import { progressKey, loadProgressStore, getStudentProgress, saveStudentProgress, recordAttempt } from '../lib/progress';
+import type { StudentProgress, AttemptRecord } from '../lib/progress';
+import { saveSessionResult } from '../lib/sessions';
+import type { ClassSession, SessionResult } from '../lib/sessions';
+import { ExpressionParseError, MATH_CONSTANTS } from '../lib/symbolic';
+import { canTransformStepwise } from '../lib/transformations';
+import { validateAnswer } from '../services/aiService';
+import type { ValidationResponse } from '../services/aiService';
+import { playClick, playSuccess, playError, playReset } from '../services/soundService';
+
+const SessionSummary: React.FC<{session: ClassSession; result: SessionResult; onExit: () => void}> = ({ session, result, onExit }) => {
+    const problems = new Set(result.attempts.map(a => progressKey(a.formula, a.targetVariable))).size;
+    const correct = result.attempts.filter(a => a.isCorrect).length;
+    const { t } = useI18n();
+    return (
+        <div className="text-center">
+            <h2 className="text-4xl font-bold font-orbitron mb-2 text-green-400">{t('sessionSummary.title')}</h2>
+            <p className="text-slate-300 mb-4">{t('sessionSummary.score', { name: session.name, correct, attempts: result.attempts.length, problems })}</p>
+            <p className="text-slate-400">{t('sessionSummary.otherDevice')}</p>
+            <div className="mt-6 flex justify-center gap-4">
+                <button onClick={() => downloadFile(`resultaten-${session.code}-${safeFileName(result.studentName)}.json`, JSON.stringify(result, null, 2), 'application/json')} className="px-6 py-2 bg-cyan-500 text-slate-900 font-bold rounded-lg hover:bg-cyan-400 transition-colors">{t('sessionSummary.download')}</button>
+                <button onClick={onExit} className="px-6 py-2 bg-slate-600 text-slate-100 font-bold rounded-lg hover:bg-slate-500 transition-colors">{t('common.backToMenu')}</button>
+            </div>
+        </div>
+    );
+};
+
+const StreakSummary: React.FC<{finalStreak: number; missed: MissedProblem[]; onRestart: () => void; onExit: () => void}> = ({ finalStreak, missed, onRestart, onExit }) => {
+    const { t, rich } = useI18n();
+    return (
+    <div className="text-center">
+        <h2 className="text-4xl font-bold font-orbitron mb-2 text-orange-400">{t('streakSummary.title')}</h2>
+        <p className="text-slate-300 mb-4">{rich('streakSummary.finalStreak', { streak: <span className="text-3xl font-bold font-orbitron text-yellow-300">{finalStreak}</span> })}</p>
+        <div className="prose prose-invert max-w-none text-left bg-slate-900/50 p-4 rounded-lg space-y-4">
+            <h3 className="font-bold text-cyan-400">{t('streakSummary.missed')}</h3>
+            {missed.map(({ problem, userAnswer, explanation }, index) => (
+                <div key={index} className="space-y-2 border-t border-slate-700 pt-2 first:border-t-0 first:pt-0">
+                    <div className="text-lg flex justify-center items-center"><FormulaRenderer formula={problem.originalFormula} highlight={problem.targetVariable} /></div>
+                    <p className="text-slate-300">{userAnswer === null ? t('streakSummary.timeUp') : rich('streakSummary.yourAnswer', { answer: <span className="font-mono">{userAnswer}</span> })}</p>
+                    {userAnswer !== null && <p className="text-slate-400">{explanation}</p>}
+                    <div className="text-xl flex justify-center items-center"><FormulaRenderer formula={problem.correctAnswer} /></div>
+                </div>
+            ))}
+        </div>
+        <div className="mt-6 flex justify-center gap-4"><button onClick={onRestart} className="flex items-center gap-2 px-6 py-2 bg-orange-500 text-slate-900 font-bold rounded-lg hover:bg-orange-400 transition-colors"><RetryIcon/> {t('streakSummary.newRun')}</button><button onClick={onExit} className="flex items-center gap-2 px-6 py-2 bg-slate-600 text-slate-100 font-bold rounded-lg hover:bg-slate-500 transition-colors">{t('common.backToMenu')}</button></div>
+    </div>
+    );
+};
+
+const EDIT_COMMANDS: [EquationEditCommand, string][] = [
+    ['duplicate', 'Alt+D'], ['wrap-fraction', 'Alt+B'], ['wrap-sqrt', 'Alt+W'], ['unwrap', 'Alt+U'],
+];
+
+// The buttons keep the focus in the equation zone, so they act on its cursor and selection.
+const EditToolbar: React.FC<{canUndo: boolean; canRedo: boolean; onUndo: () => void; onRedo: () => void; onSwapSides: () => void; onCommand: (command: EquationEditCommand) => void}> = ({ canUndo, canRedo, onUndo, onRedo, onSwapSides, onCommand }) => {
+    const buttonClass = 'px-3 py-1 rounded-lg bg-slate-700 text-slate-200 text-sm font-bold hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+    const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-wrap justify-center gap-2" role="toolbar" aria-label={t('edit.toolbar')}>
+            <button onMouseDown={keepFocus} onClick={onUndo} disabled={!canUndo} title="Ctrl+Z" className={buttonClass}>{t('edit.undo')}</button>
+            <button onMouseDown={keepFocus} onClick={onRedo} disabled={!canRedo} title="Ctrl+Y" className={buttonClass}>{t('edit.redo')}</button>
+            <button onMouseDown={keepFocus} onClick={onSwapSides} className={buttonClass}>{t('edit.swap')}</button>
+            {EDIT_COMMANDS.map(([command, shortcut]) => <button key={command} onMouseDown={keepFocus} onClick={() => onCommand(command)} title={shortcut} className={buttonClass}>{t(`edit.${command}`)}</button>)}
+        </div>
+    );
+};
+
+export const GameScreen: React.FC<{settings: GameSettings; onExit: () => void}> = ({ settings, onExit }) => {
+  const isStreak = settings.mode === 'streak';
+  const { session } = settings;
+  const sessionResultRef = useRef<SessionResult | null>(session ? { version: 1, sessionCode: session.code, studentName: settings.studentName, attempts: [], finishedAt: null } : null);
+  const [problemsDone, setProblemsDone] = useState(0);
+  const [sessionFinished, setSessionFinished] = useState(false);
+  const { locale, t, rich } = useI18n();
+  const [currentProblem, setProblem] = useState<Problem | null>(null);
+  // The problem in the student's symbol conventions; progress and session results keep the pack's own symbols.
+  const problem = useMemo(() => currentProblem && localizeProblem(currentProblem, locale), [currentProblem, locale]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const emptySide: EquationSide = useMemo(() => ({ items: [] }), []);
+  const [history, setHistory] = useState<EquationHistory>(() => startHistory({ left: emptySide, right: emptySide }));
+  const { left: leftSide, right: rightSide } = history.present;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const [inputMode, setInputMode] = useState<'drag' | 'type'>('drag');
+  const [typedText, setTypedText] = useState('');
+  const [typedError, setTypedError] = useState<TypedInputError | null>(null);
+  const attemptLogRef = useRef<AttemptLog | null>(null);
+  const loggedHistory = useRef(history);
+  // Every change to the board ends up in the history, so the log follows the history. Undo and redo are recognized
+  // by the step they bring back; a replaced present step, as while typing, continues the last event.
+  useEffect(() => {
+    const previous = loggedHistory.current;
+    loggedHistory.current = history;
+    if (!attemptLogRef.current || history.present === previous.present) return;
+    const kind = history.present === previous.past.at(-1) ? 'undo' : history.present === previous.future[0] ? 'redo' : inputMode === 'type' ? 'type' : null;
+    attemptLogRef.current = logChange(attemptLogRef.current, history.present, kind, Date.now(), history.past === previous.past);
+  }, [history, inputMode]);
+  const [modalState, setModalState] = useState<ValidationResponse & { isOpen: boolean; mistakes?: number }>({ isOpen: false, isCorrect: false, explanation: '', hintSource: 'local' });
+  const [streak, setStreak] = useState(0);
+  const [missed, setMissed] = useState<MissedProblem[]>([]);
+  const [runOver, setRunOver] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number | null>(settings.timeLimitSeconds);
+  const [progress, setProgress] = useState<StudentProgress>(() => getStudentProgress(loadProgressStore(), settings.studentName));
+  const progressRef = useRef(progress);
+  const problemRef = useRef<Problem | null>(null);
+  const problemStartedAt = useRef(Date.now());
+  const [problemId, setProblemId] = useState(() => uuidv4());
+  const [announcement, setAnnouncement] = useState('');
+  const editTargetRef = useRef<EquationEditTarget | null>(null);
+  const keyboardContext = useMemo<EquationKeyboardContextValue>(() => ({
+    announce: setAnnouncement,
+    registerEditTarget: (target, replace) => { if (replace || !editTargetRef.current) editTargetRef.current = target; },
+    unregisterEditTarget: (target) => { if (editTargetRef.current === target) editTargetRef.current = null; },
+  }), []);
+  const handlePaletteActivate = useCallback((symbol: string) => editTargetRef.current?.insert(symbol), []);
+  const handleEditCommand = (command: EquationEditCommand) => editTargetRef.current?.edit(command);
+
+  // A drag from one side to the other changes both sides within one event; together they count as a single step.
+  const changeInSameEvent = useRef(false);
+  const changeSide = useCallback((which: keyof EquationSnapshot, side: EquationSide) => {
+    const merge = changeInSameEvent.current;
+    changeInSameEvent.current = true;
+    queueMicrotask(() => { changeInSameEvent.current = false; });
+    setHistory(h => (merge ? replacePresent : recordChange)(h, { ...h.present, [which]: side }));
+  }, []);
+  const handleLeftChange = useCallback((side: EquationSide) => changeSide('left', side), [changeSide]);
+  const handleRightChange = useCallback((side: EquationSide) => changeSide('right', side), [changeSide]);
+
+  const paletteGroups = useMemo(() => {
+    if (!problem) return [];
+    const OPERATOR_ORDER = ['(', ')', '+', '-', '*', '__fraction__', '__square__', '__sqrt__', '__power__', '__root__'];
+    const isConstant = (s: string) => MATH_CONSTANTS.has(s) || s === '½' || /^\d/.test(s);
+    const quantities = problem.symbols.filter(s => !OPERATOR_ORDER.includes(s) && !isConstant(s)).sort();
+    const numbers = problem.symbols.filter(isConstant).sort();
+    const operators = OPERATOR_ORDER.filter(s => problem.symbols.includes(s));
+    return [{ title: t('palette.quantities'), symbols: quantities }, { title: t('palette.numbers'), symbols: numbers }, { title: t('palette.operators'), symbols: operators }].filter(group => group.symbols.length > 0);
+  }, [problem, t]);
+
+  // A retry starts a new attempt from the board as the student left it.
+  const beginAttempt = useCallback((start: EquationSnapshot) => {
+    const attempted = problemRef.current;
+    problemStartedAt.current = Date.now();
+    attemptLogRef.current = attempted && startAttemptLog(settings.studentName, attempted.originalFormula, attempted.targetVariable, start, problemStartedAt.current);
+  }, [settings.studentName]);
+
+  const fetchNewProblem = useCallback(() => {
+    setIsLoading(true);
+    // Progress is read through a ref so that recording an attempt doesn't trigger a new problem.
+    const nextProblem = getPhysicsProblem(settings.formulas, progressRef.current, problemRef.current);
+    const emptyHistory = startHistory({ left: emptySide, right: emptySide });
+    problemRef.current = nextProblem; setProblemId(uuidv4());
+    // The stepwise board starts from the formula itself; its steps come in through handleStepwiseStep.
+    const isStepwiseProblem = settings.interaction === 'transform' && canTransformStepwise(nextProblem);
+    loggedHistory.current = emptyHistory; beginAttempt(isStepwiseProblem ? equationToSides(nextProblem.originalFormula) : emptyHistory.present);
+    setProblem(nextProblem);
+    setHistory(emptyHistory); setTypedText(''); setTypedError(null);
+    setTimeLeft(settings.timeLimitSeconds);
+    setIsLoading(false);
+  }, [emptySide, beginAttempt, settings.formulas, settings.interaction, settings.timeLimitSeconds]);
+
+  useEffect(() => { fetchNewProblem(); }, [fetchNewProblem]);
+
+  // The student answers in the symbols of their language; everything that is stored uses the pack's symbols.
+  const registerAttempt = useCallback((submission: Omit<AttemptSubmission, 'durationMs'>, steps?: string[]) => {
+    const attempted = problemRef.current;
+    if (!attempted) return;
+    const now = Date.now();
+    const delocalize = (answer: string) => delocalizeFormula(attempted.originalFormula, locale, answer);
+    const attempt: AttemptRecord = { formula: attempted.originalFormula, targetVariable: attempted.targetVariable, isCorrect: submission.isCorrect, durationMs: now - problemStartedAt.current, at: now };
+    const next = recordAttempt(progressRef.current, attempt);
+    progressRef.current = next; setProgress(next); saveStudentProgress(next);
+    const log = attemptLogRef.current && delocalizeAttemptLog(submitAttempt(attemptLogRef.current, submission, now), locale);
+    attemptLogRef.current = null;
+    if (log) saveAttemptLog(log);
+    if (sessionResultRef.current) {
+      const userAnswer = submission.answer && delocalize(submission.answer);
+      sessionResultRef.current = { ...sessionResultRef.current, attempts: [...sessionResultRef.current.attempts, { ...attempt, userAnswer, misconception: submission.misconception, history: steps?.map(delocalize), log: log ?? undefined }] };
+      saveSessionResult(sessionResultRef.current);
+    }
+  }, [locale]);
+
+  const endRun = useCallback((entry: MissedProblem) => { setMissed(m => [...m, entry]); setRunOver(true); }, []);
+
+  // The countdown only runs while the student is actually working on a problem.
+  const isTimerRunning = isStreak && settings.timeLimitSeconds !== null && !!problem && !modalState.isOpen && !isChecking && !runOver;
+  useEffect(() => {
+    if (!isTimerRunning) return;
+    const interval = window.setInterval(() => setTimeLeft(seconds => (seconds === null ? seconds : Math.max(0, seconds - 1))), 1000);
+    return () => window.clearInterval(interval);
+  }, [isTimerRunning]);
+
+  useEffect(() => {
+    if (timeLeft !== 0 || !isTimerRunning || !problem) return;
+    playError();
+    registerAttempt({ answer: null, isCorrect: false, explanation: '', hintSource: 'local', misconception: null }, historySteps(historyRef.current));
+    endRun({ problem, userAnswer: null, explanation: '' });
+  }, [timeLeft, isTimerRunning, problem, endRun, registerAttempt]);
+
+  const isStepwise = settings.interaction === 'transform' && !!problem && canTransformStepwise(problem);
+  const numericExercise = useMemo(() => settings.numericPhase && problem ? createNumericExercise(problem) : null, [settings.numericPhase, problem]);
+
+  // A reset is a step like any other, so it can be undone.
+  const handleReset = useCallback(() => { playReset(); setHistory(h => recordChange(h, { left: emptySide, right: emptySide })); setTypedText(''); setTypedError(null); }, [emptySide]);
+
+  const handleUndo = useCallback(() => { playClick(); setHistory(undo); }, []);
+  const handleRedo = useCallback(() => { playClick(); setHistory(redo); }, []);
+  const handleSwapSides = () => { playClick(); setHistory(h => recordChange(h, { left: h.present.right, right: h.present.left })); };
+
+  const canEditHistory = !isStepwise && inputMode === 'drag' && !modalState.isOpen && !runOver;
+  useEffect(() => {
+    if (!canEditHistory) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement | null)?.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); handleUndo(); }
+      else if (key === 'y' || (key === 'z' && e.shiftKey)) { e.preventDefault(); handleRedo(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canEditHistory, handleUndo, handleRedo]);
+
+  // While typing, every valid parse replaces both sides, so switching back to dragging shows the same equation.
+  // The input field has its own undo, so a whole stretch of typing counts as one step in the history.
+  const typingRecorded = useRef(false);
+  const applyTypedSides = (sides: EquationSnapshot) => {
+    setHistory(h => (typingRecorded.current ? replacePresent : recordChange)(h, sides));
+    typingRecorded.current = true;
+  };
+  const handleTypedChange = (text: string) => {
+    setTypedText(text);
+    if (!problem || text.trim() === '') { applyTypedSides({ left: emptySide, right: emptySide }); setTypedError(null); return; }
+    try {
+      applyTypedSides(parseTypedEquation(text, problem.symbols)); setTypedError(null);
+    } catch (error) {
+      if (!(error instanceof ExpressionParseError)) throw error;
+      setTypedError({ message: error.localize(locale), position: error.position });
+    }
+  };
+
+  const switchInputMode = (mode: 'drag' | 'type') => {
+    playClick();
+    if (mode === 'type') {
+      typingRecorded.current = false;
+      const hasEquation = leftSide.items.length > 0 || rightSide.items.length > 0;
+      setTypedText(hasEquation ? `${serializeSide(leftSide)} = ${serializeSide(rightSide)}` : ''); setTypedError(null);
+    }
+    setInputMode(mode);
+  };
+
+  const canSubmit = !isChecking && isSideSubmittable(leftSide) && isSideSubmittable(rightSide) && !(inputMode === 'type' && typedError);
+
+  const handleSubmit = async () => {
+    if (!problem || !canSubmit) return;
+    setIsChecking(true);
+    const userAnswer = `${serializeSide(leftSide)} = ${serializeSide(rightSide)}`;
+    const result = await validateAnswer(problem, userAnswer, locale);
+    registerAttempt({ answer: userAnswer, isCorrect: result.isCorrect, explanation: result.explanation, hintSource: result.hintSource, misconception: result.misconception ?? null }, historySteps(history));
+    if (isStreak && !result.isCorrect) endRun({ problem, userAnswer, explanation: result.explanation });
+    else {
+      if (isStreak) setStreak(s => s + 1);
+      setModalState({ isOpen: true, ...result });
+    }
+    setIsChecking(false);
+  };
+  
+  const handleStepwiseStep = (kind: AttemptEventKind, sides: EquationSnapshot) => {
+    if (attemptLogRef.current) attemptLogRef.current = logChange(attemptLogRef.current, sides, kind);
+  };
+
+  const handleStepwiseSolved = (steps: DerivationStep[], mistakes: number) => {
+    if (!problem) return;
+    const explanation = t(mistakes ? 'result.stepwiseSolvedWithMistakes' : 'result.stepwiseSolved', { steps: steps.length - 1, mistakes });
+    // Only a solve without wrong steps counts as correct: in the progress, the session, the streak and the modal.
+    const isCorrect = mistakes === 0;
+    registerAttempt({ answer: steps[steps.length - 1].equation, isCorrect, explanation, hintSource: 'local', misconception: null });
+    if (isCorrect) playSuccess();
+    if (isCorrect && isStreak) setStreak(s => s + 1);
+    setModalState({ isOpen: true, isCorrect, hintSource: 'local', explanation, mistakes });
+  };
+
+  // In classic mode a wrong step is only flagged on the board; in streak mode it ends the run.
+  const handleStepwiseMistake = (step: string, message: string) => {
+    if (!problem) return;
+    playError();
+    if (!isStreak) return;
+    registerAttempt({ answer: step, isCorrect: false, explanation: message, hintSource: 'local', misconception: null });
+    endRun({ problem, userAnswer: step, explanation: message });
+  };
+
+  const handleProceedToNext = () => {
+    setModalState(s => ({ ...s, isOpen: false }));
+    if (session && sessionResultRef.current && problemsDone + 1 >= session.problemCount) {
+      sessionResultRef.current = { ...sessionResultRef.current, finishedAt: Date.now() };
+      saveSessionResult(sessionResultRef.current);
+      setSessionFinished(true);
+      return;
+    }
+    setProblemsDone(n => n + 1);
+    fetchNewProblem();
+  };
+  // In streak mode a wrong answer ends the run, so retrying the same problem is never offered there.
+  const handleRetry = () => { setModalState(s => ({ ...s, isOpen: false })); beginAttempt(history.present); };
+  const handleRestartRun = () => { playClick(); setStreak(0); setMissed([]); setRunOver(false); fetchNewProblem(); };
+
+  if (isLoading || !problem) return (<div className="flex flex-col items-center justify-center h-[80vh]"><LoadingSpinner /><p className="mt-4 text-xl font-orbitron text-cyan-300">{t('game.loading')}</p></div>);
+
+  return (
+    <div className="flex flex-col h-[calc(100vh-4rem)]">
+      <header className="text-center mb-4">
+        <h2 className="text-3xl font-bold font-orbitron text-cyan-400">{t('app.title')}</h2>
+        {isStreak && (
+          <div className="mt-2 flex items-center justify-center gap-6 font-orbitron">
+            <span className="text-orange-400 text-xl">{rich('game.streak', { streak: <span className="font-bold text-yellow-300">{streak}</span> })}</span>
+            {timeLeft !== null && <span className={`text-xl ${timeLeft <= 10 ? 'text-red-400 animate-pulse' : 'text-slate-300'}`}>{rich('game.time', { time: <span className="font-bold">{timeLeft}s</span> })}</span>}
+          </div>
+        )}
+        {session && <p className="mt-2 font-orbitron text-slate-300">{t('game.sessionProgress', { name: session.name, current: Math.min(problemsDone + 1, session.problemCount), total: session.problemCount })}</p>}
+        <div className="mx-auto mt-2 max-w-md"><ProgressBar progress={progress} formulas={settings.formulas} /></div>
+      </header>
+      <EquationKeyboardHelp />
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+      <EquationKeyboardContext.Provider value={keyboardContext}>
+      <PointerDragProvider>
+      <main className="flex-grow grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-3 flex flex-col gap-6 p-6 bg-slate-800/50 rounded-2xl border border-slate-700">
+            <div className="text-center p-4 bg-slate-900 rounded-lg border-2 border-cyan-500">
+                <p className="text-slate-300 text-lg mb-2">{t('game.instruction')}</p>
+                <div className="text-3xl font-bold text-cyan-400 font-orbitron mt-2"><FormulaRenderer formula={problem.originalFormula} highlight={problem.targetVariable} /></div>
+            </div>
+            {isStepwise ? <TransformationBoard key={problemId} problem={problem} onStep={handleStepwiseStep} onSolved={handleStepwiseSolved} onWrongStep={handleStepwiseMistake} /> : <>
+            <div className="flex justify-center gap-2" role="radiogroup" aria-label={t('game.inputMethod')}>
+                {(['drag', 'type'] as const).map(mode => (
+                    <button key={mode} role="radio" aria-checked={inputMode === mode} onClick={() => switchInputMode(mode)} disabled={inputMode === mode || (mode === 'drag' && !!typedError)}
+                        title={mode === 'drag' && typedError ? t('game.fixTypedFirst') : undefined}
+                        className={`px-4 py-1 rounded-full font-bold transition-colors ${inputMode === mode ? 'bg-cyan-500 text-slate-900' : 'bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed'}`}>{t(`game.input.${mode}`)}</button>
+                ))}
+            </div>
+            {inputMode === 'type' ? (
+              <TypedEquationInput value={typedText} error={typedError} preview={isSideSubmittable(leftSide) || isSideSubmittable(rightSide) ? `${serializeSide(leftSide)} = ${serializeSide(rightSide)}` : ''} highlight={problem.targetVariable} onChange={handleTypedChange} onSubmit={handleSubmit} />
+            ) : (<>
+            <EditToolbar canUndo={history.past.length > 0} canRedo={history.future.length > 0} onUndo={handleUndo} onRedo={handleRedo} onSwapSides={handleSwapSides} onCommand={handleEditCommand} />
+            <div className="flex-grow flex items-center justify-center gap-4 flex-col md:flex-row">
+                <div className="w-full md:w-2/5 h-full"><DropZone side={leftSide} onSideChange={handleLeftChange} label={t('common.leftSide')} /></div>
+                <div className="text-5xl font-bold text-slate-400">=</div>
+                <div className="w-full md:w-3/5 h-full"><DropZone side={rightSide} onSideChange={handleRightChange} label={t('common.rightSide')} /></div>
+            </div>
+            </>)}
+             <div className="flex flex-col md:flex-row items-center justify-center gap-4 mt-auto pt-4">
+                <button onClick={handleReset} disabled={leftSide.items.length === 0 && rightSide.items.length === 0} className="px-6 py-3 w-full md:w-auto bg-red-600 text-slate-100 font-bold rounded-lg text-lg hover:bg-red-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all transform hover:scale-105 flex items-center justify-center gap-2"><ResetIcon /> {t('game.reset')}</button>
+                <button onClick={handleSubmit} disabled={!canSubmit} className="px-8 py-3 w-full md:w-auto bg-green-500 text-slate-900 font-bold rounded-lg text-xl hover:bg-green-400 disabled:bg-slate-600 disabled:cursor-not-allowed transition-all transform hover:scale-105 flex items-center justify-center gap-2">{isChecking ? <><LoadingSpinner /> {t('game.checking')}</> : t('game.check')}</button>
+            </div>
+            </>}
+        </div>
+        <div className="lg:col-span-1 p-4 bg-slate-800/50 rounded-2xl border border-slate-700 flex flex-col gap-6">
+          {paletteGroups.map(({ title, symbols }) => (
+            <div key={title}>
+              <h3 className="text-xl font-bold mb-4 text-center font-orbitron text-cyan-400">{title}</h3>
+              <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-3 gap-2">
+                {symbols.map(s => <DraggableSymbol key={s} symbol={s} unit={problem?.units?.[s]} onActivate={handlePaletteActivate} />)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+      </PointerDragProvider>
+      </EquationKeyboardContext.Provider>
+      <Modal isOpen={modalState.isOpen} onClose={modalState.isCorrect || modalState.mistakes ? handleProceedToNext : handleRetry}>
+        {modalState.isCorrect ? (
+          <div className="text-center"><SuccessAnimation /><h2 className="text-4xl font-bold font-orbitron mb-4 text-green-400">{t('result.correct')}</h2><p>{modalState.explanation}</p>{numericExercise && <div className="mt-4"><NumericApplication key={problemId} exercise={numericExercise} /></div>}<div className="mt-6 flex justify-center"><button onClick={handleProceedToNext} className="flex items-center gap-2 px-6 py-2 bg-cyan-500 text-slate-900 font-bold rounded-lg hover:bg-cyan-400 transition-colors"><NextIcon /> {t('common.nextProblem')}</button></div></div>
+        ) : modalState.mistakes ? (
+          <div className="text-center"><h2 className="text-4xl font-bold font-orbitron mb-4 text-yellow-400">{t('result.solvedWithMistakes')}</h2><p>{modalState.explanation}</p><div className="mt-6 flex justify-center"><button onClick={handleProceedToNext} className="flex items-center gap-2 px-6 py-2 bg-cyan-500 text-slate-900 font-bold rounded-lg hover:bg-cyan-400 transition-colors"><NextIcon /> {t('common.nextProblem')}</button></div></div>
+        ) : (
+          <div className="text-center"><h2 className="text-4xl font-bold font-orbitron mb-4 text-red-400">{t('result.wrong')}</h2><div className="prose prose-invert max-w-none text-left bg-slate-900/50 p-4 rounded-lg space-y-4"><div><h3 className="font-bold text-cyan-400">{t(modalState.hintSource === 'ai' ? 'result.aiHint' : 'result.hint')}</h3><p>{modalState.explanation}</p></div>{modalState.unitHint && <div><h3 className="font-bold text-cyan-400">{t('result.units')}</h3><p>{modalState.unitHint}</p></div>}<div><h3 className="font-bold text-cyan-400">{t('result.solution')}</h3><WorkedSolution problem={problem} /></div></div><div className="mt-6 flex justify-center gap-4"><button onClick={handleRetry} className="flex items-center gap-2 px-6 py-2 bg-yellow-500 text-slate-900 font-bold rounded-lg hover:bg-yellow-400 transition-colors"><RetryIcon/> {t('result.retry')}</button><button onClick={handleProceedToNext} className="flex items-center gap-2 px-6 py-2 bg-cyan-500 text-slate-900 font-bold rounded-lg hover:bg-cyan-400 transition-colors"><NextIcon /> {t('common.nextProblem')}</button></div></div>
+        )}
+      </Modal>
+      <Modal isOpen={runOver} onClose={onExit}>
+        <StreakSummary finalStreak={streak} missed={missed} onRestart={handleRestartRun} onExit={onExit} />
+      </Modal>
+      {session && sessionResultRef.current && (
+        <Modal isOpen={sessionFinished} onClose={onExit}>
+          <SessionSummary session={session} result={sessionResultRef.current} onExit={onExit} />
+        </Modal>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React, { useState, useEffect, useMemo, useContext } from 'react';
+import { translate, loadLocale, saveLocale } from '../lib/i18n';
+import type { Locale, MessageKey, MessageParams } from '../lib/i18n';
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  // Like t, but a parameter can be markup, such as a highlighted number inside a sentence.
+  rich: (key: MessageKey, params: { [name: string]: React.ReactNode }) => React.ReactNode;
+}
+
+const LocaleContext = React.createContext<LocaleContextValue | null>(null);
+
+export const LocaleProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(loadLocale);
+    useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+    const value = useMemo<LocaleContextValue>(() => ({
+        locale,
+        setLocale: (next) => { setLocaleState(next); saveLocale(next); },
+        t: (key, params) => translate(locale, key, params),
+        rich: (key, params) => {
+            const plain = Object.fromEntries(Object.entries(params).filter((entry): entry is [string, string | number] => typeof entry[1] === 'string' || typeof entry[1] === 'number'));
+            return translate(locale, key, plain).split(/\{(\w+)\}/).map((part, index) => index % 2 === 0 ? part : <React.Fragment key={index}>{params[part]}</React.Fragment>);
+        },
+    }), [locale]);
+    return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useI18n = (): LocaleContextValue => {
+    const context = useContext(LocaleContext);
+    if (!context) throw new Error('useI18n must be used inside a LocaleProvider');
+    return context;
+};
@@ -0,0 +1,21 @@
+import React, { useEffect, useRef } from 'react';
+
+export const Modal: React.FC<{isOpen: boolean; onClose: () => void; children: React.ReactNode}> = ({ isOpen, onClose, children }) => {
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+    useEffect(() => {
+        if (!isOpen) return;
+        dialogRef.current?.focus();
+        const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onCloseRef.current(); };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen]);
+    if (!isOpen) return null;
+    return (
+      <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+        <div ref={dialogRef} role="dialog" aria-modal="true" tabIndex={-1} className="focus:outline-none bg-slate-800 rounded-2xl shadow-2xl p-6 sm:p-8 w-full max-w-2xl border border-slate-700 animate-fade-in" onClick={(e) => e.stopPropagation()}>{children}</div>
+        <style>{`@keyframes fade-in { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in { animation: fade-in 0.3s ease-out forwards; }`}</style>
+      </div>
+    );
+};
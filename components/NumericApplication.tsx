@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { useI18n } from './LocaleProvider';
+import { checkNumericAnswer, formatNumber, formatNumericResult, numericErrorKind, numericFeedback } from '../lib/numeric';
+import type { NumericCheck, NumericExercise } from '../lib/numeric';
+import { playError, playSuccess } from '../services/soundService';
+
+export const NumericApplication: React.FC<{exercise: NumericExercise}> = ({ exercise }) => {
+    const { locale, t } = useI18n();
+    const [value, setValue] = useState('');
+    const [unit, setUnit] = useState('');
+    // The unit is kept with the verdict, so the feedback keeps naming the unit that was checked while the student edits.
+    const [checked, setChecked] = useState<{ check: NumericCheck; unit: string } | null>(null);
+    const [showSolution, setShowSolution] = useState(false);
+    const errorKind = checked && numericErrorKind(checked.check.verdict);
+
+    const handleCheck = (e: React.FormEvent) => {
+        e.preventDefault();
+        const check = checkNumericAnswer(exercise, value, unit);
+        if (check.isCorrect) playSuccess(); else playError();
+        setChecked({ check, unit });
+    };
+
+    return (
+        <div className="text-left bg-slate-900/50 p-4 rounded-lg space-y-3">
+            <h3 className="font-bold text-cyan-400">{t('numeric.title')}</h3>
+            <div>
+                <p className="text-slate-400">{t('numeric.given')}</p>
+                <ul className="font-mono text-lg">
+                    {exercise.givens.map(given => <li key={given.variable}>{given.variable} = {formatNumber(given.value, given.significantFigures, locale)} {given.unit}</li>)}
+                </ul>
+                <p className="text-slate-400 mt-2">{t('numeric.asked', { target: exercise.target })}</p>
+            </div>
+            <form onSubmit={handleCheck} className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-lg">{exercise.target} =</span>
+                <input type="text" inputMode="decimal" value={value} onChange={(e) => setValue(e.target.value)} aria-label={t('numeric.value')} placeholder={t('numeric.value')} autoComplete="off"
+                    className="w-36 bg-slate-900 border-2 border-slate-600 rounded-lg px-2 py-1 font-mono text-lg focus:outline-none focus:border-cyan-400" />
+                <input type="text" value={unit} onChange={(e) => setUnit(e.target.value)} aria-label={t('numeric.unit')} placeholder={t('numeric.unit')} autoComplete="off" spellCheck={false}
+                    className="w-24 bg-slate-900 border-2 border-slate-600 rounded-lg px-2 py-1 font-mono text-lg focus:outline-none focus:border-cyan-400" />
+                <button type="submit" disabled={!value.trim()} className="px-4 py-1 bg-green-500 text-slate-900 font-bold rounded-lg hover:bg-green-400 disabled:bg-slate-600 disabled:cursor-not-allowed">{t('numeric.check')}</button>
+            </form>
+            <div aria-live="polite">
+                {checked && (
+                    <p className={checked.check.isCorrect ? 'text-green-300' : 'text-red-300'}>
+                        {errorKind && <strong className="mr-2">{t(`numeric.kind.${errorKind}`)}:</strong>}
+                        {numericFeedback(checked.check, exercise, checked.unit, locale)}
+                    </p>
+                )}
+            </div>
+            {checked && !checked.check.isCorrect && (showSolution
+                ? <p className="font-mono text-yellow-300">{t('numeric.solution', { answer: formatNumericResult(exercise, locale) })}</p>
+                : <button onClick={() => setShowSolution(true)} className="text-sm text-slate-300 underline hover:text-cyan-300">{t('numeric.showSolution')}</button>)}
+        </div>
+    );
+};
@@ -0,0 +1,129 @@
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import type { DraggableItem, EquationSide } from '../types';
+import { usePreferences } from './PreferencesProvider';
+import { createItemForSymbol, insertAtPath, removeAtPath, moveItemWithinSide } from '../lib/equationTree';
+import { playDrop } from '../services/soundService';
+
+type DragPayload =
+    | { kind: 'symbol'; symbol: string }
+    | { kind: 'item'; zoneId: string; path: (string | number)[]; item: DraggableItem };
+
+interface DropTarget { zoneId: string; path: (string | number)[]; index: number; }
+
+interface ZoneHandlers { getSide: () => EquationSide; onSideChange: (side: EquationSide) => void; }
+
+interface PointerDragContextValue {
+  startDrag: (e: React.PointerEvent, payload: DragPayload, ghost: React.ReactNode) => void;
+  registerZone: (zoneId: string, handlers: ZoneHandlers) => () => void;
+  payload: DragPayload | null;
+  hover: DropTarget | null;
+}
+
+export const PointerDragContext = React.createContext<PointerDragContextValue | null>(null);
+
+export const DropZoneIdContext = React.createContext<string>('');
+
+const DRAG_THRESHOLD_PX = 6;
+
+const AUTO_SCROLL_EDGE_PX = 60;
+
+// Same rule the drop indicator has always used: insert before the first item whose midpoint is right of the pointer.
+const computeInsertIndex = (container: HTMLElement, clientX: number): number => {
+    const items = Array.from(container.children).filter((el): el is HTMLElement => el instanceof HTMLElement && el.hasAttribute('data-equation-item'));
+    for (let i = 0; i < items.length; i++) {
+        const rect = items[i].getBoundingClientRect();
+        if (clientX < rect.left + rect.width / 2) return i;
+    }
+    return items.length;
+};
+
+const findDropTarget = (x: number, y: number): DropTarget | null => {
+    const container = (document.elementFromPoint(x, y) as HTMLElement | null)?.closest<HTMLElement>('[data-drop-path]');
+    const zoneId = container?.closest<HTMLElement>('[data-drop-zone]')?.dataset.dropZone;
+    if (!container || !zoneId) return null;
+    return { zoneId, path: JSON.parse(container.dataset.dropPath!), index: computeInsertIndex(container, x) };
+};
+
+// Drag and drop built on pointer events so mouse, touch and pen behave the same. A drag only starts once the
+// pointer has moved a few pixels, so a plain tap still counts as a click.
+export const PointerDragProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
+    const zones = useRef(new Map<string, ZoneHandlers>());
+    const [payload, setPayload] = useState<DragPayload | null>(null);
+    const [hover, setHover] = useState<DropTarget | null>(null);
+    const [ghost, setGhost] = useState<{ content: React.ReactNode; x: number; y: number } | null>(null);
+    const hoverRef = useRef<DropTarget | null>(null);
+    const { preferences } = usePreferences();
+
+    const registerZone = useCallback((zoneId: string, handlers: ZoneHandlers) => {
+        zones.current.set(zoneId, handlers);
+        return () => { zones.current.delete(zoneId); };
+    }, []);
+
+    const performDrop = useCallback((dragged: DragPayload, target: DropTarget) => {
+        const targetZone = zones.current.get(target.zoneId);
+        if (!targetZone) return;
+        playDrop();
+        if (dragged.kind === 'symbol') { targetZone.onSideChange(insertAtPath(targetZone.getSide(), target.path, target.index, createItemForSymbol(dragged.symbol))); return; }
+        if (dragged.zoneId === target.zoneId) { targetZone.onSideChange(moveItemWithinSide(targetZone.getSide(), dragged.path, target.path, target.index)); return; }
+        const sourceZone = zones.current.get(dragged.zoneId);
+        if (!sourceZone) return;
+        sourceZone.onSideChange(removeAtPath(sourceZone.getSide(), dragged.path));
+        targetZone.onSideChange(insertAtPath(targetZone.getSide(), target.path, target.index, dragged.item));
+    }, []);
+
+    const startDrag = useCallback((e: React.PointerEvent, dragged: DragPayload, content: React.ReactNode) => {
+        if (e.pointerType === 'mouse' && e.button !== 0) return;
+        const start = { x: e.clientX, y: e.clientY };
+        let started = false, scrollSpeed = 0, frame = 0, last = start;
+
+        const updateHover = () => { const target = findDropTarget(last.x, last.y); hoverRef.current = target; setHover(target); };
+        const autoScroll = () => {
+            if (scrollSpeed !== 0) { window.scrollBy(0, scrollSpeed); updateHover(); }
+            frame = requestAnimationFrame(autoScroll);
+        };
+        const handleMove = (ev: PointerEvent) => {
+            last = { x: ev.clientX, y: ev.clientY };
+            if (!started) {
+                if (Math.hypot(last.x - start.x, last.y - start.y) < DRAG_THRESHOLD_PX) return;
+                started = true; setPayload(dragged); frame = requestAnimationFrame(autoScroll);
+            }
+            ev.preventDefault();
+            setGhost({ content, x: last.x, y: last.y });
+            scrollSpeed = last.y < AUTO_SCROLL_EDGE_PX ? -12 : last.y > window.innerHeight - AUTO_SCROLL_EDGE_PX ? 12 : 0;
+            updateHover();
+        };
+        const cleanup = () => {
+            window.removeEventListener('pointermove', handleMove);
+            window.removeEventListener('pointerup', handleUp);
+            window.removeEventListener('pointercancel', cleanup);
+            cancelAnimationFrame(frame);
+            hoverRef.current = null; setHover(null); setPayload(null); setGhost(null);
+        };
+        const handleUp = () => {
+            const target = hoverRef.current;
+            if (started) {
+                // The click that follows a drag must not also insert the symbol at the keyboard cursor.
+                const swallowClick = (ev: MouseEvent) => ev.stopPropagation();
+                window.addEventListener('click', swallowClick, { capture: true, once: true });
+                setTimeout(() => window.removeEventListener('click', swallowClick, { capture: true }), 0);
+                if (target) performDrop(dragged, target);
+            }
+            cleanup();
+        };
+        window.addEventListener('pointermove', handleMove, { passive: false });
+        window.addEventListener('pointerup', handleUp);
+        window.addEventListener('pointercancel', cleanup);
+    }, [performDrop]);
+
+    const value = useMemo(() => ({ startDrag, registerZone, payload, hover }), [startDrag, registerZone, payload, hover]);
+    return (
+        <PointerDragContext.Provider value={value}>
+            {children}
+            {ghost && (
+                <div className={`fixed z-50 pointer-events-none -translate-x-1/2 -translate-y-1/2 scale-110 opacity-90 flex items-center justify-center ${preferences.largeSymbols ? 'min-w-[5rem] h-20 text-3xl' : 'min-w-[4rem] h-16 text-2xl'} px-3 bg-cyan-600 border-b-4 border-cyan-800 rounded-lg font-bold shadow-2xl`} style={{ left: ghost.x, top: ghost.y }} aria-hidden="true">
+                    {ghost.content}
+                </div>
+            )}
+        </PointerDragContext.Provider>
+    );
+};
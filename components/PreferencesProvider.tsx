@@ -0,0 +1,48 @@
+import React, { useState, useEffect, useMemo, useContext } from 'react';
+import { loadPreferences, savePreferences, shouldReduceMotion } from '../lib/preferences';
+import type { Preferences } from '../lib/preferences';
+import { configureSound } from '../services/soundService';
+
+interface PreferencesContextValue {
+  preferences: Preferences;
+  setPreferences: (preferences: Preferences) => void;
+  // The motion setting resolved against the device setting.
+  reduceMotion: boolean;
+}
+
+const PreferencesContext = React.createContext<PreferencesContextValue | null>(null);
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// Applies the settings to the sound service, and motion and contrast as classes on the root element for the styles in
+// index.html. The symbol size is read by the components that draw symbols.
+export const PreferencesProvider: React.FC<{children: React.ReactNode}> = ({ children }) => {
+    const [preferences, setPreferencesState] = useState<Preferences>(loadPreferences);
+    const [systemReducesMotion, setSystemReducesMotion] = useState(() => typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches);
+    useEffect(() => {
+        const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+        if (!query) return;
+        const handleChange = (e: MediaQueryListEvent) => setSystemReducesMotion(e.matches);
+        query.addEventListener('change', handleChange);
+        return () => query.removeEventListener('change', handleChange);
+    }, []);
+    const reduceMotion = shouldReduceMotion(preferences, systemReducesMotion);
+    useEffect(() => { configureSound(preferences.volume, preferences.mutedSounds); }, [preferences.volume, preferences.mutedSounds]);
+    useEffect(() => {
+        const root = document.documentElement.classList;
+        root.toggle('reduce-motion', reduceMotion);
+        root.toggle('high-contrast', preferences.highContrast);
+    }, [reduceMotion, preferences.highContrast]);
+    const value = useMemo<PreferencesContextValue>(() => ({
+        preferences,
+        setPreferences: (next) => { setPreferencesState(next); savePreferences(next); },
+        reduceMotion,
+    }), [preferences, reduceMotion]);
+    return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+};
+
+export const usePreferences = (): PreferencesContextValue => {
+    const context = useContext(PreferencesContext);
+    if (!context) throw new Error('usePreferences must be used inside a PreferencesProvider');
+    return context;
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { FormulaRenderer } from './FormulaRenderer';
+import { useI18n } from './LocaleProvider';
+import { MASTERED_BOX } from '../constants';
+import { practiceTargets } from '../lib/formulaPacks';
+import type { LoadedFormula } from '../lib/formulaPacks';
+import { progressKey } from '../lib/progress';
+import type { ProgressItem, StudentProgress } from '../lib/progress';
+import { localizeFormula, localizeSymbol } from '../lib/quantitySymbols';
+
+export const ProgressBar: React.FC<{progress: StudentProgress; formulas: LoadedFormula[]; detailed?: boolean}> = ({ progress, formulas, detailed = false }) => {
+    const { locale, t } = useI18n();
+    const rows = formulas.map(formula => ({
+        formula,
+        targets: practiceTargets(formula).map(targetVariable => ({ targetVariable, item: progress.items[progressKey(formula.formula, targetVariable)] })),
+    }));
+    const all = rows.flatMap(r => r.targets);
+    const mastered = all.filter(target => target.item && target.item.box >= MASTERED_BOX).length;
+    const practiced = all.filter(target => target.item && target.item.box < MASTERED_BOX).length;
+    const percent = (n: number) => `${all.length ? (n / all.length) * 100 : 0}%`;
+    const chipClass = (item?: ProgressItem) => !item ? 'bg-slate-700 text-slate-400' : item.box >= MASTERED_BOX ? 'bg-green-700 text-green-100' : item.correct < item.attempts - item.correct ? 'bg-red-800 text-red-100' : 'bg-yellow-700 text-yellow-100';
+    return (
+        <div className="w-full">
+            <div className="flex h-3 w-full overflow-hidden rounded-full bg-slate-700" role="progressbar" aria-valuemin={0} aria-valuemax={all.length} aria-valuenow={mastered} aria-label={t('progress.label')}>
+                <div className="bg-green-500 transition-all duration-500" style={{ width: percent(mastered) }} />
+                <div className="bg-yellow-500 transition-all duration-500" style={{ width: percent(practiced) }} />
+            </div>
+            <p className="mt-1 text-sm text-slate-400">{t('progress.summary', { mastered, total: all.length, practicing: practiced })}</p>
+            {detailed && (
+                <ul className="mt-3 space-y-2 max-h-64 overflow-y-auto pr-1">
+                    {rows.map(({ formula, targets }) => (
+                        <li key={`${formula.packId}-${formula.formula}`} className="flex items-center justify-between gap-2 bg-slate-900/50 rounded-md px-3 py-2">
+                            <div className="text-base"><FormulaRenderer formula={localizeFormula(formula.formula, locale)} /></div>
+                            <div className="flex flex-wrap justify-end gap-1">
+                                {targets.map(({ targetVariable, item }) => (
+                                    <span key={targetVariable} className={`px-2 py-0.5 rounded text-xs font-bold ${chipClass(item)}`} title={item ? t('progress.itemTitle', { correct: item.correct, attempts: item.attempts, seconds: Math.round(item.totalTimeMs / item.attempts / 1000) }) : t('progress.notPracticed')}>
+                                        {localizeSymbol(targetVariable, formula.formula, locale)}{item && ` ${item.correct}/${item.attempts}`}
+                                    </span>
+                                ))}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { SettingsIcon } from './Icons';
+import { useI18n } from './LocaleProvider';
+import { Modal } from './Modal';
+import { usePreferences } from './PreferencesProvider';
+import { DEFAULT_PREFERENCES, SOUND_EVENTS } from '../lib/preferences';
+import type { MotionPreference, Preferences, SoundEvent } from '../lib/preferences';
+import { playClick, playSuccess } from '../services/soundService';
+
+const MOTION_OPTIONS: MotionPreference[] = ['system', 'reduce', 'full'];
+
+const SettingsPanel: React.FC<{onClose: () => void}> = ({ onClose }) => {
+    const { t } = useI18n();
+    const { preferences, setPreferences } = usePreferences();
+    const update = (change: Partial<Preferences>) => setPreferences({ ...preferences, ...change });
+    const toggleSound = (event: SoundEvent) => update({ mutedSounds: preferences.mutedSounds.includes(event) ? preferences.mutedSounds.filter(muted => muted !== event) : [...preferences.mutedSounds, event] });
+    const volumePercent = Math.round(preferences.volume * 100);
+    return (
+        <div className="space-y-6 text-left">
+            <h2 className="text-2xl font-bold font-orbitron text-cyan-400">{t('settings.title')}</h2>
+            <fieldset className="space-y-3">
+                <legend className="text-lg font-bold text-cyan-400 mb-2">{t('settings.sound')}</legend>
+                <div className="flex items-center gap-3">
+                    <label htmlFor="settings-volume">{t('settings.volume')}</label>
+                    <input id="settings-volume" type="range" min={0} max={100} step={5} value={volumePercent} onChange={(e) => update({ volume: Number(e.target.value) / 100 })} className="flex-grow accent-cyan-500" />
+                    <span className="w-12 text-right font-mono">{volumePercent}%</span>
+                    <button onClick={() => playSuccess()} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600">{t('settings.test')}</button>
+                </div>
+                <p className="text-slate-300">{t('settings.sounds')}</p>
+                <div className="flex flex-wrap gap-4">
+                    {SOUND_EVENTS.map(event => (
+                        <label key={event} className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={!preferences.mutedSounds.includes(event)} onChange={() => toggleSound(event)} className="accent-cyan-500" />{t(`settings.sound.${event}`)}</label>
+                    ))}
+                </div>
+            </fieldset>
+            <fieldset className="space-y-3">
+                <legend className="text-lg font-bold text-cyan-400 mb-2">{t('settings.display')}</legend>
+                <div className="flex flex-wrap items-center gap-4" role="radiogroup" aria-label={t('settings.motion')}>
+                    {t('settings.motion')}
+                    {MOTION_OPTIONS.map(option => (
+                        <label key={option} className="flex items-center gap-1 cursor-pointer"><input type="radio" name="motion" value={option} checked={preferences.motion === option} onChange={() => update({ motion: option })} className="accent-cyan-500" />{t(`settings.motion.${option}`)}</label>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={preferences.highContrast} onChange={(e) => update({ highContrast: e.target.checked })} className="accent-cyan-500" />{t('settings.highContrast')}</label>
+                <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={preferences.largeSymbols} onChange={(e) => update({ largeSymbols: e.target.checked })} className="accent-cyan-500" />{t('settings.largeSymbols')}</label>
+            </fieldset>
+            <div className="flex justify-between gap-3">
+                <button onClick={() => setPreferences(DEFAULT_PREFERENCES)} className="text-slate-300 underline hover:text-cyan-300">{t('settings.reset')}</button>
+                <button onClick={onClose} className="px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 font-bold">{t('settings.close')}</button>
+            </div>
+        </div>
+    );
+};
+
+// Reachable from every screen, so a teacher can silence a classroom without leaving a game.
+export const SettingsButton: React.FC = () => {
+    const { t } = useI18n();
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <>
+            <button onClick={() => { playClick(); setIsOpen(true); }} aria-label={t('settings.open')} title={t('settings.open')}
+                className="fixed top-3 right-3 z-40 w-10 h-10 flex items-center justify-center rounded-full bg-slate-800 border border-slate-600 text-slate-300 hover:text-cyan-300 hover:bg-slate-700">
+                <SettingsIcon />
+            </button>
+            <Modal isOpen={isOpen} onClose={() => setIsOpen(false)}><SettingsPanel onClose={() => setIsOpen(false)} /></Modal>
+        </>
+    );
+};
@@ -0,0 +1,219 @@
+import React, { useState, useMemo } from 'react';
+import type { GameMode, InteractionMode, GameSettings } from '../types';
+import { AttemptList } from './AttemptReview';
+import { ClearIcon } from './Icons';
+import { useI18n } from './LocaleProvider';
+import { ProgressBar } from './ProgressBar';
+import { BUILT_IN_FORMULA_PACKS, DIFFICULTY_LEVELS, TIME_LIMIT_OPTIONS } from '../constants';
+import { loadAttemptLogs } from '../lib/attemptLog';
+import { downloadFile } from '../lib/download';
+import { LOCALES, isLocale, translate } from '../lib/i18n';
+import type { Locale } from '../lib/i18n';
+import { FormulaPackError, loadFormulaPack, loadAllFormulaPacks, loadStoredFormulaPacks, storeFormulaPacks } from '../lib/formulaPacks';
+import type { FormulaPack, FormulaDifficulty, LoadedFormulaPack } from '../lib/formulaPacks';
+import { loadCurrentStudentName, saveCurrentStudentName, loadDefaultStudentName, parseProgressStore, loadProgressStore, saveProgressStore, getStudentProgress, mergeProgressStores } from '../lib/progress';
+import type { ProgressStore } from '../lib/progress';
+import { parseClassSession, loadSessionFormulas, decodeSessionFromHash } from '../lib/sessions';
+import type { ClassSession } from '../lib/sessions';
+import { playClick } from '../services/soundService';
+
+const FormulaPackPicker: React.FC<{packs: LoadedFormulaPack[]; selectedIds: string[]; onToggle: (id: string) => void; onAdd: (file: File) => void; onRemove: (id: string) => void; error: FormulaPackError | null}> = ({ packs, selectedIds, onToggle, onAdd, onRemove, error }) => {
+    const { t } = useI18n();
+    return (
+    <div className="mt-8 text-left">
+        <h2 className="text-xl text-slate-200 mb-3 text-center">{t('packs.title')}</h2>
+        <ul className="space-y-2">
+            {packs.map(pack => (
+                <li key={pack.id} className="flex items-center gap-3 bg-slate-900/50 rounded-md px-3 py-2">
+                    <input type="checkbox" id={`pack-${pack.id}`} checked={selectedIds.includes(pack.id)} onChange={() => onToggle(pack.id)} className="accent-cyan-500" />
+                    <label htmlFor={`pack-${pack.id}`} className="flex-grow cursor-pointer">{pack.name}{pack.schoolYear && <span className="text-slate-400"> ({pack.schoolYear})</span>} <span className="text-slate-500 text-sm">· {t('packs.formulaCount', { count: pack.formulas.length })}</span></label>
+                    {!BUILT_IN_FORMULA_PACKS.some(p => p.id === pack.id) && <button onClick={() => onRemove(pack.id)} className="text-red-400 hover:text-red-300" aria-label={t('packs.remove', { name: pack.name })}><ClearIcon /></button>}
+                </li>
+            ))}
+        </ul>
+        <label className="mt-3 block text-center text-cyan-400 hover:text-cyan-300 cursor-pointer">
+            {t('packs.load')}
+            <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onAdd(file); e.target.value = ''; }} />
+        </label>
+        {error && (
+            <div className="mt-3 p-3 bg-red-950/60 border border-red-500 rounded-md text-sm">
+                <p className="font-bold text-red-300">{error.message}</p>
+                <ul className="list-disc pl-5 text-red-200">{error.problems.map((problem, index) => <li key={index}>{problem}</li>)}</ul>
+            </div>
+        )}
+    </div>
+    );
+};
+
+// Students join through the teacher's link or session file; the session code only identifies the session in the results.
+const SessionJoinPanel: React.FC<{session: ClassSession | null; error: string | null; onJoinFile: (file: File) => void; onLeave: () => void}> = ({ session, error, onJoinFile, onLeave }) => {
+    const { t, rich } = useI18n();
+    if (session) return (
+        <div className="mb-6 p-4 bg-cyan-950/60 border border-cyan-500 rounded-lg text-left">
+            <p className="text-slate-300">{rich('join.joined', { name: <span className="font-bold text-cyan-300">{session.name}</span>, code: <span className="font-mono">{session.code}</span> })}</p>
+            <p className="text-slate-400 text-sm">{t('join.summary', { problems: session.problemCount, count: session.formulas.length })}</p>
+            <button onClick={onLeave} className="mt-2 text-sm text-cyan-400 hover:text-cyan-300">{t('join.leave')}</button>
+        </div>
+    );
+    return (
+        <div className="mb-6 text-slate-300">
+            <label className="block text-center text-sm text-cyan-400 hover:text-cyan-300 cursor-pointer">
+                {t('join.file')}
+                <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onJoinFile(file); e.target.value = ''; }} />
+            </label>
+            {error && <p className="mt-2 text-sm text-red-300 text-center">{error}</p>}
+        </div>
+    );
+};
+
+// A session link opens the app with the session in the URL fragment; reading it once at start-up is enough.
+const readSessionFromLink = (locale: Locale): { session: ClassSession | null; error: string | null } => {
+    try { return { session: decodeSessionFromHash(window.location.hash, locale), error: null }; }
+    catch (error) { console.error("Sessielink kon niet gelezen worden", error); return { session: null, error: translate(locale, 'start.brokenLink') }; }
+};
+
+export const StartScreen: React.FC<{onStart: (settings: GameSettings) => void; onOpenTeacher: () => void}> = ({ onStart, onOpenTeacher }) => {
+    const { locale, setLocale, t } = useI18n();
+    const [sessionState, setSessionState] = useState(() => readSessionFromLink(locale));
+    const session = sessionState.session;
+    const [timeLimitSeconds, setTimeLimitSeconds] = useState<number | null>(null);
+    const [interaction, setInteraction] = useState<InteractionMode>('build');
+    const [numericPhase, setNumericPhase] = useState(false);
+    const [maxDifficulty, setMaxDifficulty] = useState<FormulaDifficulty>(3);
+    const [userPacks, setUserPacks] = useState<FormulaPack[]>(loadStoredFormulaPacks);
+    const [selectedPackIds, setSelectedPackIds] = useState<string[]>(() => [...BUILT_IN_FORMULA_PACKS, ...loadStoredFormulaPacks()].map(p => p.id));
+    const [packError, setPackError] = useState<FormulaPackError | null>(null);
+    const [defaultStudentName] = useState(() => loadDefaultStudentName(t('common.defaultStudentName')));
+    const [studentName, setStudentName] = useState(() => loadCurrentStudentName() ?? defaultStudentName);
+    const [progressStore, setProgressStore] = useState<ProgressStore>(loadProgressStore);
+    const [progressError, setProgressError] = useState<string | null>(null);
+    const attemptLogs = useMemo(() => loadAttemptLogs(), []);
+
+    const packs = useMemo(() => loadAllFormulaPacks(userPacks), [userPacks]);
+    const formulas = useMemo(() => packs.filter(p => selectedPackIds.includes(p.id)).flatMap(p => p.formulas).filter(f => f.difficulty <= maxDifficulty), [packs, selectedPackIds, maxDifficulty]);
+
+    const updateUserPacks = (next: FormulaPack[]) => { setUserPacks(next); storeFormulaPacks(next); };
+    const handleTogglePack = (id: string) => setSelectedPackIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+    const handleRemovePack = (id: string) => { updateUserPacks(userPacks.filter(p => p.id !== id)); setSelectedPackIds(ids => ids.filter(i => i !== id)); };
+    const handleAddPack = async (file: File) => {
+        try {
+            let raw: unknown;
+            try { raw = JSON.parse(await file.text()); }
+            catch { throw new FormulaPackError(t('common.invalidJson', { file: file.name })); }
+            const pack = loadFormulaPack(raw, locale);
+            if (BUILT_IN_FORMULA_PACKS.some(p => p.id === pack.id)) throw new FormulaPackError(t('packs.idInUse', { id: pack.id }));
+            updateUserPacks([...userPacks.filter(p => p.id !== pack.id), raw as FormulaPack]);
+            setSelectedPackIds(ids => ids.includes(pack.id) ? ids : [...ids, pack.id]);
+            setPackError(null);
+        } catch (error) {
+            setPackError(error instanceof FormulaPackError ? error : new FormulaPackError((error as Error).message));
+        }
+    };
+
+    const handleStudentNameChange = (name: string) => { setStudentName(name); saveCurrentStudentName(name); };
+    const handleExportProgress = () => downloadFile('formule-flipper-voortgang.json', JSON.stringify(progressStore, null, 2), 'application/json');
+    const handleImportProgress = async (file: File) => {
+        try {
+            const merged = mergeProgressStores(loadProgressStore(), parseProgressStore(await file.text(), locale));
+            saveProgressStore(merged); setProgressStore(merged); setProgressError(null);
+        } catch (error) {
+            setProgressError(error instanceof SyntaxError ? t('common.invalidJson', { file: file.name }) : (error as Error).message);
+        }
+    };
+    const handleJoinFile = async (file: File) => {
+        try { setSessionState({ session: parseClassSession(JSON.parse(await file.text()), locale), error: null }); }
+        catch (error) {
+            const message = error instanceof SyntaxError ? t('common.invalidJson', { file: file.name }) : error instanceof FormulaPackError ? `${error.message}: ${error.problems.join('; ')}` : (error as Error).message;
+            setSessionState({ session: null, error: message });
+        }
+    };
+    const handleLeaveSession = () => {
+        setSessionState({ session: null, error: null });
+        if (window.location.hash) history.replaceState(null, '', window.location.pathname + window.location.search);
+    };
+
+    const trimmedName = studentName.trim() || defaultStudentName;
+    const start = (mode: GameMode, limit: number | null) => { playClick(); onStart({ studentName: trimmedName, mode, interaction, timeLimitSeconds: limit, numericPhase, formulas }); };
+    const startSession = (joined: ClassSession) => { playClick(); onStart({ studentName: trimmedName, mode: 'classic', interaction, timeLimitSeconds: null, numericPhase, formulas: loadSessionFormulas(joined, locale), session: joined }); };
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-[80vh]">
+            <div className="w-full max-w-md p-8 bg-slate-800/50 rounded-2xl shadow-2xl border border-slate-700 backdrop-blur-sm">
+                <h1 className="text-4xl sm:text-5xl font-bold text-center text-cyan-400 mb-2 font-orbitron">{t('app.title')}</h1>
+                <p className="text-center text-slate-300 mb-8">{t('start.tagline')}</p>
+                <label className="flex items-center justify-center gap-3 mb-3 text-slate-300">
+                    {t('start.language')}
+                    <select value={locale} onChange={(e) => { if (isLocale(e.target.value)) setLocale(e.target.value); }} className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-100">
+                        {LOCALES.map(({ locale: value, name }) => <option key={value} value={value}>{name}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center justify-center gap-3 mb-6 text-slate-300">
+                    {t('start.name')}
+                    <input type="text" value={studentName} onChange={(e) => handleStudentNameChange(e.target.value)} maxLength={40} className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-100" />
+                </label>
+                <SessionJoinPanel session={session} error={sessionState.error} onJoinFile={handleJoinFile} onLeave={handleLeaveSession} />
+                <div className="text-center">
+                    {session ? (
+                    <button onClick={() => startSession(session)} className="w-full p-6 bg-slate-700 rounded-lg border-2 border-slate-600 hover:bg-cyan-600 hover:border-cyan-400 transition-all duration-300 text-left">
+                        <h3 className="text-xl font-bold font-orbitron text-yellow-300">{t('start.startSession')}</h3>
+                        <p className="text-slate-300 mt-2">{t('start.startSessionDescription', { count: session.problemCount })}</p>
+                    </button>
+                    ) : <>
+                    <h2 className="text-2xl text-slate-200 mb-6">{t('start.chooseMode')}</h2>
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <button onClick={() => start('classic', null)} disabled={formulas.length === 0} className="flex-1 p-6 bg-slate-700 rounded-lg border-2 border-slate-600 hover:bg-cyan-600 hover:border-cyan-400 transition-all duration-300 text-left disabled:opacity-50 disabled:cursor-not-allowed">
+                            <h3 className="text-xl font-bold font-orbitron text-yellow-300">{t('start.classic')}</h3>
+                            <p className="text-slate-300 mt-2">{t('start.classicDescription')}</p>
+                        </button>
+                        <button onClick={() => start('streak', timeLimitSeconds)} disabled={formulas.length === 0} className="flex-1 p-6 bg-slate-700 rounded-lg border-2 border-slate-600 hover:bg-orange-600 hover:border-orange-400 transition-all duration-300 text-left disabled:opacity-50 disabled:cursor-not-allowed">
+                            <h3 className="text-xl font-bold font-orbitron text-orange-400">{t('start.streak')}</h3>
+                            <p className="text-slate-300 mt-2">{t('start.streakDescription')}</p>
+                        </button>
+                    </div>
+                    </>}
+                    <div className="mt-6 flex items-center justify-center gap-3 text-slate-300" role="radiogroup" aria-label={t('start.interaction')}>
+                        {t('start.interaction')}
+                        {(['build', 'transform'] as InteractionMode[]).map(value => (
+                            <label key={value} className="flex items-center gap-1 cursor-pointer"><input type="radio" name="interaction" value={value} checked={interaction === value} onChange={() => setInteraction(value)} className="accent-cyan-500" />{t(`start.interaction.${value}`)}</label>
+                        ))}
+                    </div>
+                    <label className="mt-3 flex items-center justify-center gap-2 text-slate-300 cursor-pointer">
+                        <input type="checkbox" checked={numericPhase} onChange={(e) => setNumericPhase(e.target.checked)} className="accent-cyan-500" />
+                        {t('start.numericPhase')}
+                    </label>
+                    {!session && <>
+                    <label className="mt-3 flex items-center justify-center gap-3 text-slate-300">
+                        {t('start.timer')}
+                        <select value={timeLimitSeconds ?? ''} onChange={(e) => setTimeLimitSeconds(e.target.value ? Number(e.target.value) : null)} className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-100">
+                            {TIME_LIMIT_OPTIONS.map(option => <option key={option ?? 'none'} value={option ?? ''}>{option === null ? t('start.timerNone') : `${option} s`}</option>)}
+                        </select>
+                    </label>
+                    <label className="mt-3 flex items-center justify-center gap-3 text-slate-300">
+                        {t('start.maxDifficulty')}
+                        <select value={maxDifficulty} onChange={(e) => setMaxDifficulty(Number(e.target.value) as FormulaDifficulty)} className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-100">
+                            {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>{level} – {t(`difficulty.${level}`)}</option>)}
+                        </select>
+                    </label>
+                    <FormulaPackPicker packs={packs} selectedIds={selectedPackIds} onToggle={handleTogglePack} onAdd={handleAddPack} onRemove={handleRemovePack} error={packError} />
+                    </>}
+                    <div className="mt-8 text-left">
+                        <h2 className="text-xl text-slate-200 mb-3 text-center">{t('start.progressOf', { name: trimmedName })}</h2>
+                        <ProgressBar progress={getStudentProgress(progressStore, trimmedName)} formulas={formulas} detailed />
+                        <div className="mt-3 flex justify-center gap-4 text-cyan-400">
+                            <button onClick={handleExportProgress} className="hover:text-cyan-300">{t('start.export')}</button>
+                            <label className="hover:text-cyan-300 cursor-pointer">
+                                {t('start.import')}
+                                <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) handleImportProgress(file); e.target.value = ''; }} />
+                            </label>
+                        </div>
+                        {progressError && <p className="mt-2 text-sm text-red-300 text-center">{progressError}</p>}
+                    </div>
+                    <div className="mt-8 text-left">
+                        <AttemptList title={t('review.recent')} logs={attemptLogs.filter(log => log.studentName === trimmedName)} />
+                    </div>
+                </div>
+                <button onClick={() => { playClick(); onOpenTeacher(); }} className="mt-8 block mx-auto text-sm text-slate-400 hover:text-cyan-300">{t('start.teacherMode')}</button>
+            </div>
+        </div>
+    );
+};
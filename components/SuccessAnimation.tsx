@@ -0,0 +1,32 @@
+import React from 'react';
+import { usePreferences } from './PreferencesProvider';
+
+const SPARK_COUNT = 14;
+
+const SPARKS = Array.from({ length: SPARK_COUNT }, (_, index) => {
+    const angle = (index / SPARK_COUNT) * 2 * Math.PI, distance = 48 + (index % 3) * 14;
+    return { x: Math.round(Math.cos(angle) * distance), y: Math.round(Math.sin(angle) * distance), delayMs: (index % 4) * 40 };
+});
+
+// A check mark that pops in and draws itself, with a burst of sparks. With reduced motion the check mark is simply
+// shown; in high contrast it is drawn in yellow on black, with white and yellow sparks.
+export const SuccessAnimation: React.FC = () => {
+    const { preferences, reduceMotion } = usePreferences();
+    const colors = preferences.highContrast ? ['bg-white', 'bg-yellow-300'] : ['bg-green-400', 'bg-cyan-400', 'bg-yellow-300', 'bg-orange-400'];
+    const stroke = preferences.highContrast ? 'stroke-yellow-300' : 'stroke-green-400';
+    return (
+        <div className="relative mx-auto mb-2 w-24 h-24 flex items-center justify-center" aria-hidden="true">
+            {!reduceMotion && SPARKS.map((spark, index) => (
+                <span key={index} className={`success-spark absolute w-2.5 h-2.5 rounded-full ${colors[index % colors.length]}`}
+                    style={{ '--spark-x': `${spark.x}px`, '--spark-y': `${spark.y}px`, animationDelay: `${spark.delayMs}ms` } as React.CSSProperties} />
+            ))}
+            <svg viewBox="0 0 48 48" className={`w-20 h-20 ${reduceMotion ? '' : 'success-pop'}`}>
+                <circle cx="24" cy="24" r="21" fill="none" strokeWidth="3" className={stroke} />
+                <path d="M14 25 l7 7 l13 -15" fill="none" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round" className={`${stroke} ${reduceMotion ? '' : 'success-check'}`} />
+            </svg>
+            <style>{`@keyframes success-pop { 0% { transform: scale(0.3); opacity: 0; } 60% { transform: scale(1.15); opacity: 1; } 100% { transform: scale(1); opacity: 1; } } .success-pop { animation: success-pop 0.45s ease-out both; }
+@keyframes success-check { from { stroke-dashoffset: 40; } to { stroke-dashoffset: 0; } } .success-check { stroke-dasharray: 40; animation: success-check 0.35s 0.25s ease-out both; }
+@keyframes success-spark { from { transform: translate(0, 0) scale(1); opacity: 1; } to { transform: translate(var(--spark-x), var(--spark-y)) scale(0.3); opacity: 0; } } .success-spark { animation: success-spark 0.7s ease-out both; }`}</style>
+        </div>
+    );
+};
@@ -0,0 +1,225 @@
+import React, { useState, useMemo } from 'react';
+import { AttemptList } from './AttemptReview';
+import { FormulaRenderer } from './FormulaRenderer';
+import { useI18n } from './LocaleProvider';
+import { downloadFile } from '../lib/download';
+import { practiceTargets, loadAllFormulaPacks, loadStoredFormulaPacks } from '../lib/formulaPacks';
+import type { LoadedFormulaPack } from '../lib/formulaPacks';
+import { progressKey } from '../lib/progress';
+import { createClassSession, encodeSessionLink, parseSessionResult, loadStoredSessions, storeSessions, loadSessionResults, saveSessionResult, removeSessionResults, summarizeByStudent, summarizeByFormula, summarizeMisconceptions, sessionResultsToCsv } from '../lib/sessions';
+import type { SessionFormula, ClassSession, SessionResult, ResultSummary, MisconceptionSummary } from '../lib/sessions';
+import { misconceptionHint, misconceptionLabel } from '../lib/misconceptions';
+import { dateLocale } from '../lib/i18n';
+import { localizeFormula, localizeSymbol } from '../lib/quantitySymbols';
+import { playClick } from '../services/soundService';
+
+const SessionEditor: React.FC<{packs: LoadedFormulaPack[]; onCreate: (session: ClassSession) => void; onCancel: () => void}> = ({ packs, onCreate, onCancel }) => {
+    const { locale, t } = useI18n();
+    const [name, setName] = useState('');
+    const [problemCount, setProblemCount] = useState(10);
+    // Selected isolations, keyed by progressKey so the same formula in two packs is only offered once.
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const formulas = useMemo(() => {
+        const seen = new Set<string>();
+        return packs.flatMap(pack => pack.formulas).filter(f => !seen.has(f.formula) && !!seen.add(f.formula));
+    }, [packs]);
+    const toggle = (key: string) => setSelected(current => { const next = new Set(current); if (!next.delete(key)) next.add(key); return next; });
+    const handleCreate = () => {
+        const chosen: SessionFormula[] = formulas.flatMap(loaded => {
+            const targets = practiceTargets(loaded).filter(target => selected.has(progressKey(loaded.formula, target)));
+            const { formula, variables, topic, difficulty, units, answers } = loaded;
+            return targets.length ? [{ formula, variables, topic, difficulty, units, answers, targets }] : [];
+        });
+        playClick();
+        onCreate(createClassSession(name, chosen, problemCount));
+    };
+    return (
+        <div className="p-6 bg-slate-800/50 rounded-2xl border border-slate-700">
+            <h2 className="text-2xl font-bold font-orbitron text-cyan-400 mb-4">{t('editor.title')}</h2>
+            <div className="flex flex-wrap gap-6 mb-4 text-slate-300">
+                <label className="flex items-center gap-2">{t('editor.name')} <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} placeholder={t('editor.namePlaceholder')} className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-100" /></label>
+                <label className="flex items-center gap-2">{t('editor.problemCount')} <input type="number" min={1} max={50} value={problemCount} onChange={(e) => setProblemCount(Math.max(1, Math.min(50, Math.round(Number(e.target.value)) || 1)))} className="w-20 bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-slate-100" /></label>
+            </div>
+            <p className="text-slate-400 mb-2">{t('editor.chooseTargets')}</p>
+            <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                {formulas.map(formula => (
+                    <li key={formula.formula} className="flex items-center justify-between gap-4 bg-slate-900/50 rounded-md px-3 py-2">
+                        <div className="text-lg"><FormulaRenderer formula={localizeFormula(formula.formula, locale)} /></div>
+                        <div className="flex flex-wrap justify-end gap-3">
+                            {practiceTargets(formula).map(target => {
+                                const key = progressKey(formula.formula, target);
+                                return <label key={key} className="flex items-center gap-1 cursor-pointer"><input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} className="accent-cyan-500" />{localizeSymbol(target, formula.formula, locale)}</label>;
+                            })}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <div className="mt-4 flex justify-end gap-3">
+                <button onClick={onCancel} className="px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 font-bold">{t('editor.cancel')}</button>
+                <button onClick={handleCreate} disabled={selected.size === 0} className="px-4 py-2 rounded-lg bg-green-500 text-slate-900 font-bold hover:bg-green-400 disabled:bg-slate-600 disabled:cursor-not-allowed">{t('editor.create')}</button>
+            </div>
+        </div>
+    );
+};
+
+const ResultTable: React.FC<{title: string; rows: ResultSummary[]; renderLabel?: (label: string) => React.ReactNode}> = ({ title, rows, renderLabel = label => label }) => {
+    const { t } = useI18n();
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-left">
+                <caption className="text-lg font-bold text-cyan-400 text-left mb-2">{title}</caption>
+                <thead className="text-slate-400 text-sm"><tr><th className="py-1 pr-4"></th><th className="py-1 pr-4">{t('results.attempts')}</th><th className="py-1 pr-4">{t('results.correct')}</th><th className="py-1 pr-4">{t('results.score')}</th><th className="py-1">{t('results.averageTime')}</th></tr></thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.label} className="border-t border-slate-700">
+                            <td className="py-2 pr-4">{renderLabel(row.label)}</td>
+                            <td className="py-2 pr-4">{row.attempts}</td>
+                            <td className="py-2 pr-4">{row.correct}</td>
+                            <td className={`py-2 pr-4 font-bold ${!row.attempts ? 'text-slate-500' : row.correct / row.attempts >= 0.7 ? 'text-green-400' : row.correct / row.attempts >= 0.4 ? 'text-yellow-400' : 'text-red-400'}`}>{row.attempts ? `${Math.round((row.correct / row.attempts) * 100)}%` : '–'}</td>
+                            <td className="py-2">{row.attempts ? `${Math.round(row.averageTimeMs / 1000)} s` : '–'}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const MisconceptionTable: React.FC<{rows: MisconceptionSummary[]}> = ({ rows }) => {
+    const { locale, t } = useI18n();
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-left">
+                <caption className="text-lg font-bold text-cyan-400 text-left mb-2">{t('misconceptions.title')}</caption>
+                <thead className="text-slate-400 text-sm"><tr><th className="py-1 pr-4"></th><th className="py-1 pr-4">{t('misconceptions.count')}</th><th className="py-1">{t('misconceptions.students')}</th></tr></thead>
+                <tbody>
+                    {rows.map(row => (
+                        <tr key={row.misconception} className="border-t border-slate-700">
+                            <td className="py-2 pr-4" title={misconceptionHint(row.misconception, locale)}>{misconceptionLabel(row.misconception, locale)}</td>
+                            <td className="py-2 pr-4">{row.count}</td>
+                            <td className="py-2">{row.students}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const SessionDashboard: React.FC<{session: ClassSession; results: SessionResult[]; onImportResults: (files: File[]) => void; onDelete: () => void; importError: string | null}> = ({ session, results, onImportResults, onDelete, importError }) => {
+    const { locale, t } = useI18n();
+    const link = useMemo(() => encodeSessionLink(session), [session]);
+    const [copied, setCopied] = useState(false);
+    const handleCopy = async () => {
+        try { await navigator.clipboard.writeText(link); setCopied(true); setTimeout(() => setCopied(false), 2000); }
+        catch (e) { console.error("Link kon niet gekopieerd worden", e); }
+    };
+    const exportName = `sessie-${session.code}`;
+    return (
+        <div className="p-6 bg-slate-800/50 rounded-2xl border border-slate-700 space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold font-orbitron text-cyan-400">{session.name}</h2>
+                    <p className="text-slate-400">{t('dashboard.info', { count: session.problemCount, date: new Date(session.createdAt).toLocaleString(dateLocale(locale)) })}</p>
+                </div>
+                <div className="text-right">
+                    <p className="text-slate-400 text-sm">{t('dashboard.code')}</p>
+                    <p className="text-4xl font-mono font-bold tracking-widest text-yellow-300">{session.code}</p>
+                </div>
+            </div>
+            <div className="space-y-2">
+                <p className="text-slate-300">{t('dashboard.share')}</p>
+                <div className="flex gap-2">
+                    <input type="text" readOnly value={link} onFocus={(e) => e.target.select()} aria-label={t('dashboard.link')} className="flex-grow bg-slate-900 border border-slate-600 rounded-md px-2 py-1 font-mono text-sm text-slate-300" />
+                    <button onClick={handleCopy} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600">{t(copied ? 'dashboard.copied' : 'dashboard.copy')}</button>
+                    <button onClick={() => downloadFile(`${exportName}.json`, JSON.stringify(session, null, 2), 'application/json')} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600">{t('dashboard.sessionFile')}</button>
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
+                <label className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 cursor-pointer">
+                    {t('dashboard.loadResults')}
+                    <input type="file" multiple accept="application/json,.json" className="hidden" onChange={(e) => { const files = Array.from(e.target.files ?? []); if (files.length) onImportResults(files); e.target.value = ''; }} />
+                </label>
+                <button onClick={() => downloadFile(`${exportName}-resultaten.csv`, sessionResultsToCsv(session, results, locale), 'text/csv;charset=utf-8')} disabled={!results.length} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40">{t('dashboard.exportCsv')}</button>
+                <button onClick={() => downloadFile(`${exportName}-resultaten.json`, JSON.stringify({ session, results }, null, 2), 'application/json')} disabled={!results.length} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40">{t('dashboard.exportJson')}</button>
+                <button onClick={onDelete} className="ml-auto text-red-400 hover:text-red-300">{t('dashboard.delete')}</button>
+            </div>
+            {importError && <p className="text-sm text-red-300">{importError}</p>}
+            {results.length === 0 ? <p className="text-slate-400">{t('dashboard.noResults')}</p> : <>
+                <ResultTable title={t('dashboard.byStudent', { count: results.length })} rows={summarizeByStudent(results)} renderLabel={label => <>{label}{!results.find(r => r.studentName === label)?.finishedAt && <span className="ml-2 text-xs text-slate-500">{t('dashboard.inProgress')}</span>}</>} />
+                <ResultTable title={t('dashboard.byFormula')} rows={summarizeByFormula(session, results)} renderLabel={label => {
+                    const [formula, target] = label.split(' → ');
+                    const shownTarget = localizeSymbol(target, formula, locale);
+                    return <span className="flex items-center gap-2"><FormulaRenderer formula={localizeFormula(formula, locale)} highlight={shownTarget} /><span className="text-slate-400">→ {shownTarget}</span></span>;
+                }} />
+                {summarizeMisconceptions(results).length > 0 && <MisconceptionTable rows={summarizeMisconceptions(results)} />}
+                <AttemptList title={t('dashboard.attempts')} logs={results.flatMap(r => r.attempts.flatMap(a => a.log ? [a.log] : []))} showStudent />
+            </>}
+        </div>
+    );
+};
+
+export const TeacherScreen: React.FC<{onExit: () => void}> = ({ onExit }) => {
+    const { locale, t } = useI18n();
+    const packs = useMemo(() => loadAllFormulaPacks(loadStoredFormulaPacks()), []);
+    const [sessions, setSessions] = useState<ClassSession[]>(loadStoredSessions);
+    const [results, setResults] = useState<SessionResult[]>(loadSessionResults);
+    const [selectedCode, setSelectedCode] = useState<string | null>(() => loadStoredSessions().at(-1)?.code ?? null);
+    const [isCreating, setIsCreating] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const selected = sessions.find(s => s.code === selectedCode) ?? null;
+
+    const updateSessions = (next: ClassSession[]) => { setSessions(next); storeSessions(next); };
+    const handleCreate = (session: ClassSession) => { updateSessions([...sessions, session]); setSelectedCode(session.code); setIsCreating(false); };
+    const handleDelete = (code: string) => {
+        if (!window.confirm(t('teacher.confirmDelete'))) return;
+        updateSessions(sessions.filter(s => s.code !== code));
+        removeSessionResults(code); setResults(loadSessionResults());
+        setSelectedCode(null);
+    };
+    const handleImportResults = async (files: File[]) => {
+        const errors: string[] = [];
+        for (const file of files) {
+            try {
+                const result = parseSessionResult(JSON.parse(await file.text()), locale);
+                if (result.sessionCode !== selectedCode) throw new Error(t('teacher.wrongSession', { file: file.name, code: result.sessionCode, selected: selectedCode ?? '' }));
+                saveSessionResult(result);
+            } catch (error) {
+                errors.push(error instanceof SyntaxError ? t('common.invalidJson', { file: file.name }) : (error as Error).message);
+            }
+        }
+        setResults(loadSessionResults());
+        setImportError(errors.length ? errors.join(' · ') : null);
+    };
+
+    return (
+        <div className="space-y-6">
+            <header className="flex items-center justify-between">
+                <h1 className="text-3xl font-bold font-orbitron text-cyan-400">{t('teacher.title')}</h1>
+                <button onClick={onExit} className="px-4 py-2 rounded-lg bg-slate-600 hover:bg-slate-500 font-bold">{t('common.backToMenu')}</button>
+            </header>
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                <nav className="p-4 bg-slate-800/50 rounded-2xl border border-slate-700" aria-label={t('teacher.sessions')}>
+                    <button onClick={() => setIsCreating(true)} className="w-full mb-4 px-4 py-2 rounded-lg bg-cyan-500 text-slate-900 font-bold hover:bg-cyan-400">{t('teacher.newSession')}</button>
+                    {sessions.length === 0 && <p className="text-slate-400 text-sm">{t('teacher.noSessions')}</p>}
+                    <ul className="space-y-1">
+                        {[...sessions].reverse().map(session => (
+                            <li key={session.code}>
+                                <button onClick={() => { setSelectedCode(session.code); setIsCreating(false); setImportError(null); }} aria-current={session.code === selectedCode && !isCreating}
+                                    className={`w-full text-left px-3 py-2 rounded-md ${session.code === selectedCode && !isCreating ? 'bg-slate-700' : 'hover:bg-slate-700/50'}`}>
+                                    <span className="block font-bold">{session.name}</span>
+                                    <span className="text-sm text-slate-400 font-mono">{session.code}</span> <span className="text-sm text-slate-500">· {t('teacher.studentCount', { count: results.filter(r => r.sessionCode === session.code).length })}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </nav>
+                <div className="lg:col-span-3">
+                    {isCreating ? <SessionEditor packs={packs} onCreate={handleCreate} onCancel={() => setIsCreating(false)} />
+                        : selected ? <SessionDashboard session={selected} results={results.filter(r => r.sessionCode === selected.code)} onImportResults={handleImportResults} onDelete={() => handleDelete(selected.code)} importError={importError} />
+                        : <p className="text-slate-400 p-6">{t('teacher.createToStart')}</p>}
+                </div>
+            </div>
+        </div>
+    );
+};
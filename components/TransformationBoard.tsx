@@ -0,0 +1,77 @@
+import React, { useState, useMemo } from 'react';
+import type { Problem, EquationSide } from '../types';
+import { DropZone } from './DropZone';
+import { FormulaRenderer } from './FormulaRenderer';
+import { useI18n } from './LocaleProvider';
+import type { AttemptEventKind } from '../lib/attemptLog';
+import type { EquationSnapshot } from '../lib/equationHistory';
+import { serializeSide, isSideSubmittable, equationToSides } from '../lib/equationTree';
+import { formatExpression, describeStep } from '../lib/formulaPacks';
+import type { DerivationStep } from '../lib/formulaPacks';
+import { parseExpression, ExpressionParseError } from '../lib/symbolic';
+import type { Expr } from '../lib/symbolic';
+import { TRANSFORMATIONS, transformationAction, isIsolated, judgeTransformation } from '../lib/transformations';
+import type { TransformationKind } from '../lib/transformations';
+import { playDrop, playReset } from '../services/soundService';
+
+// Every applied, refused or undone step is reported through onStep, before onSolved or onWrongStep, so the attempt log holds them all.
+export const TransformationBoard: React.FC<{problem: Problem; onStep: (kind: AttemptEventKind, sides: EquationSnapshot) => void; onSolved: (steps: DerivationStep[], mistakes: number) => void; onWrongStep: (step: string, message: string) => void}> = ({ problem, onStep, onSolved, onWrongStep }) => {
+    const { locale, t } = useI18n();
+    const emptySide: EquationSide = useMemo(() => ({ items: [] }), []);
+    const [steps, setSteps] = useState<DerivationStep[]>([{ action: { kind: 'start' }, equation: problem.originalFormula }]);
+    const [operand, setOperand] = useState<EquationSide>(emptySide);
+    const [feedback, setFeedback] = useState<string | null>(null);
+    const [mistakes, setMistakes] = useState(0);
+    const equation = steps[steps.length - 1].equation;
+    const sides = useMemo(() => equationToSides(equation), [equation]);
+    const isSolved = isIsolated(equation, problem.targetVariable);
+
+    const handleApply = (kind: TransformationKind, needsOperand: boolean) => {
+        let operandExpr: Expr | null = null;
+        if (needsOperand) {
+            try { operandExpr = parseExpression(serializeSide(operand)); }
+            catch (error) { setFeedback(t('board.operandUnreadable', { message: error instanceof ExpressionParseError ? error.localize(locale) : (error as Error).message })); return; }
+        }
+        const action = transformationAction(kind, operandExpr ? formatExpression(operandExpr, problem.symbols) : '');
+        const verdict = judgeTransformation(equation, kind, operandExpr, problem.targetVariable, problem.symbols, locale);
+        if (!verdict.ok) {
+            setFeedback(verdict.message ?? null); setMistakes(m => m + 1);
+            onStep('reject', sides);
+            onWrongStep(describeStep(action, locale), verdict.message ?? '');
+            return;
+        }
+        playDrop();
+        const nextSteps = [...steps, { action, equation: verdict.equation }];
+        setSteps(nextSteps); setFeedback(null); setOperand(emptySide);
+        onStep('transform', equationToSides(verdict.equation));
+        if (isIsolated(verdict.equation, problem.targetVariable)) onSolved(nextSteps, mistakes);
+    };
+    const handleUndo = () => { playReset(); setSteps(s => s.slice(0, -1)); setFeedback(null); onStep('undo', equationToSides(steps[steps.length - 2].equation)); };
+
+    return (
+        <div className="flex-grow flex flex-col gap-4">
+            <div className="flex items-center justify-center gap-4 flex-col md:flex-row">
+                <div className="w-full md:w-2/5"><DropZone side={sides.left} onSideChange={() => {}} readOnly label={t('common.leftSide')} /></div>
+                <div className="text-5xl font-bold text-slate-400">=</div>
+                <div className="w-full md:w-3/5"><DropZone side={sides.right} onSideChange={() => {}} readOnly label={t('common.rightSide')} /></div>
+            </div>
+            {feedback && <p className="text-center text-red-300 bg-red-950/50 border border-red-700 rounded-lg p-2" role="alert">{feedback}</p>}
+            <div className="flex flex-col md:flex-row items-center gap-4">
+                <div className="flex items-center gap-2 w-full md:w-1/2"><span className="text-2xl font-bold font-orbitron text-slate-300">X =</span><div className="flex-grow min-h-[96px]"><DropZone side={operand} onSideChange={setOperand} label={t('board.operand')} /></div></div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 w-full md:w-1/2">
+                    {TRANSFORMATIONS.map(({ kind, needsOperand }) => (
+                        <button key={kind} onClick={() => handleApply(kind, needsOperand)} disabled={isSolved || (needsOperand && !isSideSubmittable(operand))} className="px-3 py-2 bg-slate-700 rounded-lg font-bold hover:bg-cyan-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors">{t(`transformation.${kind}`)}</button>
+                    ))}
+                </div>
+            </div>
+            <div className="bg-slate-900/50 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-2"><h3 className="font-bold text-cyan-400">{t('board.yourSteps')}</h3><button onClick={handleUndo} disabled={steps.length === 1 || isSolved} className="text-sm text-slate-300 hover:text-cyan-300 disabled:opacity-40 disabled:cursor-not-allowed">{t('board.stepBack')}</button></div>
+                <ol className="space-y-1 max-h-40 overflow-y-auto">
+                    {steps.map((step, index) => (
+                        <li key={index} className="flex items-center justify-between gap-4 text-sm"><span className="text-slate-400">{index === 0 ? describeStep(step.action, locale) : `${index}. ${describeStep(step.action, locale)}`}</span><span className="text-base"><FormulaRenderer formula={step.equation} highlight={problem.targetVariable} /></span></li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    );
+};
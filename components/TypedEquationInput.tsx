@@ -0,0 +1,28 @@
+import React from 'react';
+import { FormulaRenderer } from './FormulaRenderer';
+import { useI18n } from './LocaleProvider';
+import { localizeFormula } from '../lib/quantitySymbols';
+
+export interface TypedInputError { message: string; position: number; }
+
+export const TypedEquationInput: React.FC<{value: string; error: TypedInputError | null; preview: string; highlight: string; onChange: (value: string) => void; onSubmit: () => void}> = ({ value, error, preview, highlight, onChange, onSubmit }) => {
+    const { locale, t, rich } = useI18n();
+    const examples = { example1: <code className="text-cyan-300">{localizeFormula('h = Epot / (m*g)', locale)}</code>, example2: <code className="text-cyan-300">c = sqrt(E/m)</code> };
+    return (
+        <div className="flex flex-col gap-3 w-full">
+            <label htmlFor="typed-equation" className="text-slate-300">{rich('typed.label', examples)}</label>
+            <input id="typed-equation" type="text" value={value} onChange={(e) => onChange(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); onSubmit(); } }}
+                autoComplete="off" autoCapitalize="off" spellCheck={false} aria-invalid={!!error} aria-describedby="typed-equation-feedback"
+                className={`w-full bg-slate-900 border-2 rounded-lg px-4 py-3 font-mono text-2xl focus:outline-none ${error ? 'border-red-500' : 'border-slate-600 focus:border-cyan-400'}`} />
+            <div id="typed-equation-feedback" aria-live="polite">
+                {error ? (
+                    <div className="font-mono text-red-300">
+                        {/* The caret line lines up with the input text because both use a monospace font. */}
+                        <pre className="text-xl whitespace-pre overflow-x-auto" aria-hidden="true">{value}{'\n'}{' '.repeat(error.position)}^</pre>
+                        <p className="font-sans">{t('typed.errorAt', { position: error.position + 1, message: error.message })}</p>
+                    </div>
+                ) : preview && <div className="text-3xl flex justify-center items-center min-h-[4rem] bg-slate-900/70 rounded-xl p-3"><FormulaRenderer formula={preview} highlight={highlight} /></div>}
+            </div>
+        </div>
+        );
+};
@@ -0,0 +1,34 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Problem } from '../types';
+import { FormulaRenderer } from './FormulaRenderer';
+import { useI18n } from './LocaleProvider';
+import { deriveIsolation, describeStep } from '../lib/formulaPacks';
+
+export const WorkedSolution: React.FC<{problem: Problem}> = ({ problem }) => {
+    const { locale, t } = useI18n();
+    const steps = useMemo(() => {
+        try { return deriveIsolation(problem.originalFormula, problem.targetVariable, problem.symbols); }
+        catch { return null; }
+    }, [problem]);
+    const [stepIndex, setStepIndex] = useState(0);
+    useEffect(() => setStepIndex(0), [steps]);
+
+    if (!steps) return <div className="text-xl text-center flex justify-center items-center"><FormulaRenderer formula={problem.correctAnswer} /></div>;
+    return (
+        <div>
+            <ol className="space-y-2">
+                {steps.slice(0, stepIndex + 1).map((step, index) => (
+                    <li key={index} className={`flex flex-col items-center rounded-md p-2 transition-opacity ${index === stepIndex ? 'bg-slate-800' : 'opacity-50'}`}>
+                        <span className="text-sm text-slate-400">{index === 0 ? describeStep(step.action, locale) : t('solution.step', { n: index, description: describeStep(step.action, locale) })}</span>
+                        <div className="text-xl flex justify-center items-center"><FormulaRenderer formula={step.equation} highlight={problem.targetVariable} /></div>
+                    </li>
+                ))}
+            </ol>
+            <div className="mt-3 flex items-center justify-center gap-4">
+                <button onClick={() => setStepIndex(i => Math.max(0, i - 1))} disabled={stepIndex === 0} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed">{t('solution.previous')}</button>
+                <span className="text-sm text-slate-400">{stepIndex} / {steps.length - 1}</span>
+                <button onClick={() => setStepIndex(i => Math.min(steps.length - 1, i + 1))} disabled={stepIndex === steps.length - 1} className="px-3 py-1 rounded-md bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed">{t('solution.next')}</button>
+            </div>
+        </div>
+    );
+};
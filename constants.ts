@@ -0,0 +1,59 @@
+import type { FormulaPack, FormulaDifficulty } from './lib/formulaPacks';
+
+export const STANDARD_SYMBOLS = ['+', '-', '*', '(', ')', '__square__', '__sqrt__', '__fraction__', '__power__', '__root__'];
+
+export const BUILT_IN_FORMULA_PACKS: FormulaPack[] = [
+    {
+        id: 'mechanica', name: 'Mechanica',
+        formulas: [
+            { formula: 'θ = s / r', variables: ['θ', 's', 'r'], topic: 'Cirkelbeweging', difficulty: 1, units: { θ: 'rad', s: 'm', r: 'm' } },
+            { formula: 'a = r * α', variables: ['a', 'r', 'α'], topic: 'Cirkelbeweging', difficulty: 1, units: { a: 'm/s²', r: 'm', α: 'rad/s²' } },
+            { formula: 'v = Δx / Δt', variables: ['v', 'Δx', 'Δt'], topic: 'Kinematica', difficulty: 1, units: { v: 'm/s', Δx: 'm', Δt: 's' } },
+            { formula: 'Fz = m * g', variables: ['Fz', 'm', 'g'], topic: 'Krachten', difficulty: 1, units: { Fz: 'N', m: 'kg', g: 'N/kg' } },
+            { formula: 'p = F / A', variables: ['p', 'F', 'A'], topic: 'Druk', difficulty: 1, units: { p: 'Pa', F: 'N', A: 'm²' } },
+            { formula: 'ρ = m / v', variables: ['ρ', 'm', 'v'], topic: 'Massadichtheid', difficulty: 1, units: { ρ: 'kg/m³', m: 'kg', v: 'm³' } },
+            { formula: 'phydro = ρ*g*h', variables: ['phydro', 'ρ', 'g', 'h'], topic: 'Druk', difficulty: 2, units: { phydro: 'Pa', ρ: 'kg/m³', g: 'N/kg', h: 'm' } },
+            { formula: 'Epot = m*g*h', variables: ['Epot', 'm', 'g', 'h'], topic: 'Energie', difficulty: 2, units: { Epot: 'J', m: 'kg', g: 'N/kg', h: 'm' } },
+            { formula: 'v = v0 + a*t', variables: ['v', 'v0', 'a', 't'], topic: 'Kinematica', difficulty: 2, units: { v: 'm/s', v0: 'm/s', a: 'm/s²', t: 's' } },
+            { formula: 'Ek = ½*m*v^2', variables: ['Ek', 'm', 'v'], topic: 'Energie', difficulty: 2, units: { Ek: 'J', m: 'kg', v: 'm/s' } },
+            {
+                formula: 's = v0*t + ½*a*t^2', variables: ['s', 'v0', 'a', 't'], topic: 'Kinematica', difficulty: 3, units: { s: 'm', v0: 'm/s', a: 'm/s²', t: 's' },
+                // t occurs twice (a quadratic equation), so only v0 and a are asked for.
+                targets: ['v0', 'a'], answers: { a: 'a = 2 * (s - v0 * t) / t^2' },
+            },
+            { formula: 'T = 2π*sqrt(l/g)', variables: ['T', 'l', 'g'], topic: 'Trillingen', difficulty: 3, units: { T: 's', l: 'm', g: 'm/s²' } },
+        ],
+    },
+    {
+        id: 'elektriciteit', name: 'Elektriciteit',
+        formulas: [
+            { formula: 'R = U / I', variables: ['R', 'U', 'I'], topic: 'Weerstand', difficulty: 1, units: { R: 'Ω', U: 'V', I: 'A' } },
+            { formula: 'P = U^2/R', variables: ['P', 'U', 'R'], topic: 'Vermogen', difficulty: 2, units: { P: 'W', U: 'V', R: 'Ω' } },
+        ],
+    },
+    {
+        id: 'thermodynamica', name: 'Warmte en energie',
+        formulas: [
+            { formula: 'Q = m*c*ΔT', variables: ['Q', 'm', 'c', 'ΔT'], topic: 'Warmte', difficulty: 2, units: { Q: 'J', m: 'kg', c: 'J/(kg·K)', ΔT: 'K' } },
+            { formula: 'E = m * c^2', variables: ['E', 'm', 'c'], topic: 'Energie', difficulty: 3, units: { E: 'J', m: 'kg', c: 'm/s' } },
+        ],
+    },
+    {
+        id: 'optica', name: 'Optica',
+        formulas: [
+            { formula: '1/f = 1/v + 1/b', variables: ['f', 'v', 'b'], topic: 'Lenzen', difficulty: 3, units: { f: 'm', v: 'm', b: 'm' } },
+        ],
+    },
+];
+
+// Leitner boxes: a correct answer moves an isolation one box up, a wrong answer sends it back to box 0.
+// Each box has a waiting time before the isolation is due again.
+export const REVIEW_INTERVALS_MS = [0, 5 * 60_000, 24 * 3_600_000, 3 * 24 * 3_600_000, 7 * 24 * 3_600_000, 14 * 24 * 3_600_000];
+
+export const MASTERED_BOX = 3;
+
+export const TIME_LIMIT_OPTIONS: (number | null)[] = [null, 30, 60, 90];
+
+// Practice runs up to a chosen level: level 2 adds sums and squares, level 3 constants, roots and reciprocals.
+// Their names are the catalog keys `difficulty.<level>`.
+export const DIFFICULTY_LEVELS: FormulaDifficulty[] = [1, 2, 3];
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { DraggableItem, EquationSide } from '../types';
+import { classifyChange, logChange, parseAttemptLog, startAttemptLog, submitAttempt } from './attemptLog';
+import { equationToSides, serializeSide } from './equationTree';
+
+const sym = (content: string): DraggableItem => ({ id: content, type: 'symbol', content });
+const side = (...items: DraggableItem[]): EquationSide => ({ items });
+const empty = side();
+const Fz = sym('Fz'), m = sym('m'), g = sym('g'), times = sym('*');
+
+describe('classifyChange', () => {
+    it('tells drops, moves and removals apart', () => {
+        const before = { left: side(Fz), right: side(m, times) };
+        expect(classifyChange(before, { left: side(Fz), right: side(m, times, g) })).toBe('drop');
+        expect(classifyChange(before, { left: side(Fz, m), right: side(times) })).toBe('move');
+        expect(classifyChange(before, { left: side(Fz), right: side(times, m) })).toBe('move');
+        expect(classifyChange(before, { left: side(Fz), right: side(m) })).toBe('remove');
+    });
+
+    it('recognizes regrouping, swapping and clearing the board', () => {
+        const left = side(m), right = side(Fz, sym('/'), g);
+        const fraction: DraggableItem = { id: 'fraction', type: 'fraction', numerator: side(Fz), denominator: side(g) };
+        expect(classifyChange({ left, right }, { left, right: side(fraction) })).toBe('edit');
+        expect(classifyChange({ left, right }, { left: right, right: left })).toBe('swap');
+        expect(classifyChange({ left, right }, { left: empty, right: empty })).toBe('reset');
+        expect(classifyChange({ left, right: empty }, { left: empty, right: empty })).toBe('remove');
+    });
+});
+
+describe('attempt log', () => {
+    it('records every change with its time and the verdict', () => {
+        let log = startAttemptLog('Ada', 'Fz = m*g', 'm', { left: empty, right: empty }, 1000);
+        log = logChange(log, { left: side(m), right: empty }, null, 2500);
+        log = logChange(log, { left: side(m), right: side(Fz) }, 'type', 4000);
+        log = logChange(log, { left: side(m), right: side(Fz, sym('/'), g) }, 'type', 6000, true);
+        log = submitAttempt(log, { answer: 'm = Fz / g', isCorrect: true, explanation: 'Correct!', hintSource: 'local', misconception: null }, 7000);
+        expect(log.events.map(({ kind, atMs }) => [kind, atMs])).toEqual([['drop', 1500], ['type', 5000]]);
+        expect(log.submission).toMatchObject({ answer: 'm = Fz / g', durationMs: 6000 });
+        expect(parseAttemptLog(JSON.parse(JSON.stringify(log)))).toEqual(log);
+    });
+
+    it('keeps the applied and refused steps of the stepwise board', () => {
+        let log = startAttemptLog('Ada', 'Fz = m*g', 'm', equationToSides('Fz = m * g'), 1000);
+        log = logChange(log, equationToSides('Fz = m * g'), 'reject', 3000);
+        log = logChange(log, equationToSides('Fz / g = m'), 'transform', 5000);
+        log = submitAttempt(log, { answer: 'Fz / g = m', isCorrect: false, explanation: '', hintSource: 'local', misconception: null }, 5000);
+        expect(log.events.map(({ kind, right }) => [kind, serializeSide(right)])).toEqual([['reject', 'm * g'], ['transform', 'm']]);
+        expect(parseAttemptLog(JSON.parse(JSON.stringify(log)))).toEqual(log);
+    });
+
+    it('rejects damaged logs', () => {
+        const log = startAttemptLog('Ada', 'Fz = m*g', 'm', { left: empty, right: empty });
+        expect(() => parseAttemptLog({ ...log, events: [{ kind: 'drop', atMs: 10, left: { items: [{ id: 'x', type: 'magic' }] }, right: empty }] })).toThrow();
+        expect(() => parseAttemptLog({ ...log, submission: { answer: 'm = Fz', isCorrect: 'ja' } })).toThrow();
+    });
+});
@@ -0,0 +1,127 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EquationSide } from '../types';
+import type { EquationSnapshot } from './equationHistory';
+import { structureParts } from './equationTree';
+import { isOneOf, isRecord } from './guards';
+import { MISCONCEPTIONS } from './misconceptions';
+import type { Misconception } from './misconceptions';
+
+// Drop also covers symbols inserted from the keyboard or the palette; edit covers changes that add or remove items
+// and regroup others at once, such as wrapping a selection in a fraction. Transform and reject are the applied and
+// refused steps of the stepwise board; a refused step leaves the equation as it was.
+export type AttemptEventKind = 'drop' | 'move' | 'remove' | 'edit' | 'swap' | 'reset' | 'type' | 'undo' | 'redo' | 'transform' | 'reject';
+
+// One change to the equation, with both sides as they were after it.
+export interface AttemptEvent extends EquationSnapshot {
+  kind: AttemptEventKind;
+  // Counted from the start of the attempt.
+  atMs: number;
+}
+
+export interface AttemptSubmission {
+  // Null when the time ran out before the student submitted.
+  answer: string | null;
+  isCorrect: boolean;
+  explanation: string;
+  hintSource: 'ai' | 'local';
+  misconception: Misconception | null;
+  durationMs: number;
+}
+
+// Everything the student did from the moment a problem was shown, or retried, until the answer was judged.
+export interface AttemptLog {
+  id: string;
+  studentName: string;
+  formula: string;
+  targetVariable: string;
+  startedAt: number;
+  // The board at the start: empty for a new problem, the previous answer after a retry.
+  start: EquationSnapshot;
+  events: AttemptEvent[];
+  submission: AttemptSubmission | null;
+}
+
+const ATTEMPT_LOGS_STORAGE_KEY = 'formule-flipper.attemptLogs';
+
+// Every event holds both sides, so only the most recent attempts are kept on the device.
+const MAX_STORED_ATTEMPT_LOGS = 50;
+
+export const startAttemptLog = (studentName: string, formula: string, targetVariable: string, start: EquationSnapshot, now = Date.now()): AttemptLog => ({
+    id: uuidv4(), studentName, formula, targetVariable, startedAt: now, start, events: [], submission: null,
+});
+
+// Where every item sits: the side or the box of a structure that holds it.
+const itemParents = ({ left, right }: EquationSnapshot): Map<string, string> => {
+    const parents = new Map<string, string>();
+    const visit = (side: EquationSide, parent: string) => side.items.forEach(item => {
+        parents.set(item.id, parent);
+        structureParts(item).forEach(([part, inner]) => visit(inner, `${item.id}.${part}`));
+    });
+    visit(left, 'left'); visit(right, 'right');
+    return parents;
+};
+
+// Tells from the two boards what the student did. The editor removes one item at a time, so a board that is emptied
+// at once was reset. Undo, redo and typing can't be told apart from other changes this way; the caller names those.
+export const classifyChange = (before: EquationSnapshot, after: EquationSnapshot): AttemptEventKind => {
+    const count = ({ left, right }: EquationSnapshot) => left.items.length + right.items.length;
+    if (count(after) === 0 && count(before) > 1) return 'reset';
+    if (after.left === before.right && after.right === before.left) return 'swap';
+    const previous = itemParents(before), next = itemParents(after);
+    const added = [...next.keys()].some(id => !previous.has(id));
+    const removed = [...previous.keys()].some(id => !next.has(id));
+    const regrouped = [...next].some(([id, parent]) => previous.has(id) && previous.get(id) !== parent);
+    if (added && !removed && !regrouped) return 'drop';
+    if (removed && !added && !regrouped) return 'remove';
+    return added || removed ? 'edit' : 'move';
+};
+
+// A change that continues the last one, such as the next keystroke while typing, replaces the last event.
+export const logChange = (log: AttemptLog, after: EquationSnapshot, kind: AttemptEventKind | null, now = Date.now(), continuesLast = false): AttemptLog => {
+    const events = continuesLast ? log.events.slice(0, -1) : log.events;
+    const before = events.at(-1) ?? log.start;
+    return { ...log, events: [...events, { kind: kind ?? classifyChange(before, after), atMs: now - log.startedAt, left: after.left, right: after.right }] };
+};
+
+export const submitAttempt = (log: AttemptLog, submission: Omit<AttemptSubmission, 'durationMs'>, now = Date.now()): AttemptLog =>
+    ({ ...log, submission: { ...submission, durationMs: now - log.startedAt } });
+
+const isEquationSide = (raw: unknown): raw is EquationSide => isRecord(raw) && Array.isArray(raw.items) && raw.items.every((item: unknown) => {
+    if (!isRecord(item) || typeof item.id !== 'string') return false;
+    switch (item.type) {
+        case 'symbol': return typeof item.content === 'string';
+        case 'sqrt': return isEquationSide(item.content);
+        case 'fraction': return isEquationSide(item.numerator) && isEquationSide(item.denominator);
+        case 'power': return isEquationSide(item.exponent);
+        case 'root': return isEquationSide(item.index) && isEquationSide(item.content);
+        default: return false;
+    }
+});
+
+const EVENT_KINDS: AttemptEventKind[] = ['drop', 'move', 'remove', 'edit', 'swap', 'reset', 'type', 'undo', 'redo', 'transform', 'reject'];
+
+const isAttemptEvent = (raw: unknown): raw is AttemptEvent => isRecord(raw) && isOneOf(EVENT_KINDS, raw.kind) && Number.isFinite(raw.atMs) && isEquationSide(raw.left) && isEquationSide(raw.right);
+
+const isSubmission = (raw: unknown): raw is AttemptSubmission => isRecord(raw) && typeof raw.isCorrect === 'boolean' && (raw.answer === null || typeof raw.answer === 'string')
+    && typeof raw.explanation === 'string' && isOneOf(['ai', 'local'], raw.hintSource) && (raw.misconception === null || isOneOf(MISCONCEPTIONS, raw.misconception)) && Number.isFinite(raw.durationMs);
+
+export const parseAttemptLog = (raw: unknown): AttemptLog => {
+    if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.studentName !== 'string' || typeof raw.formula !== 'string' || typeof raw.targetVariable !== 'string' || !Number.isFinite(raw.startedAt)
+        || !isRecord(raw.start) || !isEquationSide(raw.start.left) || !isEquationSide(raw.start.right) || !Array.isArray(raw.events) || !raw.events.every(isAttemptEvent)
+        || (raw.submission !== null && !isSubmission(raw.submission))) {
+        throw new Error('Deze poging is beschadigd');
+    }
+    return raw as unknown as AttemptLog;
+};
+
+export const loadAttemptLogs = (): AttemptLog[] => {
+    try {
+        const raw = JSON.parse(localStorage.getItem(ATTEMPT_LOGS_STORAGE_KEY) || '[]');
+        return Array.isArray(raw) ? raw.flatMap(l => { try { return [parseAttemptLog(l)]; } catch { return []; } }) : [];
+    } catch (e) { console.error("Pogingen konden niet geladen worden", e); return []; }
+};
+
+export const saveAttemptLog = (log: AttemptLog) => {
+    try { localStorage.setItem(ATTEMPT_LOGS_STORAGE_KEY, JSON.stringify([...loadAttemptLogs().filter(l => l.id !== log.id), log].slice(-MAX_STORED_ATTEMPT_LOGS))); }
+    catch (e) { console.error("Poging kon niet opgeslagen worden", e); }
+};
@@ -0,0 +1,8 @@
+export const downloadFile = (fileName: string, content: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url; link.download = fileName; link.click();
+    URL.revokeObjectURL(url);
+};
+
+export const safeFileName = (name: string) => name.trim().replace(/[^\p{L}\p{N}_-]+/gu, '-') || 'leerling';
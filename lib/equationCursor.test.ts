@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { DraggableItem, EquationSide } from '../types';
+import { duplicateSelection, selectionAt, unwrapAtCursor, wrapSelection } from './equationCursor';
+import { serializeSide } from './equationTree';
+
+const sym = (content: string): DraggableItem => ({ id: content, type: 'symbol', content });
+const side = (...items: DraggableItem[]): EquationSide => ({ items });
+const product = side(sym('m'), sym('*'), sym('g'));
+
+describe('selectionAt', () => {
+    it('selects between the anchor and the cursor, or else the item before the cursor', () => {
+        expect(selectionAt(product, { path: ['items'], index: 1 }, 3)).toEqual({ path: ['items'], start: 1, end: 3 });
+        expect(selectionAt(product, { path: ['items'], index: 2 }, null)).toEqual({ path: ['items'], start: 1, end: 2 });
+        expect(selectionAt(product, { path: ['items'], index: 0 }, null)).toBeNull();
+    });
+});
+
+describe('editing helpers', () => {
+    it('duplicates the selection with fresh ids', () => {
+        const { side: next, cursor } = duplicateSelection(product, { path: ['items'], start: 2, end: 3 });
+        expect(serializeSide(next)).toBe('m * g g');
+        expect(next.items[3].id).not.toBe('g');
+        expect(cursor).toEqual({ path: ['items'], index: 4 });
+    });
+
+    it('wraps the selection in a fraction and moves the cursor to the denominator', () => {
+        const { side: next, cursor } = wrapSelection(product, { path: ['items'], start: 0, end: 3 }, '__fraction__');
+        expect(serializeSide(next)).toBe('(m * g)/');
+        expect(cursor).toEqual({ path: ['items', 0, 'denominator', 'items'], index: 0 });
+    });
+
+    it('wraps the selection in a square root', () => {
+        expect(serializeSide(wrapSelection(product, { path: ['items'], start: 2, end: 3 }, '__sqrt__').side)).toBe('m * sqrt(g)');
+    });
+
+    it('unwraps the structure before the cursor or around it', () => {
+        const wrapped = wrapSelection(product, { path: ['items'], start: 2, end: 3 }, '__sqrt__').side;
+        expect(serializeSide(unwrapAtCursor(wrapped, { path: ['items'], index: 3 }).side)).toBe('m * g');
+        const inside = unwrapAtCursor(wrapped, { path: ['items', 2, 'content', 'items'], index: 0 });
+        expect(serializeSide(inside.side)).toBe('m * g');
+        expect(inside.cursor).toEqual({ path: ['items'], index: 3 });
+        expect(unwrapAtCursor(product, { path: ['items'], index: 3 }).side).toBe(product);
+    });
+});
@@ -0,0 +1,168 @@
+import { produce } from 'immer';
+import { v4 as uuidv4 } from 'uuid';
+import type { DraggableItem, EquationSide } from '../types';
+import { getNested, createItemForSymbol, structureParts, cloneItem } from './equationTree';
+
+// A keyboard cursor sits between two items of one container. `path` uses the same addressing as the
+// drop zones: ['items'] for the top level, ['items', 0, 'numerator', 'items'] for a nested container.
+export interface EquationCursor {
+  path: (string | number)[];
+  index: number;
+}
+
+// The items from `start` up to, but not including, `end` of one container.
+export interface EquationSelection {
+  path: (string | number)[];
+  start: number;
+  end: number;
+}
+
+export type EditResult = { side: EquationSide; cursor: EquationCursor };
+
+export const ROOT_CURSOR: EquationCursor = { path: ['items'], index: 0 };
+
+export const clampCursor = (side: EquationSide, cursor: EquationCursor): EquationCursor => {
+    const container = getNested(side, cursor.path);
+    if (!Array.isArray(container)) return { path: ['items'], index: side.items.length };
+    return { path: cursor.path, index: Math.max(0, Math.min(cursor.index, container.length)) };
+};
+
+const firstContainerOf = (item: DraggableItem): string | null => structureParts(item)[0]?.[0] ?? null;
+
+const lastContainerOf = (item: DraggableItem): string | null => structureParts(item).at(-1)?.[0] ?? null;
+
+// The box before or after `part` within the same structure, e.g. from a root's index to its content.
+const siblingContainer = (structure: DraggableItem, part: string, offset: 1 | -1): string | null => {
+    const names = structureParts(structure).map(([name]) => name);
+    return names[names.indexOf(part) + offset] ?? null;
+};
+
+// Moves through the equation in reading order: into a fraction via its numerator, from numerator to
+// denominator, and back out after the structure. Up and down jump between numerator and denominator.
+export const moveCursor = (side: EquationSide, cursor: EquationCursor, direction: 'left' | 'right' | 'up' | 'down' | 'home' | 'end'): EquationCursor => {
+    const { path, index } = clampCursor(side, cursor);
+    const items: DraggableItem[] = getNested(side, path);
+    const isRoot = path.length === 1;
+    const part = path[path.length - 2], parentPath = path.slice(0, -3), parentIndex = path[path.length - 3] as number;
+    const containerLength = (p: (string | number)[]) => (getNested(side, p) as DraggableItem[]).length;
+    switch (direction) {
+        case 'home': return { path, index: 0 };
+        case 'end': return { path, index: items.length };
+        case 'right': {
+            if (index < items.length) {
+                const inner = firstContainerOf(items[index]);
+                return inner ? { path: [...path, index, inner, 'items'], index: 0 } : { path, index: index + 1 };
+            }
+            if (isRoot) return { path, index };
+            const next = siblingContainer(getNested(side, [...parentPath, parentIndex]), part as string, 1);
+            if (next) return { path: [...parentPath, parentIndex, next, 'items'], index: 0 };
+            return { path: parentPath, index: parentIndex + 1 };
+        }
+        case 'left': {
+            if (index > 0) {
+                const inner = lastContainerOf(items[index - 1]);
+                if (!inner) return { path, index: index - 1 };
+                const innerPath = [...path, index - 1, inner, 'items'];
+                return { path: innerPath, index: containerLength(innerPath) };
+            }
+            if (isRoot) return { path, index };
+            const previous = siblingContainer(getNested(side, [...parentPath, parentIndex]), part as string, -1);
+            if (previous) { const previousPath = [...parentPath, parentIndex, previous, 'items']; return { path: previousPath, index: containerLength(previousPath) }; }
+            return { path: parentPath, index: parentIndex };
+        }
+        case 'up': case 'down': {
+            const from = direction === 'up' ? 'denominator' : 'numerator', to = direction === 'up' ? 'numerator' : 'denominator';
+            for (let i = path.length - 2; i > 0; i -= 3) {
+                if (path[i] !== from) continue;
+                const targetPath = [...path.slice(0, i), to, 'items'];
+                return { path: targetPath, index: Math.min(i === path.length - 2 ? index : 0, containerLength(targetPath)) };
+            }
+            return { path, index };
+        }
+    }
+};
+
+export const insertAtCursor = (side: EquationSide, cursor: EquationCursor, symbol: string): EditResult => {
+    const { path, index } = clampCursor(side, cursor);
+    const item = createItemForSymbol(symbol);
+    const nextSide = produce(side, draft => { (getNested(draft, path) as DraggableItem[]).splice(index, 0, item); });
+    const inner = firstContainerOf(item);
+    return { side: nextSide, cursor: inner ? { path: [...path, index, inner, 'items'], index: 0 } : { path, index: index + 1 } };
+};
+
+// Backspace removes the item before the cursor; at the start of an empty structure it removes the structure itself.
+export const deleteAtCursor = (side: EquationSide, cursor: EquationCursor, direction: 'backward' | 'forward'): EditResult => {
+    const { path, index } = clampCursor(side, cursor);
+    const items: DraggableItem[] = getNested(side, path);
+    const removeAt = (p: (string | number)[], i: number) => produce(side, draft => { (getNested(draft, p) as DraggableItem[]).splice(i, 1); });
+    if (direction === 'forward') return index < items.length ? { side: removeAt(path, index), cursor: { path, index } } : { side, cursor: { path, index } };
+    if (index > 0) return { side: removeAt(path, index - 1), cursor: { path, index: index - 1 } };
+    if (path.length === 1) return { side, cursor: { path, index } };
+    const parentPath = path.slice(0, -3), parentIndex = path[path.length - 3] as number;
+    const structure: DraggableItem = getNested(side, [...parentPath, parentIndex]);
+    const isEmpty = structureParts(structure).every(([, part]) => part.items.length === 0);
+    return isEmpty ? { side: removeAt(parentPath, parentIndex), cursor: { path: parentPath, index: parentIndex } } : { side, cursor: moveCursor(side, { path, index }, 'left') };
+};
+
+// Moves the item just before the cursor one place left or right within its container; the cursor follows it.
+export const shiftItemAtCursor = (side: EquationSide, cursor: EquationCursor, direction: 'left' | 'right'): EditResult => {
+    const { path, index } = clampCursor(side, cursor);
+    const items: DraggableItem[] = getNested(side, path);
+    const from = index - 1, to = direction === 'left' ? from - 1 : from + 1;
+    if (from < 0 || to < 0 || to >= items.length) return { side, cursor: { path, index } };
+    const nextSide = produce(side, draft => {
+        const container = getNested(draft, path) as DraggableItem[];
+        const [moved] = container.splice(from, 1);
+        container.splice(to, 0, moved);
+    });
+    return { side: nextSide, cursor: { path, index: to + 1 } };
+};
+
+// What the editing commands act on: the items between the anchor and the cursor, or else the item just before the cursor.
+export const selectionAt = (side: EquationSide, cursor: EquationCursor, anchor: number | null): EquationSelection | null => {
+    const { path, index } = clampCursor(side, cursor);
+    const length = (getNested(side, path) as DraggableItem[]).length;
+    if (anchor !== null && anchor !== index && anchor <= length) return { path, start: Math.min(anchor, index), end: Math.max(anchor, index) };
+    return index > 0 ? { path, start: index - 1, end: index } : null;
+};
+
+export const duplicateSelection = (side: EquationSide, selection: EquationSelection): EditResult => {
+    const { path, start, end } = selection;
+    const copies = (getNested(side, path) as DraggableItem[]).slice(start, end).map(cloneItem);
+    const nextSide = produce(side, draft => { (getNested(draft, path) as DraggableItem[]).splice(end, 0, ...copies); });
+    return { side: nextSide, cursor: { path, index: end + copies.length } };
+};
+
+// Moves the selection into the numerator of a new fraction, with the cursor in its denominator, or into a new square root.
+export const wrapSelection = (side: EquationSide, selection: EquationSelection, symbol: '__fraction__' | '__sqrt__'): EditResult => {
+    const { path, start, end } = selection;
+    const selected = (getNested(side, path) as DraggableItem[]).slice(start, end);
+    const wrapper: DraggableItem = symbol === '__fraction__'
+        ? { id: uuidv4(), type: 'fraction', numerator: { items: selected }, denominator: { items: [] } }
+        : { id: uuidv4(), type: 'sqrt', content: { items: selected } };
+    const nextSide = produce(side, draft => { (getNested(draft, path) as DraggableItem[]).splice(start, end - start, wrapper); });
+    return { side: nextSide, cursor: symbol === '__fraction__' ? { path: [...path, start, 'denominator', 'items'], index: 0 } : { path, index: start + 1 } };
+};
+
+// A fraction leaves its numerator followed by its denominator; a root leaves its content.
+const unwrappedItems = (item: DraggableItem | undefined): DraggableItem[] | null => {
+    switch (item?.type) {
+        case 'fraction': return [...item.numerator.items, ...item.denominator.items];
+        case 'sqrt': case 'root': return item.content.items;
+        default: return null;
+    }
+};
+
+// Replaces the fraction or root just before the cursor, or else the nearest one around it, by its contents.
+export const unwrapAtCursor = (side: EquationSide, cursor: EquationCursor): EditResult => {
+    const { path, index } = clampCursor(side, cursor);
+    let target: (string | number)[] | null = index > 0 && unwrappedItems((getNested(side, path) as DraggableItem[])[index - 1]) ? [...path, index - 1] : null;
+    for (let p = path; !target && p.length > 1; p = p.slice(0, -3)) {
+        if (unwrappedItems(getNested(side, p.slice(0, -2)))) target = p.slice(0, -2);
+    }
+    if (!target) return { side, cursor: { path, index } };
+    const containerPath = target.slice(0, -1), at = target[target.length - 1] as number;
+    const contents = unwrappedItems(getNested(side, target))!;
+    const nextSide = produce(side, draft => { (getNested(draft, containerPath) as DraggableItem[]).splice(at, 1, ...contents); });
+    return { side: nextSide, cursor: { path: containerPath, index: at + contents.length } };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { DraggableItem, EquationSide } from '../types';
+import { historySteps, recordChange, redo, replacePresent, startHistory, undo } from './equationHistory';
+
+const sym = (content: string): DraggableItem => ({ id: content, type: 'symbol', content });
+const side = (...items: DraggableItem[]): EquationSide => ({ items });
+const empty = side();
+const m = side(sym('m')), fraction = side(sym('Fz'), sym('*'), sym('g'));
+
+describe('equation history', () => {
+    it('undoes and redoes changes to both sides', () => {
+        const history = recordChange(recordChange(startHistory({ left: empty, right: empty }), { left: m, right: empty }), { left: m, right: fraction });
+        expect(undo(history).present).toEqual({ left: m, right: empty });
+        expect(undo(undo(history)).present).toEqual({ left: empty, right: empty });
+        expect(redo(undo(undo(history))).present).toEqual({ left: m, right: empty });
+    });
+
+    it('drops the redo steps after a new change', () => {
+        const history = recordChange(undo(recordChange(startHistory({ left: empty, right: empty }), { left: m, right: empty })), { left: empty, right: m });
+        expect(history.future).toEqual([]);
+        expect(redo(history)).toBe(history);
+    });
+
+    it('ignores changes that keep the same sides', () => {
+        const history = startHistory({ left: m, right: empty });
+        expect(recordChange(history, { left: m, right: empty })).toBe(history);
+    });
+
+    it('lists every non-empty step for review', () => {
+        const history = replacePresent(recordChange(startHistory({ left: empty, right: empty }), { left: m, right: empty }), { left: m, right: fraction });
+        expect(historySteps(history)).toEqual(['m = Fz * g']);
+        expect(historySteps(recordChange(history, { left: fraction, right: m }))).toEqual(['m = Fz * g', 'Fz * g = m']);
+    });
+});
@@ -0,0 +1,41 @@
+import type { EquationSide } from '../types';
+import { serializeSide } from './equationTree';
+
+export interface EquationSnapshot {
+  left: EquationSide;
+  right: EquationSide;
+}
+
+// Undo and redo over both sides at once, so a move from one side to the other is undone in one step.
+export interface EquationHistory {
+  past: EquationSnapshot[];
+  present: EquationSnapshot;
+  future: EquationSnapshot[];
+}
+
+const MAX_UNDO_STEPS = 100;
+
+export const startHistory = (present: EquationSnapshot): EquationHistory => ({ past: [], present, future: [] });
+
+// Sides are immutable, so a change that hands back the same objects is no change at all.
+export const recordChange = (history: EquationHistory, next: EquationSnapshot): EquationHistory => {
+    if (next.left === history.present.left && next.right === history.present.right) return history;
+    return { past: [...history.past, history.present].slice(-MAX_UNDO_STEPS), present: next, future: [] };
+};
+
+// For edits that belong to the step before them, such as every keystroke after the first in the typed input.
+export const replacePresent = (history: EquationHistory, next: EquationSnapshot): EquationHistory => ({ ...history, present: next });
+
+export const undo = (history: EquationHistory): EquationHistory => {
+    if (history.past.length === 0) return history;
+    return { past: history.past.slice(0, -1), present: history.past[history.past.length - 1], future: [history.present, ...history.future] };
+};
+
+export const redo = (history: EquationHistory): EquationHistory => {
+    if (history.future.length === 0) return history;
+    return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
+};
+
+// The equation after every step that led to the present one, as "left = right", for reviewing an attempt afterwards.
+export const historySteps = (history: EquationHistory): string[] =>
+    [...history.past, history.present].filter(({ left, right }) => left.items.length > 0 || right.items.length > 0).map(({ left, right }) => `${serializeSide(left)} = ${serializeSide(right)}`);
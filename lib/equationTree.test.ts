@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { DraggableItem, EquationSide } from '../types';
+import { ExpressionParseError, parseExpression } from './symbolic';
+import { expressionToSide, isSideSubmittable, moveItemWithinSide, parseTypedEquation, serializeSide } from './equationTree';
+
+const sym = (content: string): DraggableItem => ({ id: content, type: 'symbol', content });
+const side = (...items: DraggableItem[]): EquationSide => ({ items });
+const fraction = (numerator: EquationSide, denominator: EquationSide): DraggableItem => ({ id: 'frac', type: 'fraction', numerator, denominator });
+const sqrt = (content: EquationSide): DraggableItem => ({ id: 'sqrt', type: 'sqrt', content });
+
+describe('serializeSide', () => {
+    it('joins dropped symbols with spaces', () => {
+        expect(serializeSide(side(sym('m'), sym('*'), sym('g')))).toBe('m * g');
+    });
+
+    it('wraps multi-item numerators and denominators in parentheses', () => {
+        expect(serializeSide(side(fraction(side(sym('Epot')), side(sym('m'), sym('*'), sym('g')))))).toBe('Epot/(m * g)');
+    });
+
+    it('wraps a nested fraction in parentheses', () => {
+        expect(serializeSide(side(fraction(side(fraction(side(sym('a')), side(sym('b')))), side(sym('c')))))).toBe('(a/b)/c');
+    });
+
+    it('writes square roots and squares', () => {
+        expect(serializeSide(side(sqrt(side(fraction(side(sym('E')), side(sym('m')))))))).toBe('sqrt(E/m)');
+        expect(serializeSide(side(sym('c'), sym('__square__')))).toBe('c ^2');
+    });
+
+    it('returns an empty string for an empty side', () => {
+        expect(serializeSide(side())).toBe('');
+    });
+});
+
+describe('isSideSubmittable', () => {
+    it('rejects an empty side', () => {
+        expect(isSideSubmittable(side())).toBe(false);
+    });
+
+    it('rejects empty slots inside fractions and roots', () => {
+        expect(isSideSubmittable(side(fraction(side(sym('a')), side())))).toBe(false);
+        expect(isSideSubmittable(side(sqrt(side())))).toBe(false);
+        expect(isSideSubmittable(side(sym('x'), { id: 'pow', type: 'power', exponent: side() }))).toBe(false);
+    });
+
+    it('accepts a fully filled side', () => {
+        expect(isSideSubmittable(side(sym('h'), sym('*'), sqrt(side(fraction(side(sym('E')), side(sym('m')))))))).toBe(true);
+    });
+});
+
+describe('expressionToSide', () => {
+    it.each(['Epot / (m * g)', 'sqrt(E / m)', 'm * c^2', '(a + b) / (c - d)', 'x^3', '(a + b)^(1/3)', '½ * a * t^2'])('round-trips %s through serializeSide', (input) => {
+        const serialized = serializeSide(expressionToSide(parseExpression(input)));
+        expect(serializeSide(expressionToSide(parseExpression(serialized)))).toBe(serialized);
+    });
+
+    it('turns a division into a fraction node', () => {
+        const [item] = expressionToSide(parseExpression('F / m')).items;
+        expect(item.type).toBe('fraction');
+    });
+
+    it('uses power and root items for other exponents', () => {
+        expect(expressionToSide(parseExpression('x^3')).items.map(item => item.type)).toEqual(['symbol', 'power']);
+        expect(expressionToSide(parseExpression('V^(1/3)')).items[0]).toMatchObject({ type: 'root', index: { items: [{ content: '3' }] } });
+    });
+});
+
+describe('parseTypedEquation', () => {
+    const symbols = ['h', 'Epot', 'm', 'g'];
+
+    it('parses both sides into trees', () => {
+        const { left, right } = parseTypedEquation('h = Epot / (m*g)', symbols);
+        expect(serializeSide(left)).toBe('h');
+        expect(serializeSide(right)).toBe('Epot/(m * g)');
+    });
+
+    it.each([
+        ['h Epot', 6, "Er ontbreekt een '='"],
+        ['h = Epot / (m*g', 15, "Er ontbreekt een ')'"],
+        ['h = x / m', 4, "'x' is geen grootheid van deze formule"],
+        ['h = ', 4, 'Het rechterlid is leeg'],
+        ['h = m = g', 6, "Er staat meer dan één '='"],
+    ])('reports %j at position %i', (input, position, message) => {
+        try {
+            parseTypedEquation(input, symbols);
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(ExpressionParseError);
+            expect((error as ExpressionParseError).position).toBe(position);
+            expect((error as ExpressionParseError).message).toBe(message);
+        }
+    });
+});
+
+describe('moveItemWithinSide', () => {
+    it('moves an item to the right within the same container', () => {
+        const moved = moveItemWithinSide(side(sym('a'), sym('b'), sym('c')), ['items', 0], ['items'], 3);
+        expect(serializeSide(moved)).toBe('b c a');
+    });
+
+    it('moves an item into a later fraction', () => {
+        const moved = moveItemWithinSide(side(sym('a'), fraction(side(sym('b')), side(sym('c')))), ['items', 0], ['items', 1, 'numerator', 'items'], 1);
+        expect(serializeSide(moved)).toBe('(b a)/c');
+    });
+
+    it('refuses to drop an item inside itself', () => {
+        const original = side(fraction(side(sym('b')), side(sym('c'))));
+        expect(moveItemWithinSide(original, ['items', 0], ['items', 0, 'numerator', 'items'], 0)).toBe(original);
+    });
+});
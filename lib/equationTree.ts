@@ -0,0 +1,140 @@
+import { produce } from 'immer';
+import { v4 as uuidv4 } from 'uuid';
+import type { DroppedSymbol, DraggableItem, EquationSide } from '../types';
+import { ExpressionParseError, MATH_CONSTANTS, tokenizeExpression, parseExpression, parseEquation, collectVariables, evaluateExpression, roundCoefficient } from './symbolic';
+import type { Expr } from './symbolic';
+
+// The boxes inside a structure, in reading order; a root is read as its index first, as in ³√x.
+export const structureParts = (item: DraggableItem): [string, EquationSide][] => {
+    switch (item.type) {
+        case 'symbol': return [];
+        case 'sqrt': return [['content', item.content]];
+        case 'fraction': return [['numerator', item.numerator], ['denominator', item.denominator]];
+        case 'power': return [['exponent', item.exponent]];
+        case 'root': return [['index', item.index], ['content', item.content]];
+    }
+};
+
+export const serializeSide = (side: EquationSide): string => {
+    const serializeItems = (items: DraggableItem[]): string => items.map(item => {
+        if (item.type === 'symbol') return item.content === '__square__' ? '^2' : item.content;
+        if (item.type === 'sqrt') return `sqrt(${serializeSide(item.content) || ' '})`;
+        if (item.type === 'power') return `^(${serializeSide(item.exponent) || ' '})`;
+        if (item.type === 'root') return `(${serializeSide(item.content) || ' '})^(1/(${serializeSide(item.index) || ' '}))`;
+        if (item.type === 'fraction') {
+            const num = serializeSide(item.numerator), den = serializeSide(item.denominator);
+            const needsParens = (part: EquationSide) => part.items.length > 1 || part.items[0]?.type === 'fraction';
+            return `${needsParens(item.numerator) ? `(${num})` : num || ' '}/${needsParens(item.denominator) ? `(${den})` : den || ' '}`;
+        } return '';
+    }).join(' ');
+    return serializeItems(side.items).replace(/\s+/g, ' ').trim();
+};
+
+export const isSideSubmittable = (side: EquationSide): boolean => {
+    if (side.items.length === 0) return false;
+    return side.items.every(item => structureParts(item).every(([, part]) => isSideSubmittable(part)));
+};
+
+// Lays an expression out as the same items a student would drag in; the result serializes back to an equivalent string.
+export const expressionToSide = (expr: Expr): EquationSide => {
+    const symbol = (content: string): DroppedSymbol => ({ id: uuidv4(), type: 'symbol', content });
+    const wrapped = (e: Expr, when: boolean): DraggableItem[] => when ? [symbol('('), ...toItems(e), symbol(')')] : toItems(e);
+    const isSum = (e: Expr) => e.kind === 'bin' && (e.op === '+' || e.op === '-');
+    const toItems = (e: Expr): DraggableItem[] => {
+        switch (e.kind) {
+            case 'num': return [symbol(String(e.value))];
+            case 'var': return [symbol(e.name)];
+            case 'neg': return [symbol('-'), ...wrapped(e.arg, e.arg.kind === 'bin')];
+            case 'sqrt': return [{ id: uuidv4(), type: 'sqrt', content: expressionToSide(e.arg) }];
+            case 'pow': {
+                const exponent = collectVariables(e.exponent).size === 0 ? evaluateExpression(e.exponent, {}) : NaN;
+                if (exponent === 0.5) return [{ id: uuidv4(), type: 'sqrt', content: expressionToSide(e.base) }];
+                const rootIndex = roundCoefficient(1 / exponent);
+                if (Number.isInteger(rootIndex) && rootIndex > 2) return [{ id: uuidv4(), type: 'root', index: { items: [symbol(String(rootIndex))] }, content: expressionToSide(e.base) }];
+                const base = wrapped(e.base, e.base.kind !== 'var' && e.base.kind !== 'num' && e.base.kind !== 'sqrt');
+                return [...base, exponent === 2 ? symbol('__square__') : { id: uuidv4(), type: 'power', exponent: expressionToSide(e.exponent) }];
+            }
+            case 'bin':
+                if (e.op === '/') return [{ id: uuidv4(), type: 'fraction', numerator: expressionToSide(e.left), denominator: expressionToSide(e.right) }];
+                if (e.op === '*') return [...wrapped(e.left, isSum(e.left)), symbol('*'), ...wrapped(e.right, isSum(e.right))];
+                return [...toItems(e.left), symbol(e.op), ...wrapped(e.right, e.op === '-' && isSum(e.right))];
+        }
+    };
+    return { items: toItems(expr) };
+};
+
+// Both sides of an equation such as "m = Fz / g", as the read-only boards show them.
+export const equationToSides = (equation: string): { left: EquationSide; right: EquationSide } => {
+    const { left, right } = parseEquation(equation);
+    return { left: expressionToSide(left), right: expressionToSide(right) };
+};
+
+// Parses what a student types ("h = Epot / (m*g)") into the same trees the drop zones hold. Error positions
+// refer to the full input, so the input field can point at the exact character.
+export const parseTypedEquation = (input: string, knownSymbols: string[]): { left: EquationSide; right: EquationSide } => {
+    const equalsAt = input.indexOf('=');
+    if (equalsAt === -1) throw new ExpressionParseError('parse.missingEquals', input.length);
+    if (input.indexOf('=', equalsAt + 1) !== -1) throw new ExpressionParseError('parse.multipleEquals', input.indexOf('=', equalsAt + 1));
+    const parseSide = (text: string, offset: number): EquationSide => {
+        try {
+            const unknown = tokenizeExpression(text).find(token => token.type === 'ident' && token.value !== 'sqrt' && !MATH_CONSTANTS.has(token.value) && !knownSymbols.includes(token.value));
+            if (unknown) throw new ExpressionParseError('parse.unknownSymbol', unknown.position, { symbol: unknown.value });
+            if (text.trim() === '') throw new ExpressionParseError(offset === 0 ? 'parse.emptyLeft' : 'parse.emptyRight', text.length);
+            return expressionToSide(parseExpression(text));
+        } catch (error) {
+            if (error instanceof ExpressionParseError) throw new ExpressionParseError(error.key, error.position + offset, error.params);
+            throw error;
+        }
+    };
+    return { left: parseSide(input.slice(0, equalsAt), 0), right: parseSide(input.slice(equalsAt + 1), equalsAt + 1) };
+};
+
+export const getNested = (obj: any, path: (string | number)[]): any => path.reduce((acc, key) => (acc && acc[key] !== 'undefined') ? acc[key] : undefined, obj);
+
+export const createItemForSymbol = (symbol: string): DraggableItem => {
+    if (symbol === '__fraction__') return { id: uuidv4(), type: 'fraction', numerator: { items: [] }, denominator: { items: [] } };
+    if (symbol === '__sqrt__') return { id: uuidv4(), type: 'sqrt', content: { items: [] } };
+    if (symbol === '__power__') return { id: uuidv4(), type: 'power', exponent: { items: [] } };
+    if (symbol === '__root__') return { id: uuidv4(), type: 'root', index: { items: [] }, content: { items: [] } };
+    return { id: uuidv4(), type: 'symbol', content: symbol };
+};
+
+// A deep copy with fresh ids, since the drop zones key their items by id.
+export const cloneItem = (item: DraggableItem): DraggableItem => {
+    const id = uuidv4();
+    const cloneSide = (side: EquationSide): EquationSide => ({ items: side.items.map(cloneItem) });
+    switch (item.type) {
+        case 'symbol': return { ...item, id };
+        case 'sqrt': return { ...item, id, content: cloneSide(item.content) };
+        case 'fraction': return { ...item, id, numerator: cloneSide(item.numerator), denominator: cloneSide(item.denominator) };
+        case 'power': return { ...item, id, exponent: cloneSide(item.exponent) };
+        case 'root': return { ...item, id, index: cloneSide(item.index), content: cloneSide(item.content) };
+    }
+};
+
+export const pathsEqual = (a: (string | number)[], b: (string | number)[]) => a.length === b.length && a.every((key, i) => key === b[i]);
+
+export const insertAtPath = (side: EquationSide, containerPath: (string | number)[], index: number, item: DraggableItem): EquationSide => produce(side, draft => {
+    const container = getNested(draft, containerPath);
+    if (Array.isArray(container)) container.splice(index, 0, item);
+});
+
+export const removeAtPath = (side: EquationSide, itemPath: (string | number)[]): EquationSide => produce(side, draft => {
+    const container = getNested(draft, itemPath.slice(0, -1));
+    if (Array.isArray(container)) container.splice(itemPath[itemPath.length - 1] as number, 1);
+});
+
+// Moves an item within one side. Removing the item first shifts later siblings one place to the left,
+// so a target index or path that runs past it is corrected. Dropping an item inside itself is ignored.
+export const moveItemWithinSide = (side: EquationSide, itemPath: (string | number)[], targetPath: (string | number)[], targetIndex: number): EquationSide => {
+    const sourceContainer = itemPath.slice(0, -1), sourceIndex = itemPath[itemPath.length - 1] as number;
+    if (targetPath.length > itemPath.length && pathsEqual(targetPath.slice(0, itemPath.length), itemPath)) return side;
+    const item: DraggableItem | undefined = getNested(side, itemPath);
+    if (!item) return side;
+    let path = targetPath, index = targetIndex;
+    if (pathsEqual(targetPath, sourceContainer)) { if (sourceIndex < targetIndex) index--; }
+    else if (pathsEqual(targetPath.slice(0, sourceContainer.length), sourceContainer) && (targetPath[sourceContainer.length] as number) > sourceIndex) {
+        path = [...sourceContainer, (targetPath[sourceContainer.length] as number) - 1, ...targetPath.slice(sourceContainer.length + 1)];
+    }
+    return insertAtPath(removeAtPath(side, itemPath), path, index, item);
+};
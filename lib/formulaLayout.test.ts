@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { parseExpression } from './symbolic';
+import type { Expr } from './symbolic';
+import { isGreekLetter, layoutFormula, needsParentheses, splitIdentifier } from './formulaLayout';
+
+const bin = (expr: Expr) => { if (expr.kind !== 'bin') throw new Error(`expected bin, got ${expr.kind}`); return expr; };
+
+describe('layoutFormula', () => {
+    it('parses every side of the formula', () => {
+        expect(layoutFormula('F = m * a')).toEqual([{ kind: 'var', name: 'F' }, { kind: 'bin', op: '*', left: { kind: 'var', name: 'm' }, right: { kind: 'var', name: 'a' } }]);
+    });
+
+    it('gives division and multiplication the same precedence, left to right', () => {
+        const [, right] = layoutFormula('x = a / b * c')!;
+        expect(bin(right).op).toBe('*');
+        expect(bin(bin(right).left).op).toBe('/');
+    });
+
+    it('keeps arbitrary exponents and nested roots', () => {
+        const [, right] = layoutFormula('y = sqrt(sqrt(x)) ^ 3')!;
+        expect(right).toMatchObject({ kind: 'pow', base: { kind: 'sqrt', arg: { kind: 'sqrt' } }, exponent: { kind: 'num', value: 3 } });
+    });
+
+    it('marks implicit multiplication', () => {
+        const [, right] = layoutFormula('Epot = m g h')!;
+        expect(bin(right).implicit).toBe(true);
+    });
+
+    it('returns null for a formula that does not parse', () => {
+        expect(layoutFormula('h = Epot / (m *')).toBeNull();
+    });
+});
+
+describe('needsParentheses', () => {
+    const wrapped = (input: string, pick: (e: Expr) => [Expr, 'left' | 'right' | 'base' | 'arg']) => {
+        const parent = parseExpression(input);
+        const [child, position] = pick(parent);
+        return needsParentheses(child, parent, position);
+    };
+
+    it('wraps a sum inside a product', () => {
+        expect(wrapped('(a + b) * c', e => [bin(e).left, 'left'])).toBe(true);
+        expect(wrapped('a * b + c', e => [bin(e).left, 'left'])).toBe(false);
+    });
+
+    it('wraps the right operand of a subtraction when it is a sum', () => {
+        expect(wrapped('a - (b + c)', e => [bin(e).right, 'right'])).toBe(true);
+        expect(wrapped('(a + b) - c', e => [bin(e).left, 'left'])).toBe(false);
+    });
+
+    it('never wraps the parts of a fraction', () => {
+        expect(wrapped('(a + b) / (c - d)', e => [bin(e).left, 'left'])).toBe(false);
+    });
+
+    it('wraps a compound base of a power', () => {
+        expect(wrapped('(a / b) ^ 2', e => [(e as Extract<Expr, { kind: 'pow' }>).base, 'base'])).toBe(true);
+        expect(wrapped('v ^ 2', e => [(e as Extract<Expr, { kind: 'pow' }>).base, 'base'])).toBe(false);
+    });
+});
+
+describe('splitIdentifier', () => {
+    it('splits a subscript after the underscore', () => {
+        expect(splitIdentifier('F_z')).toEqual({ base: 'F', subscript: 'z' });
+        expect(splitIdentifier('E_pot')).toEqual({ base: 'E', subscript: 'pot' });
+    });
+
+    it('leaves names without a subscript alone', () => {
+        expect(splitIdentifier('Epot')).toEqual({ base: 'Epot', subscript: null });
+        expect(splitIdentifier('x_')).toEqual({ base: 'x_', subscript: null });
+    });
+});
+
+describe('isGreekLetter', () => {
+    it.each(['α', 'θ', 'ρ', 'Δx', 'ω', 'λ', 'μ', 'Φ'])('recognises %s', (name) => expect(isGreekLetter(name)).toBe(true));
+
+    it('rejects Latin letters', () => expect(isGreekLetter('v')).toBe(false));
+});
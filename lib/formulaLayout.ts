@@ -0,0 +1,39 @@
+import { parseExpression, collectVariables, evaluateExpression, roundCoefficient } from './symbolic';
+import type { Expr } from './symbolic';
+
+// FormulaRenderer draws the parsed expression tree, so precedence, powers and nested roots come out the
+// way the checker reads them. A formula that doesn't parse is shown as plain text instead.
+export const layoutFormula = (formula: string): Expr[] | null => {
+    try { return formula.split('=').map(side => parseExpression(side)); }
+    catch { return null; }
+};
+
+// Fractions and roots group their contents visually, so only operators written inline need parentheses.
+export const needsParentheses = (child: Expr, parent: Expr, position: 'left' | 'right' | 'base' | 'arg'): boolean => {
+    const isSum = child.kind === 'bin' && (child.op === '+' || child.op === '-');
+    switch (parent.kind) {
+        case 'pow': return position === 'base' && child.kind !== 'var' && child.kind !== 'num';
+        case 'neg': return isSum || child.kind === 'neg';
+        case 'bin':
+            if (parent.op === '/') return false;
+            if (parent.op === '*') return isSum || (position === 'right' && child.kind === 'neg');
+            if (parent.op === '-') return position === 'right' && (isSum || child.kind === 'neg');
+            return position === 'right' && child.kind === 'neg';
+        default: return false;
+    }
+};
+
+// "E_pot" is written with a subscript; names without an underscore, such as "Epot", are shown as they are.
+export const splitIdentifier = (name: string): { base: string; subscript: string | null } => {
+    const underscore = name.indexOf('_');
+    return underscore > 0 && underscore < name.length - 1 ? { base: name.slice(0, underscore), subscript: name.slice(underscore + 1) } : { base: name, subscript: null };
+};
+
+export const isGreekLetter = (text: string) => /^\p{Script=Greek}/u.test(text);
+
+// A power with exponent 1/n for a whole n above 2 is drawn as an n-th root, matching the root item on the board.
+export const rootIndexOf = (expr: Expr & { kind: 'pow' }): number | null => {
+    if (collectVariables(expr.exponent).size > 0) return null;
+    const index = roundCoefficient(1 / evaluateExpression(expr.exponent, {}));
+    return Number.isInteger(index) && index > 2 ? index : null;
+};
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BUILT_IN_FORMULA_PACKS } from '../constants';
+import { FormulaPackError, deriveIsolation, isValidIsolation, loadFormulaPack, loadStoredFormulaPacks, practiceTargets } from './formulaPacks';
+
+describe('loadFormulaPack', () => {
+    it.each(BUILT_IN_FORMULA_PACKS.map(pack => [pack.id, pack]))('loads the built-in pack %s with valid isolations', (_, pack) => {
+        const loaded = loadFormulaPack(pack);
+        for (const formula of loaded.formulas) {
+            for (const [target, isolation] of Object.entries(formula.isolations)) expect(isValidIsolation(formula.formula, target, isolation)).toBe(true);
+        }
+    });
+
+    it('lists every problem in an invalid pack', () => {
+        try {
+            loadFormulaPack({ id: 'x', name: 'X', formulas: [{ formula: 'F = m * a', variables: ['F', 'm'], topic: 'Krachten', difficulty: 4 }] });
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(FormulaPackError);
+            expect((error as FormulaPackError).problems).toEqual(["Formule 1: 'difficulty' moet 1, 2 of 3 zijn"]);
+        }
+    });
+
+    it('reports the problems in the requested language', () => {
+        const pack = { id: 'x', name: 'X', formulas: [{ formula: 'F = m * a', variables: ['F', 'm', 'a'], topic: 'Krachten', difficulty: 1, units: { F: 'N', m: 'furlong', a: 'm/s²' } }] };
+        expect(() => loadFormulaPack(pack, 'en')).toThrow("Formula pack 'X' contains errors");
+        try {
+            loadFormulaPack(pack, 'fr');
+            expect.unreachable();
+        } catch (error) {
+            expect((error as FormulaPackError).problems).toEqual(["Formule 1 : unité de m : 'furlong' n'est pas une unité connue"]);
+        }
+    });
+
+    it('rejects a provided answer that is not a correct isolation', () => {
+        const pack = { id: 'x', name: 'X', formulas: [{ formula: 'F = m * a', variables: ['F', 'm', 'a'], topic: 'Krachten', difficulty: 1, answers: { a: 'a = F * m' } }] };
+        expect(() => loadFormulaPack(pack)).toThrow(FormulaPackError);
+    });
+
+    it('rejects units that make the formula inconsistent', () => {
+        const pack = { id: 'x', name: 'X', formulas: [{ formula: 'F = m * a', variables: ['F', 'm', 'a'], topic: 'Krachten', difficulty: 1, units: { F: 'N', m: 'kg', a: 'm/s' } }] };
+        expect(() => loadFormulaPack(pack)).toThrow(FormulaPackError);
+    });
+
+    it('only isolates the listed targets', () => {
+        const pack = { id: 'x', name: 'X', formulas: [{ formula: 's = v0*t + ½*a*t^2', variables: ['s', 'v0', 'a', 't'], topic: 'Kinematica', difficulty: 3, targets: ['v0'] }] };
+        const [formula] = loadFormulaPack(pack).formulas;
+        expect(Object.keys(formula.isolations)).toEqual(['v0']);
+        expect(practiceTargets(formula)).toEqual(['v0']);
+    });
+
+    it('accepts an expression on the left of the =-sign', () => {
+        const [formula] = loadFormulaPack({ id: 'x', name: 'X', formulas: [{ formula: '1/f = 1/v + 1/b', variables: ['f', 'v', 'b'], topic: 'Lenzen', difficulty: 3 }] }).formulas;
+        expect(formula.solvedVariable).toBeNull();
+        expect(practiceTargets(formula)).toEqual(['f', 'v', 'b']);
+    });
+});
+
+describe('loadStoredFormulaPacks', () => {
+    const store = (value: string) => vi.stubGlobal('localStorage', { getItem: () => value });
+    afterEach(() => { vi.unstubAllGlobals(); vi.restoreAllMocks(); });
+
+    it('keeps only the stored packs that still pass validation', () => {
+        const valid = { id: 'x', name: 'X', formulas: [{ formula: 'F = m * a', variables: ['F', 'm', 'a'], topic: 'Krachten', difficulty: 1 }] };
+        store(JSON.stringify([valid, { id: 'y', name: 'Y', formulas: [] }, null]));
+        expect(loadStoredFormulaPacks()).toEqual([valid]);
+    });
+
+    it('ignores a stored value that is not a list', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        store('{"id":"x"}');
+        expect(loadStoredFormulaPacks()).toEqual([]);
+        store('{');
+        expect(loadStoredFormulaPacks()).toEqual([]);
+    });
+});
+
+describe('deriveIsolation', () => {
+    it('ends with the isolated variable on the left', () => {
+        const steps = deriveIsolation('Epot = m*g*h', 'h', ['Epot', 'm', 'g', 'h']);
+        expect(steps[steps.length - 1].equation).toBe('h = Epot / (m * g)');
+    });
+
+    it('moves a numeric coefficient back under the root', () => {
+        const steps = deriveIsolation('Ek = ½*m*v^2', 'v', ['Ek', 'm', 'v']);
+        expect(steps[steps.length - 1].equation).toBe('v = sqrt(2 * Ek / m)');
+    });
+});
@@ -0,0 +1,314 @@
+import { BUILT_IN_FORMULA_PACKS } from '../constants';
+import { translate } from './i18n';
+import type { Locale, MessageKey, MessageParams } from './i18n';
+import { ExpressionParseError, parseExpression, collectVariables, evaluateExpression, roundCoefficient, toCanonicalTerms, parseEquation } from './symbolic';
+import type { Expr } from './symbolic';
+import { isOneOf, isRecord, isStringArray, isStringRecord } from './guards';
+import { DimensionMismatchError, UnitError, dimensionOf, dimensionsEqual, formatDimension, parseUnit } from './units';
+
+export class FormulaPackError extends Error {
+    constructor(message: string, public problems: string[] = []) { super(message); this.name = 'FormulaPackError'; }
+}
+
+export const countOccurrences = (expr: Expr, name: string): number => {
+    switch (expr.kind) {
+        case 'num': return 0;
+        case 'var': return expr.name === name ? 1 : 0;
+        case 'neg': case 'sqrt': return countOccurrences(expr.arg, name);
+        case 'bin': return countOccurrences(expr.left, name) + countOccurrences(expr.right, name);
+        case 'pow': return countOccurrences(expr.base, name) + countOccurrences(expr.exponent, name);
+    }
+};
+
+const PRECEDENCE = { '+': 1, '-': 1, '*': 2, '/': 2 } as const;
+
+export const printExpression = (expr: Expr, parentPrecedence = 0): string => {
+    switch (expr.kind) {
+        case 'num': return expr.value === 0.5 ? '½' : String(expr.value);
+        case 'var': return expr.name;
+        case 'neg': return `-${printExpression(expr.arg, 3)}`;
+        case 'sqrt': return `sqrt(${printExpression(expr.arg)})`;
+        case 'pow': return `${printExpression(expr.base, 4)}^${printExpression(expr.exponent, 4)}`;
+        case 'bin': {
+            const precedence = PRECEDENCE[expr.op];
+            const rightNeedsParens = expr.op === '-' || expr.op === '/';
+            const printed = `${printExpression(expr.left, precedence)} ${expr.op} ${printExpression(expr.right, rightNeedsParens ? precedence + 1 : precedence)}`;
+            return precedence < parentPrecedence ? `(${printed})` : printed;
+        }
+    }
+};
+
+// Writes a single monomial the way the formula sheets do ("Epot / (m * g)", "sqrt(E / m)"), keeping the
+// factors in the order the quantities appear in the original formula.
+export const formatExpression = (expr: Expr, variableOrder: string[]): string => {
+    const terms = toCanonicalTerms(expr);
+    const isPlainMonomial = terms.length === 1 && [...terms[0].factors.keys()].every(f => !f.startsWith('('));
+    if (!isPlainMonomial) return printExpression(expr);
+    const rank = (name: string) => { const i = variableOrder.indexOf(name); return i === -1 ? variableOrder.length : i; };
+    const factors = [...terms[0].factors].sort(([a], [b]) => rank(a) - rank(b));
+    const coefficient = roundCoefficient(terms[0].coefficient);
+
+    // A whole coefficient stays in front; any other one, such as the 1.414... of sqrt(2 * Ek / m), is squared back under the root.
+    const allHalves = factors.length > 0 && factors.every(([, e]) => Math.abs(e * 2) % 2 === 1) && coefficient > 0 && (coefficient === 1 || !Number.isInteger(coefficient));
+    if (allHalves) {
+        const squared = roundCoefficient(terms[0].coefficient ** 2);
+        const radicand = [...(squared === 1 ? [] : [String(squared)]), ...factors.map(([f, e]) => `${f}^${e * 2}`)].join(' * ');
+        return `sqrt(${formatExpression(parseExpression(radicand), variableOrder)})`;
+    }
+
+    const formatPower = (name: string, e: number) => e === 1 ? name : e === 0.5 ? `sqrt(${name})` : `${name}^${e}`;
+    const numerator = factors.filter(([, e]) => e > 0).map(([f, e]) => formatPower(f, e));
+    const denominator = factors.filter(([, e]) => e < 0).map(([f, e]) => formatPower(f, -e));
+    if (coefficient !== 1) {
+        const inverse = roundCoefficient(1 / coefficient);
+        if (!Number.isInteger(coefficient) && Number.isInteger(inverse)) denominator.unshift(String(inverse)); else numerator.unshift(String(coefficient));
+    }
+    const top = numerator.length ? numerator.join(' * ') : '1';
+    if (denominator.length === 0) return top;
+    return `${top} / ${denominator.length > 1 ? `(${denominator.join(' * ')})` : denominator[0]}`;
+};
+
+// What was done to both sides; the description is only put into words when it is shown, in the student's language.
+export type DerivationAction =
+    | { kind: 'start' | 'square' | 'sqrt' | 'swap' }
+    | { kind: 'multiply' | 'divide' | 'add' | 'subtract'; operand: string }
+    | { kind: 'root'; index: number };
+
+export interface DerivationStep {
+  action: DerivationAction;
+  equation: string;
+}
+
+export const describeStep = (action: DerivationAction, locale: Locale = 'nl'): string => {
+    switch (action.kind) {
+        case 'multiply': case 'divide': case 'add': case 'subtract':
+            return translate(locale, `step.${action.kind}`, { x: action.operand.includes(' ') ? `(${action.operand})` : action.operand });
+        case 'root': return translate(locale, 'step.root', { n: action.index });
+        default: return translate(locale, `step.${action.kind}`);
+    }
+};
+
+// Derives an isolation for a quantity that occurs exactly once by undoing, one step at a time, the outermost
+// operation around it. After every step both sides are simplified, so each intermediate equation reads like a
+// line of a worked solution.
+export const deriveIsolation = (formula: string, target: string, variableOrder: string[], locale: Locale = 'nl'): DerivationStep[] => {
+    const equation = parseEquation(formula);
+    const inLeft = countOccurrences(equation.left, target), inRight = countOccurrences(equation.right, target);
+    if (inLeft + inRight !== 1) throw new FormulaPackError(translate(locale, 'isolate.error.occurrences', { target, count: inLeft + inRight, formula }));
+
+    const format = (e: Expr) => formatExpression(e, variableOrder);
+    const steps: DerivationStep[] = [{ action: { kind: 'start' }, equation: formula }];
+    // `current` always holds the target; `targetOnLeft` remembers on which side of the =-sign it is shown.
+    let current = inLeft ? equation.left : equation.right, other = inLeft ? equation.right : equation.left, targetOnLeft = inLeft > 0;
+    const push = (action: DerivationAction) => steps.push({ action, equation: targetOnLeft ? `${format(current)} = ${format(other)}` : `${format(other)} = ${format(current)}` });
+    const swap = () => { targetOnLeft = !targetOnLeft; push({ kind: 'swap' }); };
+    const bin = (op: '+' | '-' | '*' | '/', left: Expr, right: Expr): Expr => ({ kind: 'bin', op, left, right });
+
+    if (!targetOnLeft) swap();
+    while (!(current.kind === 'var' && current.name === target)) {
+        switch (current.kind) {
+            case 'neg': other = { kind: 'neg', arg: other }; current = current.arg; push({ kind: 'multiply', operand: '-1' }); break;
+            case 'sqrt': other = { kind: 'pow', base: other, exponent: { kind: 'num', value: 2 } }; current = current.arg; push({ kind: 'square' }); break;
+            case 'pow': {
+                if (countOccurrences(current.exponent, target) > 0) throw new FormulaPackError(translate(locale, 'isolate.error.inExponent', { target, formula }));
+                const exponent = evaluateExpression(current.exponent, {});
+                other = exponent === 2 ? { kind: 'sqrt', arg: other } : { kind: 'pow', base: other, exponent: { kind: 'num', value: 1 / exponent } };
+                current = current.base;
+                push(exponent === 2 ? { kind: 'sqrt' } : { kind: 'root', index: exponent });
+                break;
+            }
+            case 'bin': {
+                const targetInLeft = countOccurrences(current.left, target) > 0;
+                const withTarget = targetInLeft ? current.left : current.right, rest = targetInLeft ? current.right : current.left;
+                if (current.op === '+') { other = bin('-', other, rest); current = withTarget; push({ kind: 'subtract', operand: format(rest) }); }
+                else if (current.op === '*') { other = bin('/', other, rest); current = withTarget; push({ kind: 'divide', operand: format(rest) }); }
+                else if (targetInLeft) {
+                    const op = current.op;
+                    other = bin(op === '-' ? '+' : '*', other, rest); current = withTarget;
+                    push({ kind: op === '-' ? 'add' : 'multiply', operand: format(rest) });
+                } else {
+                    // The target sits in a subtrahend or denominator: moving it over puts it on the other side.
+                    const op = current.op;
+                    [current, other] = [bin(op === '-' ? '+' : '*', other, withTarget), rest];
+                    targetOnLeft = !targetOnLeft;
+                    push({ kind: op === '-' ? 'add' : 'multiply', operand: format(withTarget) });
+                }
+                break;
+            }
+            default: throw new FormulaPackError(translate(locale, 'isolate.error.impossible', { target, formula }));
+        }
+    }
+    if (!targetOnLeft) swap();
+    return steps;
+};
+
+const isolateVariable = (formula: string, target: string, variableOrder: string[], locale: Locale): string => {
+    const steps = deriveIsolation(formula, target, variableOrder, locale);
+    return steps[steps.length - 1].equation;
+};
+
+// An isolation is accepted when substituting it back into the original formula keeps both sides equal.
+export const isValidIsolation = (formula: string, target: string, isolation: string): boolean => {
+    const original = parseEquation(formula), solved = parseEquation(isolation);
+    if (!(solved.left.kind === 'var' && solved.left.name === target) || collectVariables(solved.right).has(target)) return false;
+    const others = [...collectVariables(original.left), ...collectVariables(original.right)].filter(v => v !== target);
+    let compared = 0;
+    for (let i = 0; i < 12; i++) {
+        const values: Record<string, number> = Object.fromEntries(others.map(v => [v, 0.5 + Math.random() * 9.5]));
+        values[target] = evaluateExpression(solved.right, values);
+        const l = evaluateExpression(original.left, values), r = evaluateExpression(original.right, values);
+        if (!Number.isFinite(l) || !Number.isFinite(r)) continue;
+        if (Math.abs(l - r) > 1e-7 * Math.max(1, Math.abs(l), Math.abs(r))) return false;
+        compared++;
+    }
+    return compared > 0;
+};
+
+export type FormulaDifficulty = 1 | 2 | 3;
+
+export interface FormulaPackEntry {
+  formula: string;
+  variables: string[];
+  topic: string;
+  difficulty: FormulaDifficulty;
+  units?: { [variable: string]: string };
+  answers?: { [variable: string]: string };
+  // The quantities students are asked to isolate; by default every quantity except the one already on the left.
+  targets?: string[];
+}
+
+export interface FormulaPack {
+  id: string;
+  name: string;
+  schoolYear?: string;
+  formulas: FormulaPackEntry[];
+}
+
+export interface LoadedFormula extends FormulaPackEntry {
+  packId: string;
+  // Null when the left side is an expression, as in 1/f = 1/v + 1/b.
+  solvedVariable: string | null;
+  isolations: { [variable: string]: string };
+  // Restricts which variables are asked for: a pack or a class session can limit practice to a few isolations.
+  targetVariables?: string[];
+}
+
+export interface LoadedFormulaPack extends Omit<FormulaPack, 'formulas'> {
+  formulas: LoadedFormula[];
+}
+
+const FORMULA_DIFFICULTIES: FormulaDifficulty[] = [1, 2, 3];
+
+// Checks the entry at `index` (counted from 0) of a pack or session and adds what is wrong with it to `problems`.
+export const loadFormulaEntry = (raw: unknown, index: number, packId: string, problems: string[], locale: Locale = 'nl'): LoadedFormula | null => {
+    const before = problems.length;
+    const report = (key: MessageKey, params: MessageParams = {}) => problems.push(translate(locale, 'packs.error.formula', { n: index + 1, problem: translate(locale, key, params) }));
+    const fields = isRecord(raw) ? raw : {};
+    // Each field is null when it is missing or malformed, so every problem is reported before giving up.
+    const formula = typeof fields.formula === 'string' ? fields.formula : null;
+    const variables = isStringArray(fields.variables) ? fields.variables : null;
+    const topic = typeof fields.topic === 'string' && fields.topic.trim() ? fields.topic : null;
+    const difficulty = isOneOf(FORMULA_DIFFICULTIES, fields.difficulty) ? fields.difficulty : null;
+    const textObject = (key: 'units' | 'answers') => {
+        const value = fields[key];
+        if (value === undefined) return undefined;
+        if (isStringRecord(value)) return value;
+        report('packs.error.textObject', { field: key });
+        return null;
+    };
+    if (formula === null) report('packs.error.missing', { field: 'formula' });
+    if (variables === null) report('packs.error.variables');
+    if (topic === null) report('packs.error.missing', { field: 'topic' });
+    if (difficulty === null) report('packs.error.difficulty');
+    const units = textObject('units'), answers = textObject('answers');
+    if (formula === null || variables === null || topic === null || difficulty === null || units === null || answers === null) return null;
+
+    let equation: { left: Expr; right: Expr };
+    try { equation = parseEquation(formula); }
+    catch (error) { report('packs.error.unreadable', { formula, message: error instanceof ExpressionParseError ? error.localize(locale) : (error as Error).message }); return null; }
+
+    const used = new Set([...collectVariables(equation.left), ...collectVariables(equation.right)]);
+    const missing = [...used].filter(v => !variables.includes(v)), unused = variables.filter(v => !used.has(v));
+    if (missing.length) report('packs.error.notInVariables', { names: missing.join(', ') });
+    if (unused.length) report('packs.error.notInFormula', { names: unused.join(', ') });
+    for (const [variable, unit] of Object.entries(units ?? {})) {
+        if (!variables.includes(variable)) report('packs.error.unitForUnknown', { variable });
+        else try { parseUnit(unit); } catch (error) { report('packs.error.unit', { variable, message: error instanceof UnitError ? error.localize(locale) : (error as Error).message }); }
+    }
+    if (problems.length > before) return null;
+    // With a unit for every quantity, both sides of the formula must have the same dimension.
+    if (units && variables.every(v => v in units)) {
+        const dimensions = Object.fromEntries(variables.map(v => [v, parseUnit(units[v])]));
+        try {
+            const left = dimensionOf(equation.left, dimensions)!, right = dimensionOf(equation.right, dimensions)!;
+            if (!dimensionsEqual(left, right)) report('packs.error.sidesDiffer', { left: formatDimension(left, locale), right: formatDimension(right, locale) });
+        } catch (error) {
+            if (!(error instanceof DimensionMismatchError)) throw error;
+            report('packs.error.sumMismatch', { left: formatDimension(error.left, locale), right: formatDimension(error.right, locale) });
+        }
+    }
+
+    const solvedVariable = equation.left.kind === 'var' ? equation.left.name : null;
+    // Null when the targets are given but not as a list of names.
+    const targets = fields.targets === undefined ? undefined : isStringArray(fields.targets) ? fields.targets : null;
+    if (targets === null || (targets && (targets.length === 0 || !targets.every(t => variables.includes(t) && t !== solvedVariable)))) {
+        report('packs.error.targets');
+        return null;
+    }
+    if (problems.length > before) return null;
+
+    const isolations: { [variable: string]: string } = {};
+    for (const target of targets ?? variables.filter(v => v !== solvedVariable)) {
+        const provided = answers?.[target];
+        try {
+            const isolation = provided ?? isolateVariable(formula, target, variables, locale);
+            if (!isValidIsolation(formula, target, isolation)) report('packs.error.wrongAnswer', { isolation, target });
+            else isolations[target] = isolation;
+        } catch (error) {
+            problems.push(translate(locale, 'packs.error.formula', { n: index + 1, problem: error instanceof ExpressionParseError ? error.localize(locale) : (error as Error).message }));
+        }
+    }
+    if (problems.length > before) return null;
+    return { formula, variables, topic, difficulty, units, answers, targets, packId, solvedVariable, isolations, targetVariables: targets };
+};
+
+export const practiceTargets = (formula: LoadedFormula): string[] => formula.targetVariables ?? formula.variables.filter(v => v !== formula.solvedVariable);
+
+export const loadFormulaPack = (raw: unknown, locale: Locale = 'nl'): LoadedFormulaPack => {
+    const fields = isRecord(raw) ? raw : {};
+    const problems: string[] = [];
+    if (typeof fields.id !== 'string' || !fields.id.trim()) problems.push(translate(locale, 'packs.error.missing', { field: 'id' }));
+    if (typeof fields.name !== 'string' || !fields.name.trim()) problems.push(translate(locale, 'packs.error.missing', { field: 'name' }));
+    if (fields.schoolYear !== undefined && typeof fields.schoolYear !== 'string') problems.push(translate(locale, 'packs.error.schoolYear'));
+    if (!Array.isArray(fields.formulas) || fields.formulas.length === 0) problems.push(translate(locale, 'packs.error.noFormulas'));
+    if (problems.length) throw new FormulaPackError(translate(locale, 'packs.error.invalid'), problems);
+    // The formulas themselves are checked one by one below.
+    const pack = fields as { id: string; name: string; schoolYear?: string; formulas: unknown[] };
+
+    const formulas = pack.formulas
+        .map((entry, index) => loadFormulaEntry(entry, index, pack.id, problems, locale))
+        .filter((f): f is LoadedFormula => f !== null);
+    if (problems.length) throw new FormulaPackError(translate(locale, 'packs.error.hasErrors', { name: pack.name }), problems);
+    return { id: pack.id, name: pack.name, schoolYear: pack.schoolYear, formulas };
+};
+
+// Packs that fail validation are skipped, so one broken upload never blocks the built-in packs.
+export const loadAllFormulaPacks = (userPacks: FormulaPack[]): LoadedFormulaPack[] => [...BUILT_IN_FORMULA_PACKS, ...userPacks].flatMap(pack => {
+    try { return [loadFormulaPack(pack)]; }
+    catch (error) { console.error(`Formulepakket '${pack.id}' overgeslagen:`, error); return []; }
+});
+
+const USER_PACKS_STORAGE_KEY = 'formule-flipper.formulaPacks';
+
+// Stored packs that no longer pass validation are dropped, like stored sessions.
+export const loadStoredFormulaPacks = (): FormulaPack[] => {
+    try {
+        const raw: unknown = JSON.parse(localStorage.getItem(USER_PACKS_STORAGE_KEY) || '[]');
+        return Array.isArray(raw) ? raw.flatMap(p => { try { loadFormulaPack(p); return [p as FormulaPack]; } catch { return []; } }) : [];
+    } catch (e) { console.error("Formulepakketten konden niet geladen worden", e); return []; }
+};
+
+export const storeFormulaPacks = (packs: FormulaPack[]) => {
+    try { localStorage.setItem(USER_PACKS_STORAGE_KEY, JSON.stringify(packs)); }
+    catch (e) { console.error("Formulepakketten konden niet opgeslagen worden", e); }
+};
@@ -0,0 +1,9 @@
+// Narrowing for parsed JSON, so stored and uploaded files are checked field by field before they are trusted.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const isStringRecord = (value: unknown): value is Record<string, string> => isRecord(value) && Object.values(value).every(item => typeof item === 'string');
+
+export const isOneOf = <T,>(options: readonly T[], value: unknown): value is T => (options as readonly unknown[]).includes(value);
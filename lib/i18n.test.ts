@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { Problem } from '../types';
+import { LOCALES, translate } from './i18n';
+import type { MessageKey } from './i18n';
+import { nl } from './locales/nl';
+import { en } from './locales/en';
+import { fr } from './locales/fr';
+import { logChange, startAttemptLog, submitAttempt } from './attemptLog';
+import { parseTypedEquation, serializeSide } from './equationTree';
+import { delocalizeAttemptLog, delocalizeFormula, localizeAttemptLog, localizeFormula, localizeProblem, localizeSymbol } from './quantitySymbols';
+
+describe('translate', () => {
+    it('fills in parameters and follows the plural rules of the locale', () => {
+        expect(translate('nl', 'packs.formulaCount', { count: 1 })).toBe('1 formule');
+        expect(translate('en', 'packs.formulaCount', { count: 3 })).toBe('3 formulas');
+        expect(translate('fr', 'teacher.studentCount', { count: 0 })).toBe('0 élève');
+        expect(translate('en', 'judge.targetGone', { target: 'v' })).toContain('v');
+    });
+
+    it('leaves a missing parameter visible', () => {
+        expect(translate('nl', 'game.streak')).toBe('Streak: {streak}');
+    });
+
+    it('has every message in every language, with the same parameters', () => {
+        const params = (text: string) => [...text.matchAll(/\{(\w+)[}|]/g)].map(([, name]) => name).sort();
+        expect(LOCALES.map(({ locale }) => locale)).toEqual(['nl', 'en', 'fr']);
+        for (const catalog of [en, fr]) {
+            expect(Object.keys(catalog).sort()).toEqual(Object.keys(nl).sort());
+            for (const key of Object.keys(nl) as MessageKey[]) expect(params(catalog[key]), key).toEqual(params(nl[key]));
+        }
+    });
+});
+
+describe('quantity symbols', () => {
+    const weight: Problem = { originalFormula: 'Fz = m * g', targetVariable: 'm', correctAnswer: 'm = Fz / g', symbols: ['Fz', 'm', 'g', '*', '__fraction__'], units: { Fz: 'N', m: 'kg', g: 'N/kg' } };
+
+    it('renames quantities to the conventions of the language', () => {
+        expect(localizeFormula('Fz = m * g', 'en')).toBe('Fg = m * g');
+        expect(localizeFormula('Fz = m * g', 'nl')).toBe('Fz = m * g');
+        expect(localizeProblem(weight, 'fr')).toMatchObject({ originalFormula: 'P = m * g', correctAnswer: 'm = P / g', symbols: ['P', 'm', 'g', '*', '__fraction__'], units: { P: 'N', m: 'kg', g: 'N/kg' } });
+    });
+
+    it('keeps a symbol whose new name already stands for another quantity', () => {
+        expect(localizeSymbol('Fz', 'P = Fz * v', 'fr')).toBe('Fz');
+        expect(localizeFormula('P = Fz * v', 'fr')).toBe('P = Fz * v');
+    });
+
+    it('stores an attempt made in another language in the symbols of the pack', () => {
+        const empty = { left: { items: [] }, right: { items: [] } };
+        const answer = parseTypedEquation('m = Fg / g', ['Fg', 'm', 'g']);
+        const submission = { answer: 'm = Fg / g', isCorrect: true, explanation: '', hintSource: 'local' as const, misconception: null };
+        const log = submitAttempt(logChange(startAttemptLog('Zoë', 'Fz = m * g', 'm', empty, 0), answer, 'type', 1000), submission, 2000);
+        const stored = delocalizeAttemptLog(log, 'en');
+        expect(delocalizeFormula('Fz = m * g', 'en', 'm = Fg / g')).toBe('m = Fz / g');
+        expect(serializeSide(stored.events[0].right)).toBe('Fz/g');
+        expect(stored.submission?.answer).toBe('m = Fz / g');
+        expect(serializeSide(localizeAttemptLog(stored, 'fr').events[0].right)).toBe('P/g');
+        expect(localizeAttemptLog(stored, 'en')).toEqual(log);
+    });
+});
@@ -0,0 +1,48 @@
+import { nl } from './locales/nl';
+import { en } from './locales/en';
+import { fr } from './locales/fr';
+
+export type Locale = 'nl' | 'en' | 'fr';
+
+export type MessageKey = keyof typeof nl;
+
+export type MessageParams = { [name: string]: string | number };
+
+export const LOCALES: { locale: Locale; name: string; dateLocale: string }[] = [
+    { locale: 'nl', name: 'Nederlands', dateLocale: 'nl-BE' },
+    { locale: 'en', name: 'English', dateLocale: 'en-GB' },
+    { locale: 'fr', name: 'Français', dateLocale: 'fr-BE' },
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { nl, en, fr };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(({ locale }) => locale === value);
+
+export const dateLocale = (locale: Locale) => LOCALES.find(l => l.locale === locale)!.dateLocale;
+
+// Fills in `{name}` and picks the form of `{count|one|other}` that the locale's plural rules ask for. A parameter
+// that isn't given is left as it is, so a missing one shows up in the text instead of disappearing.
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+    const plurals = new Intl.PluralRules(locale);
+    return CATALOGS[locale][key]
+        .replace(/\{(\w+)\|([^|{}]*)\|([^|{}]*)\}/g, (match, name: string, one: string, other: string) =>
+            params[name] === undefined ? match : plurals.select(Number(params[name])) === 'one' ? one : other)
+        .replace(/\{(\w+)\}/g, (match, name: string) => params[name] === undefined ? match : String(params[name]));
+};
+
+const LOCALE_STORAGE_KEY = 'formule-flipper.locale';
+
+// Without a stored choice, the browser's language is used when we have a catalog for it.
+export const loadLocale = (): Locale => {
+    try {
+        const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+        if (isLocale(stored)) return stored;
+    } catch { /* no storage available */ }
+    const browser = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2);
+    return isLocale(browser) ? browser : 'nl';
+};
+
+export const saveLocale = (locale: Locale) => {
+    try { localStorage.setItem(LOCALE_STORAGE_KEY, locale); }
+    catch (e) { console.error("Taalkeuze kon niet opgeslagen worden", e); }
+};
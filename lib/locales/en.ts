@@ -0,0 +1,400 @@
+import type { MessageKey } from '../i18n';
+
+export const en: Record<MessageKey, string> = {
+    'app.title': 'Physics Formula Flipper',
+    'common.backToMenu': 'Back to menu',
+    'common.invalidJson': "'{file}' is not a valid JSON file",
+    'common.leftSide': 'Left-hand side',
+    'common.rightSide': 'Right-hand side',
+    'common.nextProblem': 'Next Problem',
+    'common.defaultStudentName': 'Student',
+
+    'error.title': 'Something went wrong',
+    'error.body': "The application couldn't be loaded correctly. Check the browser console for technical details (F12).",
+    'error.details': 'Technical Details',
+
+    'start.tagline': 'Test your knowledge and rearrange formulas like a pro!',
+    'start.name': 'Name:',
+    'start.language': 'Language:',
+    'start.startSession': 'Start session',
+    'start.startSessionDescription': "Solve your teacher's {count} problems. Your results are saved for your teacher.",
+    'start.chooseMode': 'Choose a mode:',
+    'start.classic': 'Classic Mode',
+    'start.classicDescription': 'Practise rearranging formulas at your own pace.',
+    'start.streak': 'Streak Mode',
+    'start.streakDescription': 'How many formulas can you rearrange correctly in a row? One mistake and your run is over.',
+    'start.interaction': 'Method:',
+    'start.interaction.build': 'Build the answer',
+    'start.interaction.transform': 'Rearrange step by step',
+    'start.numericPhase': 'After rearranging, also calculate with numbers',
+    'start.timer': 'Timer per problem (Streak Mode):',
+    'start.timerNone': 'None',
+    'start.maxDifficulty': 'Difficulty up to:',
+    'start.progressOf': "{name}'s progress",
+    'start.export': 'Export',
+    'start.import': 'Import',
+    'start.teacherMode': 'Teacher mode',
+    'start.brokenLink': 'This session link is damaged. Ask your teacher for a new link.',
+    'difficulty.1': 'Basic',
+    'difficulty.2': 'Intermediate',
+    'difficulty.3': 'Challenging',
+
+    'packs.title': 'Formula packs',
+    'packs.formulaCount': '{count} {count|formula|formulas}',
+    'packs.remove': 'Remove {name}',
+    'packs.load': '+ Load formula pack (.json)',
+    'packs.idInUse': "The id '{id}' is already used by a built-in pack",
+
+    'join.joined': 'You are taking part in the session {name} (code {code}).',
+    'join.summary': '{problems} problems from {count} {count|formula|formulas}.',
+    'join.leave': 'Leave session',
+    'join.file': "Open your teacher's session file",
+
+    'game.loading': 'Loading a new problem...',
+    'game.streak': 'Streak: {streak}',
+    'game.time': 'Time: {time}',
+    'game.sessionProgress': '{name} · problem {current} of {total}',
+    'game.instruction': 'Rearrange the formula for the highlighted quantity:',
+    'game.inputMethod': 'Input method',
+    'game.input.drag': 'Drag',
+    'game.input.type': 'Type',
+    'game.fixTypedFirst': 'First fix the mistake in your typed formula',
+    'game.reset': 'Reset',
+    'game.checking': 'Checking...',
+    'game.check': 'Check Answer',
+    'palette.quantities': 'Quantities',
+    'palette.numbers': 'Numbers',
+    'palette.operators': 'Operators',
+
+    'edit.toolbar': 'Edit',
+    'edit.undo': '↶ Undo',
+    'edit.redo': '↷ Redo',
+    'edit.swap': '⇄ Swap sides',
+    'edit.duplicate': 'Duplicate',
+    'edit.wrap-fraction': 'Into fraction',
+    'edit.wrap-sqrt': 'Under root',
+    'edit.unwrap': 'Unwrap',
+
+    'result.correct': 'Correct!',
+    'result.wrong': 'Not quite...',
+    'result.aiHint': 'Hint from the AI:',
+    'result.hint': 'Hint:',
+    'result.units': 'Units:',
+    'result.solution': 'Worked solution:',
+    'result.retry': 'Try again',
+    'result.solvedWithMistakes': 'Solved, with mistakes',
+    'result.stepwiseSolved': 'Solved in {steps} {steps|step|steps}.',
+    'result.stepwiseSolvedWithMistakes': 'Solved in {steps} {steps|step|steps}, with {mistakes} wrong {mistakes|attempt|attempts} along the way.',
+    'numeric.title': 'Now calculate',
+    'numeric.given': 'Given:',
+    'numeric.asked': 'Find: {target}',
+    'numeric.value': 'Value',
+    'numeric.unit': 'Unit',
+    'numeric.check': 'Check',
+    'numeric.showSolution': 'Show the result',
+    'numeric.solution': 'Result: {answer}',
+    'numeric.kind.arithmetic': 'Calculation error',
+    'numeric.kind.unit': 'Unit error',
+    'numeric.feedback.correct': 'Correctly calculated!',
+    'numeric.feedback.significantFigures': 'The value is right, but round to {count} {count|significant figure|significant figures}, as many as the least precise given value.',
+    'numeric.feedback.arithmetic': 'Your unit fits, but the value is wrong. Check your calculation.',
+    'numeric.feedback.conversion': 'Your answer is off by a factor of {factor}. Did you convert every given value to SI units, and does your number match the unit you gave?',
+    'numeric.feedback.unit': "That unit doesn't fit {target}. Look for a unit of {dimension}.",
+    'numeric.feedback.unknownUnit': "'{unit}' is not a unit the game knows. Write for example m/s² or km/h.",
+    'numeric.feedback.unreadable': 'Enter a number, e.g. 12.5 or 3.4e5.',
+    'review.title': 'Review attempt',
+    'review.recent': 'Recent attempts',
+    'review.empty': 'No attempts yet.',
+    'review.onlyWrong': 'Wrong answers only',
+    'review.open': 'Review',
+    'review.step': 'Step {step} of {count}',
+    'review.at': 'after {seconds} s',
+    'review.steps': 'Steps',
+    'review.first': 'To the start',
+    'review.previous': 'Previous step',
+    'review.next': 'Next step',
+    'review.last': 'To the end',
+    'review.play': 'Play',
+    'review.pause': 'Pause',
+    'review.event.start': 'Start',
+    'review.event.drop': 'Added',
+    'review.event.move': 'Moved',
+    'review.event.remove': 'Removed',
+    'review.event.edit': 'Edited',
+    'review.event.swap': 'Sides swapped',
+    'review.event.reset': 'Cleared',
+    'review.event.type': 'Typed',
+    'review.event.undo': 'Undone',
+    'review.event.redo': 'Redone',
+    'review.event.transform': 'Transformed',
+    'review.event.reject': 'Step refused',
+    'review.noChanges': 'Nothing was built on the board in this attempt; when rearranging step by step, the steps are in the answer.',
+    'review.answer': 'Answer:',
+    'review.timeUp': 'Time ran out before there was an answer.',
+    'review.verdict': '{verdict} after {seconds} s',
+    'review.correct': 'Correct',
+    'review.wrong': 'Wrong',
+    'review.close': 'Close',
+    'settings.open': 'Settings',
+    'settings.title': 'Settings',
+    'settings.sound': 'Sound',
+    'settings.volume': 'Volume',
+    'settings.test': 'Test',
+    'settings.sounds': 'Sounds that play:',
+    'settings.sound.click': 'Clicks',
+    'settings.sound.drop': 'Dropping',
+    'settings.sound.success': 'Correct answer',
+    'settings.sound.error': 'Wrong answer',
+    'settings.sound.reset': 'Clearing',
+    'settings.display': 'Display',
+    'settings.motion': 'Animations:',
+    'settings.motion.system': 'Like the device',
+    'settings.motion.reduce': 'Reduced',
+    'settings.motion.full': 'All',
+    'settings.highContrast': 'High contrast',
+    'settings.largeSymbols': 'Larger symbols',
+    'settings.reset': 'Default settings',
+    'settings.close': 'Close',
+
+    'sessionSummary.title': 'Session complete!',
+    'sessionSummary.score': '{name}: {correct} of {attempts} attempts correct, spread over {problems} {problems|problem|problems}.',
+    'sessionSummary.otherDevice': 'Is your teacher working on another device? Then download your results and hand in the file.',
+    'sessionSummary.download': 'Download results',
+    'streakSummary.title': 'Run over!',
+    'streakSummary.finalStreak': 'Your final streak: {streak}',
+    'streakSummary.missed': 'Missed formulas:',
+    'streakSummary.timeUp': 'Time ran out.',
+    'streakSummary.yourAnswer': 'Your answer: {answer}',
+    'streakSummary.newRun': 'New run',
+
+    'zone.defaultLabel': 'Equation',
+    'zone.dropHere': 'Drop here',
+    'zone.remove': 'Remove {name}',
+    'zone.selected': 'Selected: {items}.',
+    'zone.keyboardHelp': 'Left and right arrows move the cursor, also into fractions, roots and powers. Up and down arrows switch between numerator and denominator. '
+        + 'Backspace and Delete remove. Shift with an arrow moves the symbol before the cursor. Type plus, minus, times or brackets to insert them, '
+        + 'slash for a fraction and caret for a square. Pick quantities in the palette with Enter. Control, Shift and an arrow select symbols; '
+        + 'slash then puts the selection in the numerator of a fraction. Alt D duplicates the selection or the symbol before the cursor, Alt B puts it in a fraction, '
+        + 'Alt W under a root and Alt U removes a fraction or root again. Control Z undoes and Control Y redoes.',
+
+    'symbol.insert': 'Insert {name}',
+    'symbol.drag': "Drag '{symbol}'",
+    'symbol.dragWithUnit': "Drag '{symbol}' (unit: {unit})",
+    'symbol.title.__fraction__': 'Drag fraction bar',
+    'symbol.title.__sqrt__': 'Drag square root',
+    'symbol.title.__square__': 'Square',
+    'symbol.title.__power__': 'Power with its own exponent',
+    'symbol.title.__root__': 'n-th root',
+
+    'typed.label': 'Type your rearranged formula, for example {example1} or {example2}:',
+    'typed.errorAt': 'Error at character {position}: {message}.',
+
+    'board.operand': 'Operand X',
+    'board.operandUnreadable': "X couldn't be read: {message}",
+    'board.yourSteps': 'Your steps',
+    'board.stepBack': 'Step back',
+    'transformation.multiply': '× X',
+    'transformation.divide': '÷ X',
+    'transformation.add': '+ X',
+    'transformation.subtract': '− X',
+    'transformation.square': 'Square',
+    'transformation.sqrt': 'Square root',
+    'transformation.swap': 'Swap sides',
+    'judge.divideByZero': "You can't divide by 0.",
+    'judge.multiplyByZero': 'Multiplying by 0 makes both sides 0.',
+    'judge.targetGone': 'After this step {target} has disappeared from the equation.',
+    'judge.bothSides': 'After this step {target} is on both sides of the = sign.',
+    'judge.notCloser': "This step doesn't bring {target} closer to standing alone.",
+    'judge.tip': 'Tip: {tip}.',
+
+    'step.start': 'Starting formula',
+    'step.multiply': 'Multiply both sides by {x}',
+    'step.divide': 'Divide both sides by {x}',
+    'step.add': 'Add {x} to both sides',
+    'step.subtract': 'Subtract {x} from both sides',
+    'step.square': 'Square both sides',
+    'step.sqrt': 'Take the square root of both sides',
+    'step.root': 'Take the root with index {n} of both sides',
+    'step.swap': 'Swap the left-hand and right-hand sides',
+    'solution.step': 'Step {n}: {description}',
+    'solution.previous': 'Previous',
+    'solution.next': 'Next step',
+
+    'progress.label': 'Mastered rearrangements',
+    'progress.summary': '{mastered} of {total} rearrangements mastered · {practicing} in practice',
+    'progress.itemTitle': '{correct}/{attempts} correct · {seconds} s on average',
+    'progress.notPracticed': 'Not practised yet',
+
+    'teacher.title': 'Teacher mode',
+    'teacher.sessions': 'Sessions',
+    'teacher.newSession': '+ New session',
+    'teacher.noSessions': 'No sessions yet.',
+    'teacher.studentCount': '{count} {count|student|students}',
+    'teacher.createToStart': 'Create a session to get started.',
+    'teacher.confirmDelete': 'Delete this session and its results on this device?',
+    'teacher.wrongSession': "'{file}' belongs to session {code}, not to {selected}",
+    'editor.title': 'New session',
+    'editor.name': 'Name:',
+    'editor.namePlaceholder': 'e.g. 10B mechanics',
+    'editor.problemCount': 'Number of problems:',
+    'editor.chooseTargets': 'Choose the quantities students have to isolate:',
+    'editor.cancel': 'Cancel',
+    'editor.create': 'Create session',
+    'dashboard.info': '{count} problems · created on {date}',
+    'dashboard.code': 'Code',
+    'dashboard.share': 'Share the link with your students, or give them the session file. On this device the code is enough.',
+    'dashboard.link': 'Session link',
+    'dashboard.copy': 'Copy link',
+    'dashboard.copied': 'Copied!',
+    'dashboard.sessionFile': 'Session file',
+    'dashboard.loadResults': "Load students' results",
+    'dashboard.exportCsv': 'Export CSV',
+    'dashboard.exportJson': 'Export JSON',
+    'dashboard.delete': 'Delete session',
+    'dashboard.noResults': 'No results for this session yet.',
+    'dashboard.byStudent': 'By student ({count})',
+    'dashboard.inProgress': 'in progress',
+    'dashboard.byFormula': 'By formula',
+    'dashboard.attempts': 'Replay attempts',
+    'results.attempts': 'Attempts',
+    'results.correct': 'Correct',
+    'results.score': 'Score',
+    'results.averageTime': 'Avg. time',
+    'misconceptions.title': 'Common mistakes',
+    'misconceptions.count': 'Times',
+    'misconceptions.students': 'Students',
+    'csv.session': 'session',
+    'csv.student': 'student',
+    'csv.formula': 'formula',
+    'csv.target': 'quantity asked for',
+    'csv.answer': 'answer',
+    'csv.correct': 'correct',
+    'csv.misconception': 'misconception',
+    'csv.duration': 'time (s)',
+    'csv.at': 'timestamp',
+    'csv.yes': 'yes',
+    'csv.no': 'no',
+
+    'verdict.correct': 'Well done! You rearranged the formula correctly.',
+    'verdict.syntax-error': "Your answer couldn't be read. Check that all brackets, fractions and roots are filled in completely.",
+    'verdict.not-isolated': "The quantity asked for doesn't stand alone on one side of the = sign yet.",
+    'verdict.target-on-both-sides': 'The quantity asked for is on both sides of the = sign. Make sure it only appears on one side.',
+    'verdict.not-equivalent': "Your answer isn't equivalent to the original formula. Check that you always did the same operation on the left and on the right.",
+    'verdict.no-reference': 'No reference solution is available for this problem.',
+
+    'misconception.inverted.hint': 'Numerator and denominator are swapped. Look again at which quantities belong above and which below the fraction bar.',
+    'misconception.multiplied-instead-of-divided.hint': 'You multiply where you should divide. A factor that multiplies on the other side is moved across by dividing both sides by it.',
+    'misconception.divided-instead-of-multiplied.hint': 'You divide where you should multiply. A denominator on the other side is moved across by multiplying both sides by it.',
+    'misconception.missing-root.hint': 'You forgot the root. If the quantity asked for is squared, take the square root of both sides at the end.',
+    'misconception.extra-root.hint': 'There is a root too many. You only take a root to get rid of a square of the quantity asked for.',
+    'misconception.missing-power.hint': 'A power got lost. A square belongs to its quantity and moves along with it to the other side.',
+    'misconception.wrong-coefficient.hint': "The quantities are right, but a number isn't. Check factors such as ½, 2 or π.",
+    'misconception.sign-error.hint': "A sign isn't right. What is added on one side is subtracted on the other, and the other way round.",
+    'misconception.target-on-both-sides.hint': 'The quantity asked for is on both sides of the = sign. First bring all terms with that quantity to one side.',
+    'misconception.inverted.label': 'Numerator and denominator swapped',
+    'misconception.multiplied-instead-of-divided.label': 'Multiplied instead of divided',
+    'misconception.divided-instead-of-multiplied.label': 'Divided instead of multiplied',
+    'misconception.missing-root.label': 'Forgot the root',
+    'misconception.extra-root.label': 'Root too many',
+    'misconception.missing-power.label': 'Forgot the power',
+    'misconception.wrong-coefficient.label': 'Wrong number',
+    'misconception.sign-error.label': 'Sign error',
+    'misconception.target-on-both-sides.label': 'Quantity asked for on both sides',
+
+    'units.sidesDiffer': 'Your right-hand side has the unit {right}, the left-hand side {left}.',
+    'units.sumMismatch': 'You add {left} to {right} or subtract them. That only works with the same unit.',
+    'units.none': 'no unit',
+
+    'parse.unexpectedChar': "Unexpected character '{char}'",
+    'parse.missingParen': "A ')' is missing",
+    'parse.unexpectedEnd': 'Unexpected end of the expression',
+    'parse.sqrtNeedsParen': "'sqrt' must be followed by a '('",
+    'parse.empty': 'Empty expression',
+    'parse.extraParen': "There is a ')' too many",
+    'parse.oneEquals': 'An equation must have exactly one = sign',
+    'parse.missingEquals': "An '=' is missing",
+    'parse.multipleEquals': "There is more than one '='",
+    'parse.unknownSymbol': "'{symbol}' is not a quantity of this formula",
+    'parse.emptyLeft': 'The left-hand side is empty',
+    'parse.emptyRight': 'The right-hand side is empty',
+
+    'units.error.invalid': "'{unit}' is not a valid unit",
+    'units.error.unknown': "'{unit}' is not a known unit",
+
+    'isolate.error.occurrences': "'{target}' occurs {count} times in '{formula}' and can't be isolated automatically",
+    'isolate.error.inExponent': "'{target}' is in an exponent in '{formula}'",
+    'isolate.error.impossible': "'{target}' can't be isolated in '{formula}'",
+
+    'packs.error.invalid': 'Invalid formula pack',
+    'packs.error.hasErrors': "Formula pack '{name}' contains errors",
+    'packs.error.missing': "'{field}' is missing",
+    'packs.error.schoolYear': "'schoolYear' must be text",
+    'packs.error.noFormulas': "'formulas' must contain at least one formula",
+    'packs.error.formula': 'Formula {n}: {problem}',
+    'packs.error.variables': "'variables' must be a list of names",
+    'packs.error.difficulty': "'difficulty' must be 1, 2 or 3",
+    'packs.error.textObject': "'{field}' must be an object with text values",
+    'packs.error.unreadable': "'{formula}' is not a valid formula ({message})",
+    'packs.error.notInVariables': "{names} is in the formula but not in 'variables'",
+    'packs.error.notInFormula': "{names} is in 'variables' but not in the formula",
+    'packs.error.unitForUnknown': "'units' names {variable}, which is not in the formula",
+    'packs.error.unit': 'unit of {variable}: {message}',
+    'packs.error.sidesDiffer': 'the left side has the unit {left}, the right side {right}',
+    'packs.error.sumMismatch': 'the formula adds {left} to {right}',
+    'packs.error.targets': "'targets' must list quantities of the formula that aren't isolated yet",
+    'packs.error.wrongAnswer': "'{isolation}' is not a correct rearrangement for {target}",
+
+    'session.error.notSession': 'This is not a Formule Flipper session',
+    'session.error.problemCount': 'The number of problems in the session must be a positive whole number',
+    'session.error.noFormulas': 'The session contains no formulas',
+    'session.error.invalid': 'Invalid session',
+    'session.error.formula': 'Formula {n} of session {code} is invalid',
+    'session.error.notResults': 'This is not a Formule Flipper results file',
+    'session.error.resultsDamaged': 'The results of {name} are damaged',
+
+    'progress.error.notProgress': 'This file contains no Formule Flipper progress',
+    'progress.error.damaged': 'The progress in this file is damaged',
+    'progress.error.studentDamaged': 'The progress of {name} is damaged',
+
+    'speech.empty': 'empty',
+    'speech.plus': 'plus',
+    'speech.minus': 'minus',
+    'speech.times': 'times',
+    'speech.open': 'open bracket',
+    'speech.close': 'close bracket',
+    'speech.square': 'squared',
+    'speech.sqrtSymbol': 'square root',
+    'speech.fractionSymbol': 'fraction',
+    'speech.powerSymbol': 'power',
+    'speech.rootSymbol': 'n-th root',
+    'speech.half': 'one half',
+    'speech.sqrt': 'square root of {content}, end root',
+    'speech.power': 'to the power {exponent}, end power',
+    'speech.root': 'root with index {index} of {content}, end root',
+    'speech.fraction': 'fraction with numerator {numerator} and denominator {denominator}, end fraction',
+    'speech.structure.sqrt': 'the root',
+    'speech.structure.fraction': 'the fraction',
+    'speech.structure.power': 'the power',
+    'speech.structure.root': 'the n-th root',
+    'speech.in.numerator': 'in the numerator',
+    'speech.in.denominator': 'in the denominator',
+    'speech.in.content': 'under the root',
+    'speech.in.exponent': 'in the exponent',
+    'speech.in.index': 'in the root index',
+    'speech.cursor': 'Cursor, {position}.',
+    'speech.cursorIn': 'Cursor {where}, {position}.',
+    'speech.atStart': 'at the start',
+    'speech.after': 'after {name}',
+
+    'prompt.hint': `
+        You are an expert in physics and mathematics. A student had to rearrange a physics formula, but the answer is WRONG.
+
+        Original formula: "{formula}"
+        The student had to rearrange this formula to find the following variable: "{target}"
+        The student's answer is: "{answer}"
+
+        Give your answer ONLY as a JSON object of the form {"hint": "..."}.
+        Give a short, clear and encouraging hint in English that helps the student find the mistake, without giving away the answer directly.`,
+    'prompt.hintField': 'The hint in English.',
+    'hint.mock': 'Check every step of your rearrangement for {target}.',
+};
@@ -0,0 +1,400 @@
+import type { MessageKey } from '../i18n';
+
+export const fr: Record<MessageKey, string> = {
+    'app.title': 'Fysica Formule Flipper',
+    'common.backToMenu': 'Retour au menu',
+    'common.invalidJson': "'{file}' n'est pas un fichier JSON valide",
+    'common.leftSide': 'Membre de gauche',
+    'common.rightSide': 'Membre de droite',
+    'common.nextProblem': 'Exercice suivant',
+    'common.defaultStudentName': 'Élève',
+
+    'error.title': 'Une erreur est survenue',
+    'error.body': "L'application n'a pas pu se charger correctement. Consulte la console du navigateur pour les détails techniques (F12).",
+    'error.details': 'Détails techniques',
+
+    'start.tagline': 'Teste tes connaissances et transforme les formules comme un pro !',
+    'start.name': 'Nom :',
+    'start.language': 'Langue :',
+    'start.startSession': 'Commencer la session',
+    'start.startSessionDescription': 'Résous les {count} exercices de ton professeur. Tes résultats sont conservés pour ton professeur.',
+    'start.chooseMode': 'Choisis un mode :',
+    'start.classic': 'Classic Mode',
+    'start.classicDescription': "Entraîne-toi à transformer des formules à ton rythme.",
+    'start.streak': 'Streak Mode',
+    'start.streakDescription': "Combien de formules peux-tu transformer correctement d'affilée ? Une seule erreur et ta série est terminée.",
+    'start.interaction': 'Méthode :',
+    'start.interaction.build': 'Construire la réponse',
+    'start.interaction.transform': 'Transformer étape par étape',
+    'start.numericPhase': 'Après la transformation, calculer aussi avec des nombres',
+    'start.timer': 'Minuteur par exercice (Streak Mode) :',
+    'start.timerNone': 'Aucun',
+    'start.maxDifficulty': "Difficulté jusqu'à :",
+    'start.progressOf': 'Progression de {name}',
+    'start.export': 'Exporter',
+    'start.import': 'Importer',
+    'start.teacherMode': 'Mode professeur',
+    'start.brokenLink': 'Ce lien de session est endommagé. Demande un nouveau lien à ton professeur.',
+    'difficulty.1': 'De base',
+    'difficulty.2': 'Avancé',
+    'difficulty.3': 'Difficile',
+
+    'packs.title': 'Paquets de formules',
+    'packs.formulaCount': '{count} {count|formule|formules}',
+    'packs.remove': 'Supprimer {name}',
+    'packs.load': '+ Charger un paquet de formules (.json)',
+    'packs.idInUse': "L'identifiant '{id}' est déjà utilisé par un paquet intégré",
+
+    'join.joined': 'Tu participes à la session {name} (code {code}).',
+    'join.summary': '{problems} exercices tirés de {count} {count|formule|formules}.',
+    'join.leave': 'Quitter la session',
+    'join.file': 'Ouvre le fichier de session de ton professeur',
+
+    'game.loading': 'Chargement d\'un nouvel exercice...',
+    'game.streak': 'Série : {streak}',
+    'game.time': 'Temps : {time}',
+    'game.sessionProgress': '{name} · exercice {current} sur {total}',
+    'game.instruction': 'Transforme la formule pour isoler la grandeur en surbrillance :',
+    'game.inputMethod': 'Mode de saisie',
+    'game.input.drag': 'Glisser',
+    'game.input.type': 'Taper',
+    'game.fixTypedFirst': "Corrige d'abord l'erreur dans ta formule tapée",
+    'game.reset': 'Effacer',
+    'game.checking': 'Vérification...',
+    'game.check': 'Vérifier la réponse',
+    'palette.quantities': 'Grandeurs',
+    'palette.numbers': 'Nombres',
+    'palette.operators': 'Signes',
+
+    'edit.toolbar': 'Modifier',
+    'edit.undo': '↶ Annuler',
+    'edit.redo': '↷ Rétablir',
+    'edit.swap': '⇄ Inverser les membres',
+    'edit.duplicate': 'Dupliquer',
+    'edit.wrap-fraction': 'En fraction',
+    'edit.wrap-sqrt': 'Sous racine',
+    'edit.unwrap': 'Extraire',
+
+    'result.correct': 'Correct !',
+    'result.wrong': 'Dommage...',
+    'result.aiHint': "Indice de l'IA :",
+    'result.hint': 'Indice :',
+    'result.units': 'Unités :',
+    'result.solution': 'Solution détaillée :',
+    'result.retry': 'Réessayer',
+    'result.solvedWithMistakes': 'Résolu, avec des erreurs',
+    'result.stepwiseSolved': 'Résolu en {steps} {steps|étape|étapes}.',
+    'result.stepwiseSolvedWithMistakes': 'Résolu en {steps} {steps|étape|étapes}, avec {mistakes} {mistakes|essai erroné|essais erronés} en chemin.',
+    'numeric.title': 'Calcule maintenant',
+    'numeric.given': 'Données :',
+    'numeric.asked': 'Inconnue : {target}',
+    'numeric.value': 'Valeur',
+    'numeric.unit': 'Unité',
+    'numeric.check': 'Vérifier',
+    'numeric.showSolution': 'Afficher le résultat',
+    'numeric.solution': 'Résultat : {answer}',
+    'numeric.kind.arithmetic': 'Erreur de calcul',
+    'numeric.kind.unit': "Erreur d'unité",
+    'numeric.feedback.correct': 'Bien calculé !',
+    'numeric.feedback.significantFigures': 'La valeur est juste, mais arrondis à {count} {count|chiffre significatif|chiffres significatifs}, autant que la donnée la moins précise.',
+    'numeric.feedback.arithmetic': 'Ton unité convient, mais la valeur est fausse. Vérifie ton calcul.',
+    'numeric.feedback.conversion': "Ta réponse diffère d'un facteur {factor}. As-tu converti toutes les données en unités SI, et ton nombre correspond-il à l'unité indiquée ?",
+    'numeric.feedback.unit': 'Cette unité ne convient pas pour {target}. Cherche une unité en {dimension}.',
+    'numeric.feedback.unknownUnit': "« {unit} » n'est pas une unité connue du jeu. Écris par exemple m/s² ou km/h.",
+    'numeric.feedback.unreadable': 'Donne un nombre, par ex. 12,5 ou 3,4e5.',
+    'review.title': 'Revoir la tentative',
+    'review.recent': 'Tentatives récentes',
+    'review.empty': 'Pas encore de tentatives.',
+    'review.onlyWrong': 'Seulement les réponses fausses',
+    'review.open': 'Revoir',
+    'review.step': 'Étape {step} sur {count}',
+    'review.at': 'après {seconds} s',
+    'review.steps': 'Étapes',
+    'review.first': 'Au début',
+    'review.previous': 'Étape précédente',
+    'review.next': 'Étape suivante',
+    'review.last': 'À la fin',
+    'review.play': 'Lire',
+    'review.pause': 'Pause',
+    'review.event.start': 'Début',
+    'review.event.drop': 'Ajouté',
+    'review.event.move': 'Déplacé',
+    'review.event.remove': 'Supprimé',
+    'review.event.edit': 'Modifié',
+    'review.event.swap': 'Membres échangés',
+    'review.event.reset': 'Effacé',
+    'review.event.type': 'Tapé',
+    'review.event.undo': 'Annulé',
+    'review.event.redo': 'Rétabli',
+    'review.event.transform': 'Transformé',
+    'review.event.reject': 'Étape refusée',
+    'review.noChanges': "Rien n'a été construit sur le tableau pendant cette tentative ; en transformant étape par étape, les étapes sont dans la réponse.",
+    'review.answer': 'Réponse :',
+    'review.timeUp': "Le temps était écoulé avant qu'il y ait une réponse.",
+    'review.verdict': '{verdict} après {seconds} s',
+    'review.correct': 'Juste',
+    'review.wrong': 'Faux',
+    'review.close': 'Fermer',
+    'settings.open': 'Réglages',
+    'settings.title': 'Réglages',
+    'settings.sound': 'Son',
+    'settings.volume': 'Volume',
+    'settings.test': 'Tester',
+    'settings.sounds': 'Sons joués :',
+    'settings.sound.click': 'Clics',
+    'settings.sound.drop': 'Dépôt',
+    'settings.sound.success': 'Bonne réponse',
+    'settings.sound.error': 'Mauvaise réponse',
+    'settings.sound.reset': 'Effacement',
+    'settings.display': 'Affichage',
+    'settings.motion': 'Animations :',
+    'settings.motion.system': "Comme l'appareil",
+    'settings.motion.reduce': 'Réduites',
+    'settings.motion.full': 'Toutes',
+    'settings.highContrast': 'Contraste élevé',
+    'settings.largeSymbols': 'Symboles plus grands',
+    'settings.reset': 'Réglages par défaut',
+    'settings.close': 'Fermer',
+
+    'sessionSummary.title': 'Session terminée !',
+    'sessionSummary.score': '{name} : {correct} essais corrects sur {attempts}, répartis sur {problems} {problems|exercice|exercices}.',
+    'sessionSummary.otherDevice': 'Ton professeur travaille sur un autre appareil ? Télécharge alors tes résultats et remets-lui le fichier.',
+    'sessionSummary.download': 'Télécharger les résultats',
+    'streakSummary.title': 'Série terminée !',
+    'streakSummary.finalStreak': 'Ta série finale : {streak}',
+    'streakSummary.missed': 'Formules manquées :',
+    'streakSummary.timeUp': 'Le temps était écoulé.',
+    'streakSummary.yourAnswer': 'Ta réponse : {answer}',
+    'streakSummary.newRun': 'Nouvelle série',
+
+    'zone.defaultLabel': 'Équation',
+    'zone.dropHere': 'Dépose ici',
+    'zone.remove': 'Supprimer {name}',
+    'zone.selected': 'Sélectionné : {items}.',
+    'zone.keyboardHelp': 'Les flèches gauche et droite déplacent le curseur, aussi dans les fractions, racines et puissances. Les flèches haut et bas passent du numérateur au dénominateur. '
+        + 'Retour arrière et Supprimer effacent. Maj avec une flèche déplace le signe avant le curseur. Tape plus, moins, fois ou des parenthèses pour les insérer, '
+        + 'barre oblique pour une fraction et accent circonflexe pour un carré. Choisis les grandeurs dans la palette avec Entrée. Contrôle, Maj et une flèche sélectionnent des signes ; '
+        + 'la barre oblique place alors la sélection au numérateur d\'une fraction. Alt D duplique la sélection ou le signe avant le curseur, Alt B le met dans une fraction, '
+        + 'Alt W sous une racine et Alt U retire une fraction ou une racine. Contrôle Z annule et Contrôle Y rétablit.',
+
+    'symbol.insert': 'Insérer {name}',
+    'symbol.drag': "Glisse '{symbol}'",
+    'symbol.dragWithUnit': "Glisse '{symbol}' (unité : {unit})",
+    'symbol.title.__fraction__': 'Glisse la barre de fraction',
+    'symbol.title.__sqrt__': 'Glisse la racine carrée',
+    'symbol.title.__square__': 'Carré',
+    'symbol.title.__power__': 'Puissance avec son propre exposant',
+    'symbol.title.__root__': 'Racine n-ième',
+
+    'typed.label': 'Tape ta formule transformée, par exemple {example1} ou {example2} :',
+    'typed.errorAt': 'Erreur au caractère {position} : {message}.',
+
+    'board.operand': 'Opérande X',
+    'board.operandUnreadable': "X n'a pas pu être lu : {message}",
+    'board.yourSteps': 'Tes étapes',
+    'board.stepBack': 'Étape précédente',
+    'transformation.multiply': '× X',
+    'transformation.divide': '÷ X',
+    'transformation.add': '+ X',
+    'transformation.subtract': '− X',
+    'transformation.square': 'Élever au carré',
+    'transformation.sqrt': 'Racine carrée',
+    'transformation.swap': 'Inverser les membres',
+    'judge.divideByZero': 'On ne peut pas diviser par 0.',
+    'judge.multiplyByZero': 'Multiplier par 0 rend les deux membres nuls.',
+    'judge.targetGone': 'Après cette étape, {target} a disparu de l\'équation.',
+    'judge.bothSides': 'Après cette étape, {target} se trouve des deux côtés du signe =.',
+    'judge.notCloser': "Cette étape ne rapproche pas {target} de l'isolement.",
+    'judge.tip': 'Astuce : {tip}.',
+
+    'step.start': 'Formule de départ',
+    'step.multiply': 'Multiplie les deux membres par {x}',
+    'step.divide': 'Divise les deux membres par {x}',
+    'step.add': 'Ajoute {x} aux deux membres',
+    'step.subtract': 'Soustrais {x} des deux membres',
+    'step.square': 'Élève les deux membres au carré',
+    'step.sqrt': 'Prends la racine carrée des deux membres',
+    'step.root': "Prends la racine d'indice {n} des deux membres",
+    'step.swap': 'Inverse le membre de gauche et celui de droite',
+    'solution.step': 'Étape {n} : {description}',
+    'solution.previous': 'Précédente',
+    'solution.next': 'Étape suivante',
+
+    'progress.label': 'Transformations maîtrisées',
+    'progress.summary': '{mastered} transformations maîtrisées sur {total} · {practicing} en cours',
+    'progress.itemTitle': '{correct}/{attempts} correctes · {seconds} s en moyenne',
+    'progress.notPracticed': 'Pas encore exercée',
+
+    'teacher.title': 'Mode professeur',
+    'teacher.sessions': 'Sessions',
+    'teacher.newSession': '+ Nouvelle session',
+    'teacher.noSessions': 'Pas encore de sessions.',
+    'teacher.studentCount': '{count} {count|élève|élèves}',
+    'teacher.createToStart': 'Crée une session pour commencer.',
+    'teacher.confirmDelete': 'Supprimer cette session et ses résultats sur cet appareil ?',
+    'teacher.wrongSession': "'{file}' appartient à la session {code}, pas à {selected}",
+    'editor.title': 'Nouvelle session',
+    'editor.name': 'Nom :',
+    'editor.namePlaceholder': 'p. ex. 4B mécanique',
+    'editor.problemCount': "Nombre d'exercices :",
+    'editor.chooseTargets': 'Choisis les grandeurs que les élèves doivent isoler :',
+    'editor.cancel': 'Annuler',
+    'editor.create': 'Créer la session',
+    'dashboard.info': '{count} exercices · créée le {date}',
+    'dashboard.code': 'Code',
+    'dashboard.share': 'Partage le lien avec tes élèves, ou donne-leur le fichier de session. Sur cet appareil, le code suffit.',
+    'dashboard.link': 'Lien de session',
+    'dashboard.copy': 'Copier le lien',
+    'dashboard.copied': 'Copié !',
+    'dashboard.sessionFile': 'Fichier de session',
+    'dashboard.loadResults': 'Charger les résultats des élèves',
+    'dashboard.exportCsv': 'Exporter en CSV',
+    'dashboard.exportJson': 'Exporter en JSON',
+    'dashboard.delete': 'Supprimer la session',
+    'dashboard.noResults': 'Pas encore de résultats pour cette session.',
+    'dashboard.byStudent': 'Par élève ({count})',
+    'dashboard.inProgress': 'en cours',
+    'dashboard.byFormula': 'Par formule',
+    'dashboard.attempts': 'Rejouer les tentatives',
+    'results.attempts': 'Essais',
+    'results.correct': 'Corrects',
+    'results.score': 'Score',
+    'results.averageTime': 'Temps moy.',
+    'misconceptions.title': 'Erreurs fréquentes',
+    'misconceptions.count': 'Fois',
+    'misconceptions.students': 'Élèves',
+    'csv.session': 'session',
+    'csv.student': 'élève',
+    'csv.formula': 'formule',
+    'csv.target': 'grandeur demandée',
+    'csv.answer': 'réponse',
+    'csv.correct': 'correct',
+    'csv.misconception': 'erreur type',
+    'csv.duration': 'temps (s)',
+    'csv.at': 'moment',
+    'csv.yes': 'oui',
+    'csv.no': 'non',
+
+    'verdict.correct': 'Bravo ! Tu as transformé la formule correctement.',
+    'verdict.syntax-error': "Ta réponse n'a pas pu être lue. Vérifie que toutes les parenthèses, fractions et racines sont complètement remplies.",
+    'verdict.not-isolated': "La grandeur demandée n'est pas encore seule d'un côté du signe =.",
+    'verdict.target-on-both-sides': "La grandeur demandée se trouve des deux côtés du signe =. Veille à ce qu'elle n'apparaisse que d'un seul côté.",
+    'verdict.not-equivalent': "Ta réponse n'est pas équivalente à la formule de départ. Vérifie que tu as chaque fois effectué la même opération à gauche et à droite.",
+    'verdict.no-reference': "Aucune solution de référence n'est disponible pour cet exercice.",
+
+    'misconception.inverted.hint': 'Le numérateur et le dénominateur sont inversés. Regarde à nouveau quelles grandeurs vont au-dessus et lesquelles en dessous de la barre de fraction.',
+    'misconception.multiplied-instead-of-divided.hint': "Tu multiplies là où tu dois diviser. Un facteur qui multiplie de l'autre côté se déplace en divisant les deux membres par ce facteur.",
+    'misconception.divided-instead-of-multiplied.hint': "Tu divises là où tu dois multiplier. Un dénominateur de l'autre côté se déplace en multipliant les deux membres par ce dénominateur.",
+    'misconception.missing-root.hint': 'Tu as oublié la racine. Si la grandeur demandée est au carré, prends à la fin la racine carrée des deux membres.',
+    'misconception.extra-root.hint': "Il y a une racine de trop. On ne prend une racine que pour éliminer le carré de la grandeur demandée.",
+    'misconception.missing-power.hint': "Une puissance s'est perdue. Un carré appartient à sa grandeur et passe avec elle de l'autre côté.",
+    'misconception.wrong-coefficient.hint': "Les grandeurs sont correctes, mais un nombre ne l'est pas. Vérifie les facteurs comme ½, 2 ou π.",
+    'misconception.sign-error.hint': "Un signe n'est pas correct. Ce qui est ajouté d'un côté est soustrait de l'autre, et inversement.",
+    'misconception.target-on-both-sides.hint': "La grandeur demandée se trouve des deux côtés du signe =. Regroupe d'abord tous les termes avec cette grandeur d'un seul côté.",
+    'misconception.inverted.label': 'Numérateur et dénominateur inversés',
+    'misconception.multiplied-instead-of-divided.label': 'Multiplié au lieu de divisé',
+    'misconception.divided-instead-of-multiplied.label': 'Divisé au lieu de multiplié',
+    'misconception.missing-root.label': 'Racine oubliée',
+    'misconception.extra-root.label': 'Racine de trop',
+    'misconception.missing-power.label': 'Puissance oubliée',
+    'misconception.wrong-coefficient.label': 'Mauvais nombre',
+    'misconception.sign-error.label': 'Erreur de signe',
+    'misconception.target-on-both-sides.label': 'Grandeur demandée des deux côtés',
+
+    'units.sidesDiffer': "Ton membre de droite a pour unité {right}, celui de gauche {left}.",
+    'units.sumMismatch': "Tu additionnes {left} et {right} ou tu les soustrais. Ce n'est possible qu'avec la même unité.",
+    'units.none': 'sans unité',
+
+    'parse.unexpectedChar': "Caractère inattendu '{char}'",
+    'parse.missingParen': "Il manque une ')'",
+    'parse.unexpectedEnd': "Fin inattendue de l'expression",
+    'parse.sqrtNeedsParen': "'sqrt' doit être suivi d'une '('",
+    'parse.empty': 'Expression vide',
+    'parse.extraParen': "Il y a une ')' de trop",
+    'parse.oneEquals': 'Une équation doit avoir exactement un signe =',
+    'parse.missingEquals': "Il manque un '='",
+    'parse.multipleEquals': "Il y a plus d'un '='",
+    'parse.unknownSymbol': "'{symbol}' n'est pas une grandeur de cette formule",
+    'parse.emptyLeft': 'Le membre de gauche est vide',
+    'parse.emptyRight': 'Le membre de droite est vide',
+
+    'units.error.invalid': "'{unit}' n'est pas une unité valide",
+    'units.error.unknown': "'{unit}' n'est pas une unité connue",
+
+    'isolate.error.occurrences': "'{target}' apparaît {count} fois dans '{formula}' et ne peut pas être isolé automatiquement",
+    'isolate.error.inExponent': "'{target}' se trouve dans un exposant dans '{formula}'",
+    'isolate.error.impossible': "'{target}' ne peut pas être isolé dans '{formula}'",
+
+    'packs.error.invalid': 'Pack de formules invalide',
+    'packs.error.hasErrors': "Le pack de formules '{name}' contient des erreurs",
+    'packs.error.missing': "'{field}' manque",
+    'packs.error.schoolYear': "'schoolYear' doit être du texte",
+    'packs.error.noFormulas': "'formulas' doit contenir au moins une formule",
+    'packs.error.formula': 'Formule {n} : {problem}',
+    'packs.error.variables': "'variables' doit être une liste de noms",
+    'packs.error.difficulty': "'difficulty' doit valoir 1, 2 ou 3",
+    'packs.error.textObject': "'{field}' doit être un objet avec des valeurs texte",
+    'packs.error.unreadable': "'{formula}' n'est pas une formule valide ({message})",
+    'packs.error.notInVariables': "{names} figure dans la formule mais pas dans 'variables'",
+    'packs.error.notInFormula': "{names} figure dans 'variables' mais pas dans la formule",
+    'packs.error.unitForUnknown': "'units' cite {variable}, qui ne figure pas dans la formule",
+    'packs.error.unit': 'unité de {variable} : {message}',
+    'packs.error.sidesDiffer': "le membre de gauche a pour unité {left}, celui de droite {right}",
+    'packs.error.sumMismatch': 'la formule additionne {left} et {right}',
+    'packs.error.targets': "'targets' doit contenir des grandeurs de la formule qui ne sont pas encore isolées",
+    'packs.error.wrongAnswer': "'{isolation}' n'est pas une transformation correcte pour {target}",
+
+    'session.error.notSession': "Ce n'est pas une session de Formule Flipper",
+    'session.error.problemCount': "Le nombre d'exercices de la session doit être un nombre entier positif",
+    'session.error.noFormulas': 'La session ne contient aucune formule',
+    'session.error.invalid': 'Session invalide',
+    'session.error.formula': 'La formule {n} de la session {code} est invalide',
+    'session.error.notResults': "Ce n'est pas un fichier de résultats de Formule Flipper",
+    'session.error.resultsDamaged': 'Les résultats de {name} sont endommagés',
+
+    'progress.error.notProgress': 'Ce fichier ne contient pas de progression de Formule Flipper',
+    'progress.error.damaged': 'La progression dans ce fichier est endommagée',
+    'progress.error.studentDamaged': 'La progression de {name} est endommagée',
+
+    'speech.empty': 'vide',
+    'speech.plus': 'plus',
+    'speech.minus': 'moins',
+    'speech.times': 'fois',
+    'speech.open': 'parenthèse ouvrante',
+    'speech.close': 'parenthèse fermante',
+    'speech.square': 'au carré',
+    'speech.sqrtSymbol': 'racine carrée',
+    'speech.fractionSymbol': 'fraction',
+    'speech.powerSymbol': 'puissance',
+    'speech.rootSymbol': 'racine n-ième',
+    'speech.half': 'un demi',
+    'speech.sqrt': 'racine de {content}, fin de racine',
+    'speech.power': 'puissance {exponent}, fin de puissance',
+    'speech.root': "racine d'indice {index} de {content}, fin de racine",
+    'speech.fraction': 'fraction de numérateur {numerator} et de dénominateur {denominator}, fin de fraction',
+    'speech.structure.sqrt': 'la racine',
+    'speech.structure.fraction': 'la fraction',
+    'speech.structure.power': 'la puissance',
+    'speech.structure.root': 'la racine n-ième',
+    'speech.in.numerator': 'au numérateur',
+    'speech.in.denominator': 'au dénominateur',
+    'speech.in.content': 'sous la racine',
+    'speech.in.exponent': "dans l'exposant",
+    'speech.in.index': "dans l'indice de la racine",
+    'speech.cursor': 'Curseur, {position}.',
+    'speech.cursorIn': 'Curseur {where}, {position}.',
+    'speech.atStart': 'au début',
+    'speech.after': 'après {name}',
+
+    'prompt.hint': `
+        Tu es un expert en physique et en mathématiques. Un élève devait transformer une formule de physique, mais sa réponse est FAUSSE.
+
+        Formule de départ : "{formula}"
+        L'élève devait transformer cette formule pour trouver la variable suivante : "{target}"
+        La réponse de l'élève est : "{answer}"
+
+        Donne ta réponse UNIQUEMENT sous la forme d'un objet JSON {"hint": "..."}.
+        Donne en français un indice court, clair et encourageant qui aide l'élève à trouver l'erreur, sans révéler directement la réponse.`,
+    'prompt.hintField': "L'indice en français.",
+    'hint.mock': 'Vérifie chaque étape de ta transformation vers {target}.',
+};
@@ -0,0 +1,400 @@
+// The reference catalog: every other locale must translate each of these keys. `{name}` is replaced by a
+// parameter; `{count|opgave|opgaven}` picks the singular or plural form for the number in `count`.
+export const nl = {
+    'app.title': 'Fysica Formule Flipper',
+    'common.backToMenu': 'Terug naar menu',
+    'common.invalidJson': "'{file}' is geen geldig JSON-bestand",
+    'common.leftSide': 'Linkerlid',
+    'common.rightSide': 'Rechterlid',
+    'common.nextProblem': 'Volgende Opgave',
+    'common.defaultStudentName': 'Leerling',
+
+    'error.title': 'Er is een fout opgetreden',
+    'error.body': 'De applicatie kon niet correct worden geladen. Controleer de console van de browser voor technische details (F12).',
+    'error.details': 'Technische Details',
+
+    'start.tagline': 'Test je kennis en vorm formules om als een pro!',
+    'start.name': 'Naam:',
+    'start.language': 'Taal:',
+    'start.startSession': 'Start sessie',
+    'start.startSessionDescription': 'Los de {count} opgaven van je leraar op. Je resultaten worden bewaard voor de leraar.',
+    'start.chooseMode': 'Kies een modus:',
+    'start.classic': 'Classic Mode',
+    'start.classicDescription': 'Oefen met het omvormen van formules in je eigen tempo.',
+    'start.streak': 'Streak Mode',
+    'start.streakDescription': 'Hoeveel formules kan jij op rij correct omvormen? Eén fout en je run is voorbij.',
+    'start.interaction': 'Werkwijze:',
+    'start.interaction.build': 'Antwoord opbouwen',
+    'start.interaction.transform': 'Stap voor stap omvormen',
+    'start.numericPhase': 'Na het omvormen ook uitrekenen met getallen',
+    'start.timer': 'Timer per opgave (Streak Mode):',
+    'start.timerNone': 'Geen',
+    'start.maxDifficulty': 'Moeilijkheid tot en met:',
+    'start.progressOf': 'Voortgang van {name}',
+    'start.export': 'Exporteren',
+    'start.import': 'Importeren',
+    'start.teacherMode': 'Leerkrachtmodus',
+    'start.brokenLink': 'Deze sessielink is beschadigd. Vraag je leraar om een nieuwe link.',
+    'difficulty.1': 'Basis',
+    'difficulty.2': 'Gevorderd',
+    'difficulty.3': 'Uitdagend',
+
+    'packs.title': 'Formulepakketten',
+    'packs.formulaCount': '{count} {count|formule|formules}',
+    'packs.remove': 'Verwijder {name}',
+    'packs.load': '+ Formulepakket laden (.json)',
+    'packs.idInUse': "Het id '{id}' is al in gebruik door een ingebouwd pakket",
+
+    'join.joined': 'Je neemt deel aan de sessie {name} (code {code}).',
+    'join.summary': '{problems} opgaven uit {count} {count|formule|formules}.',
+    'join.leave': 'Sessie verlaten',
+    'join.file': 'Open het sessiebestand van je leraar',
+
+    'game.loading': 'Nieuwe opgave laden...',
+    'game.streak': 'Streak: {streak}',
+    'game.time': 'Tijd: {time}',
+    'game.sessionProgress': '{name} · opgave {current} van {total}',
+    'game.instruction': 'Vorm de formule om voor de gemarkeerde grootheid:',
+    'game.inputMethod': 'Invoermethode',
+    'game.input.drag': 'Slepen',
+    'game.input.type': 'Typen',
+    'game.fixTypedFirst': 'Verbeter eerst de fout in je getypte formule',
+    'game.reset': 'Reset',
+    'game.checking': 'Controleren...',
+    'game.check': 'Controleer Antwoord',
+    'palette.quantities': 'Grootheden',
+    'palette.numbers': 'Getallen',
+    'palette.operators': 'Tekens',
+
+    'edit.toolbar': 'Bewerken',
+    'edit.undo': '↶ Ongedaan maken',
+    'edit.redo': '↷ Opnieuw',
+    'edit.swap': '⇄ Wissel leden',
+    'edit.duplicate': 'Dupliceer',
+    'edit.wrap-fraction': 'In breuk',
+    'edit.wrap-sqrt': 'Onder wortel',
+    'edit.unwrap': 'Uitpakken',
+
+    'result.correct': 'Correct!',
+    'result.wrong': 'Helaas...',
+    'result.aiHint': 'Hint van de AI:',
+    'result.hint': 'Hint:',
+    'result.units': 'Eenheden:',
+    'result.solution': 'Uitwerking:',
+    'result.retry': 'Probeer opnieuw',
+    'result.solvedWithMistakes': 'Opgelost, met fouten',
+    'result.stepwiseSolved': 'Opgelost in {steps} {steps|stap|stappen}.',
+    'result.stepwiseSolvedWithMistakes': 'Opgelost in {steps} {steps|stap|stappen}, met {mistakes} foute {mistakes|poging|pogingen} onderweg.',
+    'numeric.title': 'Reken nu uit',
+    'numeric.given': 'Gegeven:',
+    'numeric.asked': 'Gevraagd: {target}',
+    'numeric.value': 'Waarde',
+    'numeric.unit': 'Eenheid',
+    'numeric.check': 'Controleer',
+    'numeric.showSolution': 'Toon de uitkomst',
+    'numeric.solution': 'Uitkomst: {answer}',
+    'numeric.kind.arithmetic': 'Rekenfout',
+    'numeric.kind.unit': 'Eenheidsfout',
+    'numeric.feedback.correct': 'Juist uitgerekend!',
+    'numeric.feedback.significantFigures': 'De waarde klopt, maar rond af op {count} {count|beduidend cijfer|beduidende cijfers}, zoveel als het minst nauwkeurige gegeven.',
+    'numeric.feedback.arithmetic': 'Je eenheid past, maar de waarde klopt niet. Reken nog eens na.',
+    'numeric.feedback.conversion': 'Je antwoord scheelt een factor {factor} met de juiste waarde. Heb je alle gegevens omgezet naar SI-eenheden, en past je getal bij de eenheid die je opgeeft?',
+    'numeric.feedback.unit': 'Die eenheid past niet bij {target}. Zoek een eenheid van {dimension}.',
+    'numeric.feedback.unknownUnit': "'{unit}' is geen eenheid die het spel kent. Schrijf bv. m/s² of km/h.",
+    'numeric.feedback.unreadable': 'Geef een getal, bv. 12,5 of 3,4e5.',
+    'review.title': 'Poging bekijken',
+    'review.recent': 'Recente pogingen',
+    'review.empty': 'Nog geen pogingen.',
+    'review.onlyWrong': 'Alleen foute antwoorden',
+    'review.open': 'Bekijk',
+    'review.step': 'Stap {step} van {count}',
+    'review.at': 'na {seconds} s',
+    'review.steps': 'Stappen',
+    'review.first': 'Naar het begin',
+    'review.previous': 'Vorige stap',
+    'review.next': 'Volgende stap',
+    'review.last': 'Naar het einde',
+    'review.play': 'Afspelen',
+    'review.pause': 'Pauzeren',
+    'review.event.start': 'Begin',
+    'review.event.drop': 'Toegevoegd',
+    'review.event.move': 'Verplaatst',
+    'review.event.remove': 'Verwijderd',
+    'review.event.edit': 'Bewerkt',
+    'review.event.swap': 'Leden gewisseld',
+    'review.event.reset': 'Leeggemaakt',
+    'review.event.type': 'Getypt',
+    'review.event.undo': 'Ongedaan gemaakt',
+    'review.event.redo': 'Opnieuw gedaan',
+    'review.event.transform': 'Omgevormd',
+    'review.event.reject': 'Stap geweigerd',
+    'review.noChanges': 'In deze poging is niets op het bord gebouwd; bij stap voor stap omvormen staan de stappen in het antwoord.',
+    'review.answer': 'Antwoord:',
+    'review.timeUp': 'De tijd was op voor er een antwoord was.',
+    'review.verdict': '{verdict} na {seconds} s',
+    'review.correct': 'Juist',
+    'review.wrong': 'Fout',
+    'review.close': 'Sluiten',
+    'settings.open': 'Instellingen',
+    'settings.title': 'Instellingen',
+    'settings.sound': 'Geluid',
+    'settings.volume': 'Volume',
+    'settings.test': 'Test',
+    'settings.sounds': 'Geluiden die spelen:',
+    'settings.sound.click': 'Klikken',
+    'settings.sound.drop': 'Neerzetten',
+    'settings.sound.success': 'Juist antwoord',
+    'settings.sound.error': 'Fout antwoord',
+    'settings.sound.reset': 'Wissen',
+    'settings.display': 'Weergave',
+    'settings.motion': 'Animaties:',
+    'settings.motion.system': 'Zoals het toestel',
+    'settings.motion.reduce': 'Beperkt',
+    'settings.motion.full': 'Alle',
+    'settings.highContrast': 'Hoog contrast',
+    'settings.largeSymbols': 'Grotere symbolen',
+    'settings.reset': 'Standaardinstellingen',
+    'settings.close': 'Sluiten',
+
+    'sessionSummary.title': 'Sessie klaar!',
+    'sessionSummary.score': '{name}: {correct} van {attempts} pogingen juist, verdeeld over {problems} {problems|opgave|opgaven}.',
+    'sessionSummary.otherDevice': 'Werkt je leraar op een ander toestel? Download dan je resultaten en geef het bestand af.',
+    'sessionSummary.download': 'Resultaten downloaden',
+    'streakSummary.title': 'Run voorbij!',
+    'streakSummary.finalStreak': 'Je eindstreak: {streak}',
+    'streakSummary.missed': 'Gemiste formules:',
+    'streakSummary.timeUp': 'De tijd was op.',
+    'streakSummary.yourAnswer': 'Jouw antwoord: {answer}',
+    'streakSummary.newRun': 'Nieuwe run',
+
+    'zone.defaultLabel': 'Vergelijking',
+    'zone.dropHere': 'Sleep hier',
+    'zone.remove': 'Verwijder {name}',
+    'zone.selected': 'Geselecteerd: {items}.',
+    'zone.keyboardHelp': 'Pijltjes links en rechts verplaatsen de cursor, ook in breuken, wortels en machten. Pijltjes op en neer wisselen tussen teller en noemer. '
+        + 'Backspace en Delete verwijderen. Shift met pijltje verschuift het teken voor de cursor. Typ plus, min, maal of haakjes om ze in te voegen, '
+        + 'slash voor een breuk en dakje voor een kwadraat. Kies grootheden in het palet met Enter. Control, Shift en pijltje selecteren tekens; '
+        + 'slash zet de selectie dan in de teller van een breuk. Alt D verdubbelt de selectie of het teken voor de cursor, Alt B zet het in een breuk, '
+        + 'Alt W onder een wortel en Alt U haalt een breuk of wortel weer weg. Control Z maakt ongedaan en Control Y doet het opnieuw.',
+
+    'symbol.insert': 'Voeg {name} in',
+    'symbol.drag': "Sleep '{symbol}'",
+    'symbol.dragWithUnit': "Sleep '{symbol}' (eenheid: {unit})",
+    'symbol.title.__fraction__': 'Sleep breukstreep',
+    'symbol.title.__sqrt__': 'Sleep vierkantswortel',
+    'symbol.title.__square__': 'Kwadraat',
+    'symbol.title.__power__': 'Macht met eigen exponent',
+    'symbol.title.__root__': 'n-de machtswortel',
+
+    'typed.label': 'Typ je omgevormde formule, bijvoorbeeld {example1} of {example2}:',
+    'typed.errorAt': 'Fout bij teken {position}: {message}.',
+
+    'board.operand': 'Operand X',
+    'board.operandUnreadable': 'X kon niet gelezen worden: {message}',
+    'board.yourSteps': 'Jouw stappen',
+    'board.stepBack': 'Stap terug',
+    'transformation.multiply': '× X',
+    'transformation.divide': '÷ X',
+    'transformation.add': '+ X',
+    'transformation.subtract': '− X',
+    'transformation.square': 'Kwadrateer',
+    'transformation.sqrt': 'Vierkantswortel',
+    'transformation.swap': 'Wissel leden',
+    'judge.divideByZero': 'Delen door 0 kan niet.',
+    'judge.multiplyByZero': 'Vermenigvuldigen met 0 maakt beide leden 0.',
+    'judge.targetGone': 'Na deze stap is {target} uit de vergelijking verdwenen.',
+    'judge.bothSides': 'Na deze stap staat {target} aan beide kanten van het =-teken.',
+    'judge.notCloser': 'Deze stap brengt {target} niet dichter bij het alleen staan.',
+    'judge.tip': 'Tip: {tip}.',
+
+    'step.start': 'Startformule',
+    'step.multiply': 'Vermenigvuldig beide leden met {x}',
+    'step.divide': 'Deel beide leden door {x}',
+    'step.add': 'Tel {x} op bij beide leden',
+    'step.subtract': 'Trek {x} af van beide leden',
+    'step.square': 'Kwadrateer beide leden',
+    'step.sqrt': 'Neem de vierkantswortel van beide leden',
+    'step.root': 'Neem de {n}-de machtswortel van beide leden',
+    'step.swap': 'Wissel het linker- en rechterlid om',
+    'solution.step': 'Stap {n}: {description}',
+    'solution.previous': 'Vorige',
+    'solution.next': 'Volgende stap',
+
+    'progress.label': 'Beheerste omvormingen',
+    'progress.summary': '{mastered} van {total} omvormingen beheerst · {practicing} in oefening',
+    'progress.itemTitle': '{correct}/{attempts} juist · gemiddeld {seconds} s',
+    'progress.notPracticed': 'Nog niet geoefend',
+
+    'teacher.title': 'Leerkrachtmodus',
+    'teacher.sessions': 'Sessies',
+    'teacher.newSession': '+ Nieuwe sessie',
+    'teacher.noSessions': 'Nog geen sessies.',
+    'teacher.studentCount': '{count} {count|leerling|leerlingen}',
+    'teacher.createToStart': 'Maak een sessie aan om te beginnen.',
+    'teacher.confirmDelete': 'Deze sessie en haar resultaten op dit toestel verwijderen?',
+    'teacher.wrongSession': "'{file}' hoort bij sessie {code}, niet bij {selected}",
+    'editor.title': 'Nieuwe sessie',
+    'editor.name': 'Naam:',
+    'editor.namePlaceholder': 'bv. 4B mechanica',
+    'editor.problemCount': 'Aantal opgaven:',
+    'editor.chooseTargets': 'Kies de grootheden die leerlingen moeten vrijmaken:',
+    'editor.cancel': 'Annuleren',
+    'editor.create': 'Sessie aanmaken',
+    'dashboard.info': '{count} opgaven · aangemaakt op {date}',
+    'dashboard.code': 'Code',
+    'dashboard.share': 'Deel de link met je leerlingen, of geef hen het sessiebestand. Op dit toestel volstaat de code.',
+    'dashboard.link': 'Sessielink',
+    'dashboard.copy': 'Kopieer link',
+    'dashboard.copied': 'Gekopieerd!',
+    'dashboard.sessionFile': 'Sessiebestand',
+    'dashboard.loadResults': 'Resultaten van leerlingen laden',
+    'dashboard.exportCsv': 'Exporteer CSV',
+    'dashboard.exportJson': 'Exporteer JSON',
+    'dashboard.delete': 'Sessie verwijderen',
+    'dashboard.noResults': 'Nog geen resultaten voor deze sessie.',
+    'dashboard.byStudent': 'Per leerling ({count})',
+    'dashboard.inProgress': 'bezig',
+    'dashboard.byFormula': 'Per formule',
+    'dashboard.attempts': 'Pogingen afspelen',
+    'results.attempts': 'Pogingen',
+    'results.correct': 'Juist',
+    'results.score': 'Score',
+    'results.averageTime': 'Gem. tijd',
+    'misconceptions.title': 'Veelgemaakte fouten',
+    'misconceptions.count': 'Keer',
+    'misconceptions.students': 'Leerlingen',
+    'csv.session': 'sessie',
+    'csv.student': 'leerling',
+    'csv.formula': 'formule',
+    'csv.target': 'gevraagde grootheid',
+    'csv.answer': 'antwoord',
+    'csv.correct': 'juist',
+    'csv.misconception': 'misvatting',
+    'csv.duration': 'tijd (s)',
+    'csv.at': 'tijdstip',
+    'csv.yes': 'ja',
+    'csv.no': 'nee',
+
+    'verdict.correct': 'Goed gedaan! Je hebt de formule correct omgevormd.',
+    'verdict.syntax-error': 'Je antwoord kon niet gelezen worden. Controleer of alle haakjes, breuken en wortels volledig zijn ingevuld.',
+    'verdict.not-isolated': 'De gevraagde grootheid staat nog niet alleen aan één kant van het =-teken.',
+    'verdict.target-on-both-sides': 'De gevraagde grootheid staat aan beide kanten van het =-teken. Zorg dat ze maar aan één kant voorkomt.',
+    'verdict.not-equivalent': 'Je antwoord is niet gelijkwaardig aan de originele formule. Controleer of je links en rechts telkens dezelfde bewerking hebt uitgevoerd.',
+    'verdict.no-reference': 'Voor deze opgave is geen referentieoplossing beschikbaar.',
+
+    'misconception.inverted.hint': 'Teller en noemer zijn omgewisseld. Kijk nog eens welke grootheden boven en welke onder de breukstreep horen.',
+    'misconception.multiplied-instead-of-divided.hint': 'Je vermenigvuldigt waar je moet delen. Een factor die aan de andere kant vermenigvuldigt, breng je over door beide leden erdoor te delen.',
+    'misconception.divided-instead-of-multiplied.hint': 'Je deelt waar je moet vermenigvuldigen. Een noemer aan de andere kant breng je over door beide leden ermee te vermenigvuldigen.',
+    'misconception.missing-root.hint': 'Je bent de wortel vergeten. Staat de gevraagde grootheid in het kwadraat, dan neem je op het einde de vierkantswortel van beide leden.',
+    'misconception.extra-root.hint': 'Er staat een wortel te veel. Een wortel neem je alleen om een kwadraat van de gevraagde grootheid weg te werken.',
+    'misconception.missing-power.hint': 'Er is een macht verloren gegaan. Een kwadraat hoort bij zijn grootheid en verhuist mee naar de andere kant.',
+    'misconception.wrong-coefficient.hint': 'De grootheden staan goed, maar een getal klopt niet. Controleer factoren zoals ½, 2 of π.',
+    'misconception.sign-error.hint': 'Er klopt een teken niet. Wat aan de ene kant opgeteld wordt, trek je aan de andere kant af, en omgekeerd.',
+    'misconception.target-on-both-sides.hint': 'De gevraagde grootheid staat aan beide kanten van het =-teken. Breng alle termen met die grootheid eerst naar één kant.',
+    'misconception.inverted.label': 'Teller en noemer omgewisseld',
+    'misconception.multiplied-instead-of-divided.label': 'Vermenigvuldigd in plaats van gedeeld',
+    'misconception.divided-instead-of-multiplied.label': 'Gedeeld in plaats van vermenigvuldigd',
+    'misconception.missing-root.label': 'Wortel vergeten',
+    'misconception.extra-root.label': 'Wortel te veel',
+    'misconception.missing-power.label': 'Macht vergeten',
+    'misconception.wrong-coefficient.label': 'Verkeerd getal',
+    'misconception.sign-error.label': 'Tekenfout',
+    'misconception.target-on-both-sides.label': 'Gevraagde grootheid aan beide kanten',
+
+    'units.sidesDiffer': 'Je rechterlid heeft als eenheid {right}, het linkerlid {left}.',
+    'units.sumMismatch': 'Je telt {left} op bij {right} of trekt ze van elkaar af. Dat kan alleen met dezelfde eenheid.',
+    'units.none': 'geen eenheid',
+
+    'parse.unexpectedChar': "Onverwacht teken '{char}'",
+    'parse.missingParen': "Er ontbreekt een ')'",
+    'parse.unexpectedEnd': 'Onverwacht einde van de uitdrukking',
+    'parse.sqrtNeedsParen': "Na 'sqrt' moet een '(' volgen",
+    'parse.empty': 'Lege uitdrukking',
+    'parse.extraParen': "Er staat een ')' te veel",
+    'parse.oneEquals': 'Een vergelijking moet precies één =-teken hebben',
+    'parse.missingEquals': "Er ontbreekt een '='",
+    'parse.multipleEquals': "Er staat meer dan één '='",
+    'parse.unknownSymbol': "'{symbol}' is geen grootheid van deze formule",
+    'parse.emptyLeft': 'Het linkerlid is leeg',
+    'parse.emptyRight': 'Het rechterlid is leeg',
+
+    'units.error.invalid': "'{unit}' is geen geldige eenheid",
+    'units.error.unknown': "'{unit}' is geen gekende eenheid",
+
+    'isolate.error.occurrences': "'{target}' komt {count} keer voor in '{formula}' en kan niet automatisch vrijgemaakt worden",
+    'isolate.error.inExponent': "'{target}' staat in een exponent in '{formula}'",
+    'isolate.error.impossible': "'{target}' kan niet vrijgemaakt worden in '{formula}'",
+
+    'packs.error.invalid': 'Ongeldig formulepakket',
+    'packs.error.hasErrors': "Formulepakket '{name}' bevat fouten",
+    'packs.error.missing': "'{field}' ontbreekt",
+    'packs.error.schoolYear': "'schoolYear' moet tekst zijn",
+    'packs.error.noFormulas': "'formulas' moet minstens één formule bevatten",
+    'packs.error.formula': 'Formule {n}: {problem}',
+    'packs.error.variables': "'variables' moet een lijst van namen zijn",
+    'packs.error.difficulty': "'difficulty' moet 1, 2 of 3 zijn",
+    'packs.error.textObject': "'{field}' moet een object met tekstwaarden zijn",
+    'packs.error.unreadable': "'{formula}' is geen geldige formule ({message})",
+    'packs.error.notInVariables': "{names} staat in de formule maar niet in 'variables'",
+    'packs.error.notInFormula': "{names} staat in 'variables' maar niet in de formule",
+    'packs.error.unitForUnknown': "'units' noemt {variable}, dat niet in de formule staat",
+    'packs.error.unit': 'eenheid van {variable}: {message}',
+    'packs.error.sidesDiffer': 'het linkerlid heeft als eenheid {left}, het rechterlid {right}',
+    'packs.error.sumMismatch': 'de formule telt {left} op bij {right}',
+    'packs.error.targets': "'targets' moet grootheden uit de formule bevatten die nog niet vrijgemaakt zijn",
+    'packs.error.wrongAnswer': "'{isolation}' is geen correcte omvorming naar {target}",
+
+    'session.error.notSession': 'Dit is geen sessie van Formule Flipper',
+    'session.error.problemCount': 'Het aantal opgaven van de sessie moet een positief geheel getal zijn',
+    'session.error.noFormulas': 'De sessie bevat geen formules',
+    'session.error.invalid': 'Ongeldige sessie',
+    'session.error.formula': 'Formule {n} van sessie {code} is ongeldig',
+    'session.error.notResults': 'Dit is geen resultatenbestand van Formule Flipper',
+    'session.error.resultsDamaged': 'De resultaten van {name} zijn beschadigd',
+
+    'progress.error.notProgress': 'Dit bestand bevat geen voortgang van Formule Flipper',
+    'progress.error.damaged': 'De voortgang in dit bestand is beschadigd',
+    'progress.error.studentDamaged': 'De voortgang van {name} is beschadigd',
+
+    'speech.empty': 'leeg',
+    'speech.plus': 'plus',
+    'speech.minus': 'min',
+    'speech.times': 'maal',
+    'speech.open': 'haakje openen',
+    'speech.close': 'haakje sluiten',
+    'speech.square': 'kwadraat',
+    'speech.sqrtSymbol': 'vierkantswortel',
+    'speech.fractionSymbol': 'breuk',
+    'speech.powerSymbol': 'macht',
+    'speech.rootSymbol': 'n-de machtswortel',
+    'speech.half': 'een half',
+    'speech.sqrt': 'wortel uit {content}, einde wortel',
+    'speech.power': 'tot de macht {exponent}, einde macht',
+    'speech.root': 'machtswortel met index {index} uit {content}, einde machtswortel',
+    'speech.fraction': 'breuk met teller {numerator} en noemer {denominator}, einde breuk',
+    'speech.structure.sqrt': 'de wortel',
+    'speech.structure.fraction': 'de breuk',
+    'speech.structure.power': 'de macht',
+    'speech.structure.root': 'de machtswortel',
+    'speech.in.numerator': 'in de teller',
+    'speech.in.denominator': 'in de noemer',
+    'speech.in.content': 'onder de wortel',
+    'speech.in.exponent': 'in de exponent',
+    'speech.in.index': 'in de wortelindex',
+    'speech.cursor': 'Cursor, {position}.',
+    'speech.cursorIn': 'Cursor {where}, {position}.',
+    'speech.atStart': 'aan het begin',
+    'speech.after': 'na {name}',
+
+    'prompt.hint': `
+        Je bent een expert in de fysica en wiskunde. Een leerling moest een natuurkundige formule omvormen, maar het antwoord is FOUT.
+
+        Originele formule: "{formula}"
+        De leerling moest deze formule omvormen om de volgende variabele te vinden: "{target}"
+        Het antwoord van de leerling is: "{answer}"
+
+        Geef je antwoord ALLEEN als een JSON-object van de vorm {"hint": "..."}.
+        Geef een korte, duidelijke en bemoedigende hint in het Nederlands die de leerling helpt de fout te vinden, zonder het antwoord direct te verklappen.`,
+    'prompt.hintField': 'De hint in het Nederlands.',
+    'hint.mock': 'Controleer elke stap van je omvorming naar {target}.',
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { Problem } from '../types';
+import { classifyMisconception } from './misconceptions';
+
+const problem = (originalFormula: string, targetVariable: string, correctAnswer: string): Problem => ({ originalFormula, targetVariable, correctAnswer, symbols: [] });
+
+const gravity = problem('Fz = m * g', 'm', 'm = Fz / g');
+const energy = problem('E = m * c^2', 'c', 'c = sqrt(E / m)');
+const mass = problem('E = m * c^2', 'm', 'm = E / c^2');
+
+describe('classifyMisconception', () => {
+    it.each([
+        ['m = g / Fz', 'inverted', gravity],
+        ['m = Fz * g', 'multiplied-instead-of-divided', gravity],
+        ['F = p / A', 'divided-instead-of-multiplied', problem('p = F / A', 'F', 'F = p * A')],
+        ['c = E / m', 'missing-root', energy],
+        ['m = sqrt(E / c^2)', 'extra-root', mass],
+        ['m = E / c', 'missing-power', mass],
+        ['m = Ek / v^2', 'wrong-coefficient', problem('Ek = ½*m*v^2', 'm', 'm = 2 * Ek / v^2')],
+        ['v0 = v + a * t', 'sign-error', problem('v = v0 + a*t', 'v0', 'v0 = v - a * t')],
+        ['m = Fz / (g * m)', 'target-on-both-sides', gravity],
+    ] as [string, string, Problem][])('classifies %s as %s', (answer, expected, p) => {
+        expect(classifyMisconception(p, answer)).toBe(expected);
+    });
+
+    it('has no misconception for a correct answer or an unrelated mistake', () => {
+        expect(classifyMisconception(gravity, 'm = Fz / g')).toBeNull();
+        expect(classifyMisconception(problem('Epot = m*g*h', 'h', 'h = Epot / (m * g)'), 'h = Epot - m - g')).toBeNull();
+    });
+});
@@ -0,0 +1,65 @@
+import type { Problem } from '../types';
+import { translate } from './i18n';
+import type { Locale } from './i18n';
+import { areExpressionsEquivalent, checkAnswerSymbolically, parseEquation, roundCoefficient, toCanonicalTerms } from './symbolic';
+import type { Expr, Monomial } from './symbolic';
+
+export const MISCONCEPTIONS = [
+    'inverted',
+    'multiplied-instead-of-divided',
+    'divided-instead-of-multiplied',
+    'missing-root',
+    'extra-root',
+    'missing-power',
+    'wrong-coefficient',
+    'sign-error',
+    'target-on-both-sides',
+] as const;
+
+export type Misconception = typeof MISCONCEPTIONS[number];
+
+export const misconceptionHint = (misconception: Misconception, locale: Locale = 'nl'): string => translate(locale, `misconception.${misconception}.hint`);
+
+// Short names for the teacher dashboard.
+export const misconceptionLabel = (misconception: Misconception, locale: Locale = 'nl'): string => translate(locale, `misconception.${misconception}.label`);
+
+const num = (value: number): Expr => ({ kind: 'num', value });
+
+const sameFactors = (a: Monomial, b: Monomial) =>
+    a.factors.size === b.factors.size && [...a.factors].every(([factor, exponent]) => roundCoefficient((b.factors.get(factor) ?? NaN) - exponent) === 0);
+
+const isPlainMonomial = (terms: Monomial[]) => terms.length === 1 && [...terms[0].factors.keys()].every(f => !f.startsWith('('));
+
+// Compares two single-term answers factor by factor: which quantities ended up with the wrong exponent.
+const compareMonomials = (answer: Monomial, reference: Monomial): Misconception | null => {
+    const names = new Set([...answer.factors.keys(), ...reference.factors.keys()]);
+    const differing = [...names].map(name => [answer.factors.get(name) ?? 0, reference.factors.get(name) ?? 0]).filter(([a, r]) => roundCoefficient(a - r) !== 0);
+    if (differing.length === 0) return 'wrong-coefficient';
+    if (differing.every(([a, r]) => roundCoefficient(a + r) === 0)) {
+        if (differing.every(([, r]) => r < 0)) return 'multiplied-instead-of-divided';
+        if (differing.every(([, r]) => r > 0)) return 'divided-instead-of-multiplied';
+    }
+    if (differing.every(([a, r]) => Math.sign(a) === Math.sign(r) && Math.abs(a) < Math.abs(r))) return 'missing-power';
+    return null;
+};
+
+// Recognizes common mistakes by comparing a wrong answer with the reference isolation. Returns null for a
+// correct answer and for mistakes it has no specific hint for.
+export const classifyMisconception = (problem: Problem, userAnswer: string): Misconception | null => {
+    const { verdict } = checkAnswerSymbolically(problem, userAnswer);
+    if (verdict === 'target-on-both-sides') return 'target-on-both-sides';
+    if (verdict !== 'not-equivalent') return null;
+
+    const answerEquation = parseEquation(userAnswer), reference = parseEquation(problem.correctAnswer).right;
+    const answer = answerEquation.left.kind === 'var' && answerEquation.left.name === problem.targetVariable ? answerEquation.right : answerEquation.left;
+    if (areExpressionsEquivalent(answer, { kind: 'pow', base: reference, exponent: num(2) })) return 'missing-root';
+    if (areExpressionsEquivalent(answer, { kind: 'sqrt', arg: reference })) return 'extra-root';
+    if (areExpressionsEquivalent(answer, { kind: 'bin', op: '/', left: num(1), right: reference })) return 'inverted';
+
+    const answerTerms = toCanonicalTerms(answer), referenceTerms = toCanonicalTerms(reference);
+    if (isPlainMonomial(answerTerms) && isPlainMonomial(referenceTerms)) return compareMonomials(answerTerms[0], referenceTerms[0]);
+    // A sign error leaves exactly one term that differs from the reference by twice its own value.
+    const difference = toCanonicalTerms({ kind: 'bin', op: '-', left: answer, right: reference });
+    if (difference.length === 1 && referenceTerms.some(term => sameFactors(term, difference[0]) && roundCoefficient(difference[0].coefficient + 2 * term.coefficient) === 0)) return 'sign-error';
+    return null;
+};
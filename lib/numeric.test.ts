@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { Problem } from '../types';
+import { checkNumericAnswer, createNumericExercise, formatNumber, numericErrorKind, numericFeedback, readNumber } from './numeric';
+import type { NumericExercise } from './numeric';
+import { readUnit } from './units';
+
+const height: Problem = { originalFormula: 'Epot = m*g*h', targetVariable: 'h', correctAnswer: 'h = Epot / (m * g)', symbols: [], units: { Epot: 'J', m: 'kg', g: 'N/kg', h: 'm' } };
+
+// Epot = 49,1 J, m = 2,00 kg and g = 9,81 N/kg give h = 2,50 m.
+const exercise: NumericExercise = {
+    givens: [{ variable: 'Epot', value: 49.1, unit: 'J', significantFigures: 3 }, { variable: 'm', value: 2, unit: 'kg', significantFigures: 3 }, { variable: 'g', value: 9.81, unit: 'N/kg', significantFigures: 3 }],
+    target: 'h', unit: 'm', value: 49.1 / (2 * 9.81), significantFigures: 3,
+};
+
+describe('createNumericExercise', () => {
+    it('uses standard values and computes the target from the givens', () => {
+        let seed = 0;
+        const random = () => (seed = (seed * 9301 + 49297) % 233280) / 233280;
+        for (let i = 0; i < 20; i++) {
+            const created = createNumericExercise(height, random)!;
+            expect(created.givens.find(given => given.variable === 'g')).toMatchObject({ value: 9.81, unit: 'N/kg' });
+            const si = Object.fromEntries(created.givens.map(given => [given.variable, given.value * readUnit(given.unit).factor]));
+            expect(created.value).toBeCloseTo(si.Epot / (si.m * si.g), 9);
+            expect(created.significantFigures).toBe(Math.min(...created.givens.map(given => given.significantFigures)));
+        }
+    });
+
+    it('needs a unit for every quantity', () => {
+        expect(createNumericExercise({ ...height, units: { h: 'm' } })).toBeNull();
+    });
+});
+
+describe('readNumber', () => {
+    it('reads decimal commas, powers of ten and significant figures', () => {
+        expect(readNumber('2,50')).toMatchObject({ value: 2.5, significantFigures: { min: 3, max: 3 } });
+        expect(readNumber('3.4 × 10⁵')).toMatchObject({ value: 340000, significantFigures: { min: 2, max: 2 } });
+        expect(readNumber('1,2e-3')?.value).toBeCloseTo(0.0012);
+        expect(readNumber('0,0120')?.significantFigures).toEqual({ min: 3, max: 3 });
+        expect(readNumber('1200')?.significantFigures).toEqual({ min: 2, max: 4 });
+        expect(readNumber('twee')).toBeNull();
+    });
+});
+
+describe('formatNumber', () => {
+    it('keeps the significant figures and switches to powers of ten', () => {
+        expect(formatNumber(2.5, 3)).toBe('2,50');
+        expect(formatNumber(2.5, 3, 'en')).toBe('2.50');
+        expect(formatNumber(3e8, 3)).toBe('3,00 × 10⁸');
+        expect(formatNumber(5393, 3)).toBe('5390');
+    });
+});
+
+describe('checkNumericAnswer', () => {
+    it('accepts the value in any unit of the right kind', () => {
+        expect(checkNumericAnswer(exercise, '2,50', 'm').verdict).toBe('correct');
+        expect(checkNumericAnswer(exercise, '250', 'cm').verdict).toBe('correct');
+    });
+
+    it('points out a wrong number of significant figures', () => {
+        expect(checkNumericAnswer(exercise, '2,5025', 'm')).toEqual({ verdict: 'significantFigures', isCorrect: true });
+        expect(checkNumericAnswer(exercise, '2,5', 'm')).toEqual({ verdict: 'significantFigures', isCorrect: true });
+    });
+
+    it('judges the value with a fixed tolerance, however few figures are written', () => {
+        expect(checkNumericAnswer(exercise, '3', 'm').verdict).toBe('arithmetic');
+        expect(checkNumericAnswer(exercise, '2', 'm').verdict).toBe('arithmetic');
+        expect(checkNumericAnswer(exercise, '2,48', 'm').verdict).toBe('correct');
+        expect(checkNumericAnswer(exercise, '2,45', 'm').verdict).toBe('arithmetic');
+        const large: NumericExercise = { ...exercise, value: 1234, significantFigures: 3 };
+        expect(checkNumericAnswer(large, '1000', 'm').verdict).toBe('arithmetic');
+        expect(checkNumericAnswer(large, '1230', 'm').verdict).toBe('correct');
+    });
+
+    it('accepts a value rounded to two significant figures even when rounding moves it past the tolerance', () => {
+        const rounding: NumericExercise = { ...exercise, value: 1.05, significantFigures: 2 };
+        expect(checkNumericAnswer(rounding, '1,1', 'm').verdict).toBe('correct');
+        expect(checkNumericAnswer(rounding, '110', 'cm').verdict).toBe('correct');
+        expect(checkNumericAnswer(rounding, '1,2', 'm').verdict).toBe('arithmetic');
+    });
+
+    it('tells arithmetic errors apart from unit errors', () => {
+        expect(checkNumericAnswer(exercise, '4,91', 'm').verdict).toBe('arithmetic');
+        expect(checkNumericAnswer(exercise, '2,50', 'cm')).toMatchObject({ verdict: 'conversion', factor: 100 });
+        expect(checkNumericAnswer(exercise, '2,50', 'm/s').verdict).toBe('unit');
+        expect(checkNumericAnswer(exercise, '2,50', 'meter').verdict).toBe('unknownUnit');
+        expect(checkNumericAnswer(exercise, 'veel', 'm').verdict).toBe('unreadable');
+        expect(numericErrorKind('arithmetic')).toBe('arithmetic');
+        expect(numericErrorKind('conversion')).toBe('unit');
+    });
+
+    it('explains the error in the chosen language', () => {
+        expect(numericFeedback(checkNumericAnswer(exercise, '2,50', 'm/s'), exercise, 'm/s')).toBe('Die eenheid past niet bij h. Zoek een eenheid van m.');
+        expect(numericFeedback(checkNumericAnswer(exercise, '2,50', 'cm'), exercise, 'cm', 'en')).toContain('factor of 100');
+    });
+});
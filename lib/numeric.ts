@@ -0,0 +1,182 @@
+import type { Problem } from '../types';
+import { dateLocale, translate } from './i18n';
+import type { Locale } from './i18n';
+import { collectVariables, evaluateExpression, parseEquation } from './symbolic';
+import { UnitError, dimensionsEqual, formatDimension, parseUnit, readUnit, toSuperscript } from './units';
+import type { UnitDefinition } from './units';
+
+// A given value as the student sees it, e.g. h = 35,0 cm.
+export interface GivenValue { variable: string; value: number; unit: string; significantFigures: number; }
+
+export interface NumericExercise {
+    givens: GivenValue[];
+    target: string;
+    // The unit of the target in the formula pack, and the expected value in that unit.
+    unit: string;
+    value: number;
+    // As many as the least precise given value.
+    significantFigures: number;
+}
+
+// Typical magnitudes in SI, so the givens look like those of a real exercise. Units are matched by dimension,
+// so a g in N/kg uses the range of m/s².
+const TYPICAL_RANGES: [string, number, number][] = [
+    ['kg', 0.2, 80], ['m', 0.5, 40], ['s', 0.5, 60], ['m/s', 1, 30], ['m/s²', 0.5, 10], ['1/s²', 0.5, 20], ['1', 0.2, 6],
+    ['N', 1, 800], ['Pa', 1e3, 2e5], ['m²', 0.01, 2], ['m³', 1e-3, 2], ['kg/m³', 500, 8000], ['J', 10, 5000], ['W', 10, 2000],
+    ['V', 1.5, 230], ['A', 0.1, 10], ['Ω', 1, 1000], ['K', 5, 80], ['J/(kg·K)', 400, 4200],
+];
+
+// Quantities that always have the same value, matched by symbol and unit; the c of Q = m*c*ΔT still gets a range.
+const STANDARD_VALUES: [string, string, number][] = [['g', 'm/s²', 9.81], ['c', 'm/s', 3.00e8]];
+
+// Other units a given can be written in, to practise converting. One is only used when the value reads naturally in it.
+const DISPLAY_UNITS: [string, string[]][] = [
+    ['m', ['cm', 'mm', 'km']], ['kg', ['g']], ['s', ['min', 'ms']], ['m/s', ['km/h']], ['J', ['kJ']], ['W', ['kW']],
+    ['Pa', ['kPa', 'hPa']], ['m²', ['cm²']], ['m³', ['L', 'cm³']], ['A', ['mA']], ['Ω', ['kΩ']],
+];
+
+// How far an answer may be from the value computed with the rounded givens, relative to that value.
+const NUMERIC_TOLERANCE = 0.01;
+
+// Factors by which an answer is off when a unit wasn't converted, such as cm to m or km/h to m/s.
+const CONVERSION_FACTORS = [...[1, 2, 3, 6, 9].flatMap(n => [10 ** n, 10 ** -n]), 60, 1 / 60, 3600, 1 / 3600, 3.6, 1 / 3.6];
+
+const roundTo = (value: number, significantFigures: number) => Number(value.toPrecision(significantFigures));
+
+// A realistic value in SI, with the number of significant figures it is given with.
+interface PickedValue { si: number; significantFigures: number; }
+
+const typicalRange = (unit: string): [number, number] => {
+    const [, min, max] = TYPICAL_RANGES.find(([rangeUnit]) => dimensionsEqual(parseUnit(rangeUnit), parseUnit(unit))) ?? [unit, 1, 100];
+    return [min, max];
+};
+
+const pickValue = (variable: string, unit: string, random: () => number): PickedValue => {
+    const standard = STANDARD_VALUES.find(([symbol, standardUnit]) => symbol === variable && dimensionsEqual(parseUnit(standardUnit), parseUnit(unit)));
+    if (standard) return { si: standard[2], significantFigures: 3 };
+    const [min, max] = typicalRange(unit);
+    const significantFigures = random() < 0.5 ? 2 : 3;
+    return { si: roundTo(min * (max / min) ** random(), significantFigures), significantFigures };
+};
+
+// Writes a value in the unit of the formula pack, or now and then in another unit of the same kind.
+const presentValue = (variable: string, unit: string, { si, significantFigures }: PickedValue, random: () => number): GivenValue => {
+    const dimension = parseUnit(unit);
+    const alternatives = (DISPLAY_UNITS.find(([siUnit]) => dimensionsEqual(parseUnit(siUnit), dimension))?.[1] ?? [])
+        .filter(alternative => { const value = si / readUnit(alternative).factor; return value >= 1 && value < 1000; });
+    const shownUnit = alternatives.length > 0 && random() < 0.5 ? alternatives[Math.floor(random() * alternatives.length)] : unit;
+    return { variable, value: roundTo(si / readUnit(shownUnit).factor, significantFigures), unit: shownUnit, significantFigures };
+};
+
+// Picks givens for the other quantities of an isolated formula and computes the target from them. Returns null when
+// the formula has no unit for every quantity, or when no values give a positive result.
+export const createNumericExercise = (problem: Problem, random: () => number = Math.random): NumericExercise | null => {
+    const units = problem.units;
+    const target = problem.targetVariable;
+    const { left, right } = parseEquation(problem.correctAnswer);
+    const expression = left.kind === 'var' && left.name === target ? right : left;
+    const variables = [...collectVariables(expression)];
+    // Values are picked for the quantities the formula is written in terms of, the target included, so that the target
+    // is realistic too: from Fz = m * g the student works out an m, never a g far from 9,81 N/kg.
+    const formula = parseEquation(problem.originalFormula);
+    const solved = formula.left.kind === 'var' && formula.left.name !== target ? formula.left.name : null;
+    const picked = solved ? [...collectVariables(formula.right)] : variables;
+    const quantities = [target, ...variables, ...picked];
+    if (!units || !quantities.every(variable => variable in units)) return null;
+    try { quantities.forEach(variable => readUnit(units[variable])); }
+    catch (error) { if (error instanceof UnitError) return null; throw error; }
+    for (let attempt = 0; attempt < 100; attempt++) {
+        const values: { [variable: string]: PickedValue } = Object.fromEntries(picked.map(variable => [variable, pickValue(variable, units[variable], random)]));
+        if (solved) {
+            const si = evaluateExpression(formula.right, Object.fromEntries(picked.map(variable => [variable, values[variable].si])));
+            if (!(Number.isFinite(si) && si > 0)) continue;
+            // The first tries also keep the computed quantity realistic; some formulas, such as E = m * c^2, never do.
+            const [min, max] = typicalRange(units[solved]);
+            if (attempt < 50 && (si < min || si > max)) continue;
+            values[solved] = { si, significantFigures: random() < 0.5 ? 2 : 3 };
+        }
+        const givens = variables.map(variable => presentValue(variable, units[variable], values[variable], random));
+        const si = evaluateExpression(expression, Object.fromEntries(givens.map(given => [given.variable, given.value * readUnit(given.unit).factor])));
+        if (Number.isFinite(si) && si > 0) {
+            return { givens, target, unit: units[target], value: si / readUnit(units[target]).factor, significantFigures: Math.min(...givens.map(given => given.significantFigures)) };
+        }
+    }
+    return null;
+};
+
+// Writes a number with a fixed number of significant figures, in powers of ten when it is very large or small.
+export const formatNumber = (value: number, significantFigures: number, locale: Locale = 'nl'): string => {
+    if (value === 0) return '0';
+    const [mantissa, exponentText] = value.toExponential(significantFigures - 1).split('e');
+    const exponent = Number(exponentText);
+    const written = exponent >= -3 && exponent < 4 ? roundTo(value, significantFigures).toFixed(Math.max(0, significantFigures - 1 - exponent)) : `${mantissa} × 10${toSuperscript(exponent)}`;
+    return written.replace('.', locale === 'en' ? '.' : ',');
+};
+
+interface ReadNumber {
+    value: number;
+    // Trailing zeros of a whole number may or may not be significant: 1200 has two to four significant figures.
+    significantFigures: { min: number; max: number };
+}
+
+// Reads a number as a student types it: 12,5 or 12.5, 3,4e5, 3.4 × 10^5 or 3,4·10⁵.
+export const readNumber = (text: string): ReadNumber | null => {
+    const written = text.replace(/\s+/g, '').replace(/−/g, '-')
+        .replace(/[⁻⁺]?[⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, run => `^${[...run].map(ch => ch === '⁻' ? '-' : ch === '⁺' ? '+' : '⁰¹²³⁴⁵⁶⁷⁸⁹'.indexOf(ch)).join('')}`);
+    const match = /^([+-]?)(\d*)(?:[.,](\d*))?(?:(?:[eE]|[x×·*]10\^)([+-]?\d+))?$/.exec(written);
+    if (!match || !(match[2] + (match[3] ?? ''))) return null;
+    const [, sign, whole, fraction, exponentText] = match;
+    const exponent = Number(exponentText ?? 0);
+    const digits = `${whole}${fraction ?? ''}`.replace(/^0+/, '');
+    const trailingZeros = fraction === undefined ? digits.length - digits.replace(/0+$/, '').length : 0;
+    return {
+        value: Number(`${sign}${whole || '0'}.${fraction ?? ''}`) * 10 ** exponent,
+        significantFigures: { min: Math.max(1, digits.length - trailingZeros), max: Math.max(1, digits.length) },
+    };
+};
+
+export type NumericVerdict = 'correct' | 'significantFigures' | 'arithmetic' | 'conversion' | 'unit' | 'unknownUnit' | 'unreadable';
+
+export interface NumericCheck { verdict: NumericVerdict; isCorrect: boolean; factor?: number; }
+
+// Compares the student's value and unit with the expected result. The unit may be any unit of the right kind: an
+// answer in cm is converted before it is compared with a target in m.
+export const checkNumericAnswer = (exercise: NumericExercise, valueText: string, unitText: string): NumericCheck => {
+    const answer = readNumber(valueText);
+    if (!answer) return { verdict: 'unreadable', isCorrect: false };
+    let unit: UnitDefinition;
+    try { unit = readUnit(unitText); }
+    catch (error) { if (error instanceof UnitError) return { verdict: 'unknownUnit', isCorrect: false }; throw error; }
+    const expectedUnit = readUnit(exercise.unit);
+    if (!dimensionsEqual(unit.dimension, expectedUnit.dimension)) return { verdict: 'unit', isCorrect: false };
+    const si = answer.value * unit.factor, expected = exercise.value * expectedUnit.factor;
+    // The value is judged on its own; the significant figures only decide between 'correct' and a note about them. With
+    // two significant figures, correct rounding can be further off than the tolerance, so the rounded value always counts.
+    const rounded = roundTo(expected / unit.factor, exercise.significantFigures);
+    if (Math.abs(si - expected) <= NUMERIC_TOLERANCE * Math.abs(expected) || Math.abs(answer.value - rounded) <= 1e-9 * Math.abs(rounded)) {
+        const { min, max } = answer.significantFigures;
+        return exercise.significantFigures >= min && exercise.significantFigures <= max ? { verdict: 'correct', isCorrect: true } : { verdict: 'significantFigures', isCorrect: true };
+    }
+    const factor = CONVERSION_FACTORS.find(f => Math.abs(si / (expected * f) - 1) <= 2 * NUMERIC_TOLERANCE);
+    return factor ? { verdict: 'conversion', isCorrect: false, factor: Math.max(factor, 1 / factor) } : { verdict: 'arithmetic', isCorrect: false };
+};
+
+// Whether a wrong answer is a calculation error or a unit error; a conversion that was forgotten counts as a unit error.
+export const numericErrorKind = (verdict: NumericVerdict): 'arithmetic' | 'unit' | null => {
+    switch (verdict) {
+        case 'arithmetic': return 'arithmetic';
+        case 'conversion': case 'unit': case 'unknownUnit': return 'unit';
+        default: return null;
+    }
+};
+
+export const numericFeedback = (check: NumericCheck, exercise: NumericExercise, unitText: string, locale: Locale = 'nl'): string => translate(locale, `numeric.feedback.${check.verdict}`, {
+    count: exercise.significantFigures,
+    factor: check.factor ? Number(check.factor.toPrecision(2)).toLocaleString(dateLocale(locale)) : '',
+    target: exercise.target,
+    dimension: formatDimension(parseUnit(exercise.unit), locale),
+    unit: unitText.trim(),
+});
+
+export const formatNumericResult = (exercise: NumericExercise, locale: Locale = 'nl'): string =>
+    `${exercise.target} = ${formatNumber(exercise.value, exercise.significantFigures, locale)} ${exercise.unit}`.trim();
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PREFERENCES, parsePreferences, shouldReduceMotion } from './preferences';
+
+describe('parsePreferences', () => {
+    it('keeps valid settings and falls back to the default for each invalid one', () => {
+        expect(parsePreferences({ volume: 1.5, mutedSounds: ['drop', 'boom'], motion: 'reduce', highContrast: 'yes', largeSymbols: true }))
+            .toEqual({ ...DEFAULT_PREFERENCES, volume: 1, mutedSounds: ['drop'], motion: 'reduce', largeSymbols: true });
+        expect(parsePreferences(null)).toEqual(DEFAULT_PREFERENCES);
+    });
+});
+
+describe('shouldReduceMotion', () => {
+    it('follows the device unless the student chose otherwise', () => {
+        expect(shouldReduceMotion(DEFAULT_PREFERENCES, true)).toBe(true);
+        expect(shouldReduceMotion({ ...DEFAULT_PREFERENCES, motion: 'full' }, true)).toBe(false);
+        expect(shouldReduceMotion({ ...DEFAULT_PREFERENCES, motion: 'reduce' }, false)).toBe(true);
+    });
+});
@@ -0,0 +1,51 @@
+import { isOneOf, isRecord } from './guards';
+
+export const SOUND_EVENTS = ['click', 'drop', 'success', 'error', 'reset'] as const;
+
+export type SoundEvent = typeof SOUND_EVENTS[number];
+
+// 'system' follows the prefers-reduced-motion setting of the device.
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+// Settings of the device rather than of a student, so they stay the same when another name is entered.
+export interface Preferences {
+  // From 0 to 1, applied on top of each sound's own volume.
+  volume: number;
+  mutedSounds: SoundEvent[];
+  motion: MotionPreference;
+  highContrast: boolean;
+  largeSymbols: boolean;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = { volume: 0.8, mutedSounds: [], motion: 'system', highContrast: false, largeSymbols: false };
+
+const PREFERENCES_STORAGE_KEY = 'formule-flipper.preferences';
+
+const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduce', 'full'];
+
+// Settings that are missing or invalid fall back to their default one by one, so a setting added later doesn't
+// discard the others.
+export const parsePreferences = (raw: unknown): Preferences => {
+    const stored = isRecord(raw) ? raw : {};
+    const mutedSounds: unknown = stored.mutedSounds;
+    return {
+        volume: typeof stored.volume === 'number' && Number.isFinite(stored.volume) ? Math.min(1, Math.max(0, stored.volume)) : DEFAULT_PREFERENCES.volume,
+        mutedSounds: Array.isArray(mutedSounds) ? SOUND_EVENTS.filter(event => mutedSounds.includes(event)) : DEFAULT_PREFERENCES.mutedSounds,
+        motion: isOneOf(MOTION_PREFERENCES, stored.motion) ? stored.motion : DEFAULT_PREFERENCES.motion,
+        highContrast: typeof stored.highContrast === 'boolean' ? stored.highContrast : DEFAULT_PREFERENCES.highContrast,
+        largeSymbols: typeof stored.largeSymbols === 'boolean' ? stored.largeSymbols : DEFAULT_PREFERENCES.largeSymbols,
+    };
+};
+
+export const loadPreferences = (): Preferences => {
+    try { return parsePreferences(JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) || '{}')); }
+    catch (e) { console.error("Instellingen konden niet geladen worden", e); return DEFAULT_PREFERENCES; }
+};
+
+export const savePreferences = (preferences: Preferences) => {
+    try { localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences)); }
+    catch (e) { console.error("Instellingen konden niet opgeslagen worden", e); }
+};
+
+export const shouldReduceMotion = (preferences: Preferences, systemPrefersReducedMotion: boolean): boolean =>
+    preferences.motion === 'system' ? systemPrefersReducedMotion : preferences.motion === 'reduce';
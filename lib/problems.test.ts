@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_FORMULA_PACKS, STANDARD_SYMBOLS } from '../constants';
+import { loadFormulaPack } from './formulaPacks';
+import { getPhysicsProblem } from './problems';
+import { progressKey } from './progress';
+import type { StudentProgress } from './progress';
+
+const [ohm] = loadFormulaPack(BUILT_IN_FORMULA_PACKS.find(p => p.id === 'elektriciteit')).formulas;
+const mechanics = loadFormulaPack(BUILT_IN_FORMULA_PACKS.find(p => p.id === 'mechanica')).formulas;
+
+describe('getPhysicsProblem', () => {
+    it('asks for a variable other than the one already solved for', () => {
+        const problem = getPhysicsProblem([ohm]);
+        expect(problem.originalFormula).toBe('R = U / I');
+        expect(['U', 'I']).toContain(problem.targetVariable);
+        expect(problem.correctAnswer).toBe(ohm.isolations[problem.targetVariable]);
+    });
+
+    it('offers the formula variables and the standard symbols', () => {
+        const problem = getPhysicsProblem([ohm]);
+        expect(problem.symbols).toEqual(expect.arrayContaining(['R', 'U', 'I', ...STANDARD_SYMBOLS]));
+        expect(new Set(problem.symbols).size).toBe(problem.symbols.length);
+    });
+
+    it('offers the numbers and constants of the formula and its reference answer', () => {
+        const pendulum = { ...mechanics.find(f => f.formula === 'T = 2π*sqrt(l/g)')!, targetVariables: ['l'] };
+        expect(getPhysicsProblem([pendulum]).symbols).toEqual(expect.arrayContaining(['2', 'π', '4']));
+    });
+
+    it('does not repeat the previous problem when there is an alternative', () => {
+        const previous = getPhysicsProblem([ohm]);
+        for (let i = 0; i < 20; i++) expect(getPhysicsProblem([ohm], null, previous).targetVariable).not.toBe(previous.targetVariable);
+    });
+
+    it('only asks for the target variables a formula is limited to', () => {
+        for (let i = 0; i < 20; i++) expect(getPhysicsProblem([{ ...ohm, targetVariables: ['I'] }]).targetVariable).toBe('I');
+    });
+
+    it('picks a due isolation before unseen ones', () => {
+        const [epot] = mechanics.filter(f => f.formula === 'Epot = m*g*h');
+        const key = progressKey(epot.formula, 'h');
+        const progress: StudentProgress = { studentName: 'test', items: { [key]: { formula: epot.formula, targetVariable: 'h', attempts: 2, correct: 0, totalTimeMs: 0, box: 0, lastAttemptAt: 0, dueAt: 0 } } };
+        const problem = getPhysicsProblem(mechanics, progress);
+        expect(progressKey(problem.originalFormula, problem.targetVariable)).toBe(key);
+    });
+});
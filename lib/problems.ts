@@ -0,0 +1,16 @@
+import type { Problem } from '../types';
+import { STANDARD_SYMBOLS } from '../constants';
+import type { LoadedFormula } from './formulaPacks';
+import { collectConstants, parseEquation } from './symbolic';
+import { progressKey, scheduleNextProblem } from './progress';
+import type { StudentProgress } from './progress';
+
+export const getPhysicsProblem = (formulas: LoadedFormula[], progress: StudentProgress | null = null, previous: Problem | null = null): Problem => {
+    const previousKey = previous && progressKey(previous.originalFormula, previous.targetVariable);
+    const { formula: { formula, variables, isolations, units }, targetVariable } = scheduleNextProblem(formulas, progress, previousKey);
+    // Numbers and constants such as ½ and π come from both the formula and the reference answer, which may need a 4 for (2π)².
+    const constants = new Set<string>();
+    for (const equation of [formula, isolations[targetVariable]]) { const { left, right } = parseEquation(equation); collectConstants(left, constants); collectConstants(right, constants); }
+    const combinedSymbols = [...new Set([...variables, ...constants, ...STANDARD_SYMBOLS])];
+    return { originalFormula: formula, targetVariable, correctAnswer: isolations[targetVariable], symbols: combinedSymbols, units };
+};
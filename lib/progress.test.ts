@@ -0,0 +1,114 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { REVIEW_INTERVALS_MS } from '../constants';
+import { loadFormulaPack } from './formulaPacks';
+import { loadCurrentStudentName, loadDefaultStudentName, mergeProgressStores, parseProgressStore, progressKey, recordAttempt, saveCurrentStudentName, scheduleNextProblem } from './progress';
+import type { ProgressItem, ProgressStore, StudentProgress } from './progress';
+
+const formulas = loadFormulaPack({ id: 'x', name: 'X', formulas: [
+    { formula: 'F = m * a', variables: ['F', 'm', 'a'], topic: 'Krachten', difficulty: 1 },
+    { formula: 'R = U / I', variables: ['R', 'U', 'I'], topic: 'Weerstand', difficulty: 1 },
+] }).formulas;
+
+const item = (formula: string, targetVariable: string, fields: Partial<ProgressItem> = {}): ProgressItem =>
+    ({ formula, targetVariable, attempts: 1, correct: 1, totalTimeMs: 1000, box: 1, lastAttemptAt: 0, dueAt: 0, ...fields });
+
+const progressOf = (...items: ProgressItem[]): StudentProgress =>
+    ({ studentName: 'Zoë', items: Object.fromEntries(items.map(i => [progressKey(i.formula, i.targetVariable), i])) });
+
+const storeOf = (...items: ProgressItem[]): ProgressStore => ({ version: 1, students: { Zoë: progressOf(...items) } });
+
+describe('recordAttempt', () => {
+    const attempt = (isCorrect: boolean, at: number) => ({ formula: 'F = m * a', targetVariable: 'a', isCorrect, durationMs: 2000, at });
+
+    it('moves an isolation up one box per correct answer, up to the last box', () => {
+        let progress = progressOf();
+        for (let i = 1; i <= REVIEW_INTERVALS_MS.length + 1; i++) progress = recordAttempt(progress, attempt(true, i));
+        const recorded = progress.items[progressKey('F = m * a', 'a')];
+        expect(recorded.box).toBe(REVIEW_INTERVALS_MS.length - 1);
+        expect(recorded).toMatchObject({ attempts: REVIEW_INTERVALS_MS.length + 1, correct: REVIEW_INTERVALS_MS.length + 1, lastAttemptAt: REVIEW_INTERVALS_MS.length + 1 });
+    });
+
+    it('sends an isolation back to the first box after a wrong answer', () => {
+        const progress = recordAttempt(recordAttempt(recordAttempt(progressOf(), attempt(true, 0)), attempt(true, 10)), attempt(false, 20));
+        expect(progress.items[progressKey('F = m * a', 'a')]).toMatchObject({ box: 0, attempts: 3, correct: 2, totalTimeMs: 6000, dueAt: 20 + REVIEW_INTERVALS_MS[0] });
+    });
+
+    it('makes an isolation due after the interval of its box', () => {
+        const progress = recordAttempt(progressOf(), attempt(true, 1000));
+        expect(progress.items[progressKey('F = m * a', 'a')].dueAt).toBe(1000 + REVIEW_INTERVALS_MS[1]);
+    });
+});
+
+describe('scheduleNextProblem', () => {
+    const keyOf = ({ formula, targetVariable }: { formula: { formula: string }; targetVariable: string }) => progressKey(formula.formula, targetVariable);
+    const seenAll = (dueAt: (key: string) => number) => progressOf(...formulas.flatMap(f => f.variables.slice(1).map(v => item(f.formula, v, { dueAt: dueAt(progressKey(f.formula, v)) }))));
+
+    it('asks a due isolation before an unseen one', () => {
+        const progress = progressOf(item('R = U / I', 'I', { dueAt: 50 }));
+        for (let i = 0; i < 20; i++) expect(keyOf(scheduleNextProblem(formulas, progress, null, 100))).toBe(progressKey('R = U / I', 'I'));
+    });
+
+    it('asks an unseen isolation before one that is not due yet', () => {
+        const progress = progressOf(item('R = U / I', 'I', { dueAt: 500 }));
+        for (let i = 0; i < 20; i++) expect(keyOf(scheduleNextProblem(formulas, progress, null, 100))).not.toBe(progressKey('R = U / I', 'I'));
+    });
+
+    it('otherwise asks the isolation that becomes due soonest, skipping the previous one', () => {
+        const soonest = progressKey('F = m * a', 'm'), next = progressKey('R = U / I', 'U');
+        const progress = seenAll(key => key === soonest ? 200 : key === next ? 300 : 900);
+        expect(keyOf(scheduleNextProblem(formulas, progress, null, 100))).toBe(soonest);
+        expect(keyOf(scheduleNextProblem(formulas, progress, soonest, 100))).toBe(next);
+    });
+});
+
+describe('mergeProgressStores', () => {
+    it('keeps the most recent record of each isolation', () => {
+        const local = storeOf(item('F = m * a', 'a', { lastAttemptAt: 200, box: 3 }), item('R = U / I', 'I', { lastAttemptAt: 100 }));
+        const imported = storeOf(item('F = m * a', 'a', { lastAttemptAt: 100, box: 0 }), item('R = U / I', 'I', { lastAttemptAt: 300, box: 4 }), item('R = U / I', 'U'));
+        const merged = mergeProgressStores(local, imported).students.Zoë.items;
+        expect(merged[progressKey('F = m * a', 'a')]).toMatchObject({ lastAttemptAt: 200, box: 3 });
+        expect(merged[progressKey('R = U / I', 'I')]).toMatchObject({ lastAttemptAt: 300, box: 4 });
+        expect(merged[progressKey('R = U / I', 'U')]).toBeDefined();
+    });
+
+    it('adds students that only exist in the imported store', () => {
+        const imported: ProgressStore = { version: 1, students: { Arno: { ...progressOf(item('F = m * a', 'm')), studentName: 'Arno' } } };
+        expect(Object.keys(mergeProgressStores(storeOf(), imported).students).sort()).toEqual(['Arno', 'Zoë']);
+    });
+});
+
+describe('parseProgressStore', () => {
+    it('reads back a saved store and rejects a corrupt one', () => {
+        const store = storeOf(item('F = m * a', 'a'));
+        expect(parseProgressStore(JSON.stringify(store))).toEqual(store);
+        expect(() => parseProgressStore('{"version":1,"students":null}')).toThrow(Error);
+        expect(() => parseProgressStore(JSON.stringify(storeOf(item('F = m * a', 'a', { box: Number.NaN }))))).toThrow(Error);
+    });
+});
+
+describe('loadDefaultStudentName', () => {
+    afterEach(() => { vi.unstubAllGlobals(); });
+
+    it('keeps the default name it first gave, whatever the language', () => {
+        const stored = new Map<string, string>();
+        vi.stubGlobal('localStorage', { getItem: (key: string) => stored.get(key) ?? null, setItem: (key: string, value: string) => stored.set(key, value) });
+        expect(loadDefaultStudentName('Leerling')).toBe('Leerling');
+        expect(loadDefaultStudentName('Student')).toBe('Leerling');
+    });
+});
+
+describe('current student name', () => {
+    afterEach(() => { vi.unstubAllGlobals(); vi.restoreAllMocks(); });
+
+    it('reads back the saved name, or nothing when storage is unavailable', () => {
+        const stored = new Map<string, string>();
+        vi.stubGlobal('localStorage', { getItem: (key: string) => stored.get(key) ?? null, setItem: (key: string, value: string) => stored.set(key, value) });
+        expect(loadCurrentStudentName()).toBeNull();
+        saveCurrentStudentName('Zoë');
+        expect(loadCurrentStudentName()).toBe('Zoë');
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        vi.stubGlobal('localStorage', { getItem: () => { throw new Error('geblokkeerd'); }, setItem: () => { throw new Error('geblokkeerd'); } });
+        expect(loadCurrentStudentName()).toBeNull();
+        expect(() => saveCurrentStudentName('Arno')).not.toThrow();
+    });
+});
@@ -0,0 +1,142 @@
+import { produce } from 'immer';
+import { REVIEW_INTERVALS_MS } from '../constants';
+import { practiceTargets } from './formulaPacks';
+import type { LoadedFormula } from './formulaPacks';
+import { isRecord } from './guards';
+import { translate } from './i18n';
+import type { Locale } from './i18n';
+
+export interface ProgressItem {
+  formula: string;
+  targetVariable: string;
+  attempts: number;
+  correct: number;
+  totalTimeMs: number;
+  box: number;
+  lastAttemptAt: number;
+  dueAt: number;
+}
+
+export interface StudentProgress {
+  studentName: string;
+  items: { [key: string]: ProgressItem };
+}
+
+export interface ProgressStore {
+  version: 1;
+  students: { [studentName: string]: StudentProgress };
+}
+
+export interface AttemptRecord {
+  formula: string;
+  targetVariable: string;
+  isCorrect: boolean;
+  durationMs: number;
+  at: number;
+}
+
+const PROGRESS_STORAGE_KEY = 'formule-flipper.progress';
+
+const CURRENT_STUDENT_STORAGE_KEY = 'formule-flipper.currentStudent';
+
+const DEFAULT_STUDENT_STORAGE_KEY = 'formule-flipper.defaultStudent';
+
+// The default name is kept in the language it was first shown in: progress is stored by name, so switching language
+// must not switch to another student.
+export const loadDefaultStudentName = (localizedDefault: string): string => {
+    try {
+        const stored = localStorage.getItem(DEFAULT_STUDENT_STORAGE_KEY);
+        if (stored) return stored;
+        localStorage.setItem(DEFAULT_STUDENT_STORAGE_KEY, localizedDefault);
+    } catch (e) { console.error("Standaardnaam kon niet bewaard worden", e); }
+    return localizedDefault;
+};
+
+// The name on the start screen, or null when nobody has filled one in on this device yet.
+export const loadCurrentStudentName = (): string | null => {
+    try { return localStorage.getItem(CURRENT_STUDENT_STORAGE_KEY) || null; }
+    catch (e) { console.error("Naam van de leerling kon niet geladen worden", e); return null; }
+};
+
+export const saveCurrentStudentName = (name: string) => {
+    try { localStorage.setItem(CURRENT_STUDENT_STORAGE_KEY, name); }
+    catch (e) { console.error("Naam van de leerling kon niet opgeslagen worden", e); }
+};
+
+export const progressKey = (formula: string, targetVariable: string) => `${formula}|${targetVariable}`;
+
+const emptyProgressStore = (): ProgressStore => ({ version: 1, students: {} });
+
+const PROGRESS_ITEM_NUMBERS = ['attempts', 'correct', 'totalTimeMs', 'box', 'lastAttemptAt', 'dueAt'] as const;
+
+export const parseProgressStore = (text: string, locale: Locale = 'nl'): ProgressStore => {
+    const raw: unknown = JSON.parse(text);
+    if (!isRecord(raw) || raw.version !== 1 || !isRecord(raw.students)) throw new Error(translate(locale, 'progress.error.notProgress'));
+    for (const progress of Object.values(raw.students)) {
+        if (!isRecord(progress) || typeof progress.studentName !== 'string' || !isRecord(progress.items)) throw new Error(translate(locale, 'progress.error.damaged'));
+        for (const item of Object.values(progress.items)) {
+            if (!isRecord(item) || !PROGRESS_ITEM_NUMBERS.every(k => Number.isFinite(item[k])) || typeof item.formula !== 'string' || typeof item.targetVariable !== 'string') {
+                throw new Error(translate(locale, 'progress.error.studentDamaged', { name: progress.studentName }));
+            }
+        }
+    }
+    return raw as unknown as ProgressStore;
+};
+
+export const loadProgressStore = (): ProgressStore => {
+    try { const text = localStorage.getItem(PROGRESS_STORAGE_KEY); return text ? parseProgressStore(text) : emptyProgressStore(); }
+    catch (e) { console.error("Voortgang kon niet geladen worden", e); return emptyProgressStore(); }
+};
+
+export const saveProgressStore = (store: ProgressStore) => {
+    try { localStorage.setItem(PROGRESS_STORAGE_KEY, JSON.stringify(store)); }
+    catch (e) { console.error("Voortgang kon niet opgeslagen worden", e); }
+};
+
+export const getStudentProgress = (store: ProgressStore, studentName: string): StudentProgress => store.students[studentName] ?? { studentName, items: {} };
+
+export const saveStudentProgress = (progress: StudentProgress) => saveProgressStore(produce(loadProgressStore(), draft => { draft.students[progress.studentName] = progress; }));
+
+export const recordAttempt = (progress: StudentProgress, attempt: AttemptRecord): StudentProgress => produce(progress, draft => {
+    const key = progressKey(attempt.formula, attempt.targetVariable);
+    const item = draft.items[key] ??= { formula: attempt.formula, targetVariable: attempt.targetVariable, attempts: 0, correct: 0, totalTimeMs: 0, box: 0, lastAttemptAt: 0, dueAt: 0 };
+    item.attempts++;
+    item.totalTimeMs += attempt.durationMs;
+    item.lastAttemptAt = attempt.at;
+    if (attempt.isCorrect) { item.correct++; item.box = Math.min(item.box + 1, REVIEW_INTERVALS_MS.length - 1); }
+    else item.box = 0;
+    item.dueAt = attempt.at + REVIEW_INTERVALS_MS[item.box];
+});
+
+// Imported students replace local ones unless the local record has more recent attempts for an isolation.
+export const mergeProgressStores = (local: ProgressStore, imported: ProgressStore): ProgressStore => produce(local, draft => {
+    for (const [name, progress] of Object.entries(imported.students)) {
+        const target = draft.students[name] ??= { studentName: name, items: {} };
+        for (const [key, item] of Object.entries(progress.items)) {
+            if (!target.items[key] || target.items[key].lastAttemptAt < item.lastAttemptAt) target.items[key] = item;
+        }
+    }
+});
+
+interface ScheduledProblem { formula: LoadedFormula; targetVariable: string; }
+
+// Due isolations come first, weighted towards the ones that were answered wrong most often; then isolations
+// the student has never seen; otherwise the one that becomes due soonest. The previous problem is skipped
+// whenever there is an alternative.
+export const scheduleNextProblem = (formulas: LoadedFormula[], progress: StudentProgress | null, previousKey: string | null, now = Date.now()): ScheduledProblem => {
+    const all = formulas.flatMap(formula => practiceTargets(formula).map(targetVariable => ({ formula, targetVariable, key: progressKey(formula.formula, targetVariable) })));
+    const candidates = all.length > 1 ? all.filter(c => c.key !== previousKey) : all;
+    const pickRandom = <T,>(list: T[]) => list[Math.floor(Math.random() * list.length)];
+    if (!progress) return pickRandom(candidates);
+
+    const due = candidates.filter(c => progress.items[c.key] && progress.items[c.key].dueAt <= now);
+    if (due.length) {
+        const weights = due.map(c => 1 + 2 * (progress.items[c.key].attempts - progress.items[c.key].correct));
+        let roll = Math.random() * weights.reduce((a, b) => a + b, 0);
+        for (let i = 0; i < due.length; i++) { roll -= weights[i]; if (roll < 0) return due[i]; }
+        return due[due.length - 1];
+    }
+    const unseen = candidates.filter(c => !progress.items[c.key]);
+    if (unseen.length) return pickRandom(unseen);
+    return candidates.reduce((best, c) => progress.items[c.key].dueAt < progress.items[best.key].dueAt ? c : best);
+};
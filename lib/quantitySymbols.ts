@@ -0,0 +1,76 @@
+import type { EquationSide, Problem } from '../types';
+import type { AttemptLog } from './attemptLog';
+import type { EquationSnapshot } from './equationHistory';
+import type { Locale } from './i18n';
+
+// Formula packs are written with the Flemish symbols. Other languages have their own conventions for a few
+// quantities: the weight Fz is Fg in English and P (poids) in French, a voltage U is written V in English.
+export const QUANTITY_SYMBOLS: Record<Locale, { [symbol: string]: string }> = {
+    nl: {},
+    en: { Fz: 'Fg', U: 'V', Epot: 'Ep' },
+    fr: { Fz: 'P', Epot: 'Ep', Ek: 'Ec' },
+};
+
+const IDENTIFIER = /[\p{L}][\p{L}\p{N}_]*/gu;
+
+// A symbol is only renamed when its new name doesn't already stand for another quantity in the same formula,
+// so in French the weight in P = Fz * v stays Fz.
+const symbolRenames = (formula: string, locale: Locale): Map<string, string> => {
+    const used = new Set(formula.match(IDENTIFIER) ?? []);
+    return new Map(Object.entries(QUANTITY_SYMBOLS[locale]).filter(([from, to]) => used.has(from) && !used.has(to)));
+};
+
+const inverted = (renames: Map<string, string>): Map<string, string> => new Map([...renames].map(([from, to]) => [to, from]));
+
+const renameExpression = (renames: Map<string, string>, expression: string): string =>
+    renames.size === 0 ? expression : expression.replace(IDENTIFIER, name => renames.get(name) ?? name);
+
+const renameSide = (renames: Map<string, string>, side: EquationSide): EquationSide => ({ items: side.items.map(item => {
+    switch (item.type) {
+        case 'symbol': return { ...item, content: renames.get(item.content) ?? item.content };
+        case 'sqrt': return { ...item, content: renameSide(renames, item.content) };
+        case 'fraction': return { ...item, numerator: renameSide(renames, item.numerator), denominator: renameSide(renames, item.denominator) };
+        case 'power': return { ...item, exponent: renameSide(renames, item.exponent) };
+        case 'root': return { ...item, index: renameSide(renames, item.index), content: renameSide(renames, item.content) };
+    }
+}) });
+
+const renameSnapshot = <T extends EquationSnapshot>(renames: Map<string, string>, snapshot: T): T =>
+    ({ ...snapshot, left: renameSide(renames, snapshot.left), right: renameSide(renames, snapshot.right) });
+
+const renameAttemptLog = (renames: Map<string, string>, log: AttemptLog): AttemptLog => renames.size === 0 ? log : {
+    ...log,
+    start: renameSnapshot(renames, log.start),
+    events: log.events.map(event => renameSnapshot(renames, event)),
+    submission: log.submission && { ...log.submission, answer: log.submission.answer && renameExpression(renames, log.submission.answer) },
+};
+
+export const localizeSymbol = (symbol: string, formula: string, locale: Locale): string => symbolRenames(formula, locale).get(symbol) ?? symbol;
+
+// Renames the quantities of a formula pack formula; `expression` defaults to the formula itself but can be an
+// answer or an isolation that uses the same quantities.
+export const localizeFormula = (formula: string, locale: Locale, expression = formula): string => renameExpression(symbolRenames(formula, locale), expression);
+
+// Puts an answer the student gave in their own symbols back in the symbols of the pack.
+export const delocalizeFormula = (formula: string, locale: Locale, expression: string): string => renameExpression(inverted(symbolRenames(formula, locale)), expression);
+
+// Attempt logs are stored in the pack's symbols, like progress and session results, and replayed in the viewer's.
+export const localizeAttemptLog = (log: AttemptLog, locale: Locale): AttemptLog => renameAttemptLog(symbolRenames(log.formula, locale), log);
+
+export const delocalizeAttemptLog = (log: AttemptLog, locale: Locale): AttemptLog => renameAttemptLog(inverted(symbolRenames(log.formula, locale)), log);
+
+// The problem as the student sees and answers it. Progress and session results keep using the original
+// symbols, so they stay comparable across languages.
+export const localizeProblem = (problem: Problem, locale: Locale): Problem => {
+    const renames = symbolRenames(problem.originalFormula, locale);
+    if (renames.size === 0) return problem;
+    const rename = (name: string) => renames.get(name) ?? name;
+    return {
+        ...problem,
+        originalFormula: localizeFormula(problem.originalFormula, locale),
+        correctAnswer: localizeFormula(problem.originalFormula, locale, problem.correctAnswer),
+        targetVariable: rename(problem.targetVariable),
+        symbols: problem.symbols.map(rename),
+        units: problem.units && Object.fromEntries(Object.entries(problem.units).map(([name, unit]) => [rename(name), unit])),
+    };
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { FormulaPackError } from './formulaPacks';
+import { decodeSessionFromHash, encodeSessionLink, parseClassSession, parseSessionResult, sessionResultsToCsv, summarizeByFormula, summarizeByStudent, summarizeMisconceptions } from './sessions';
+import type { ClassSession, SessionResult } from './sessions';
+
+const session: ClassSession = {
+    version: 1, code: 'ABC234', name: 'Klas 4B', createdAt: 0, problemCount: 3,
+    formulas: [
+        { formula: 'F = m * a', variables: ['F', 'm', 'a'], topic: 'Krachten', difficulty: 1, targets: ['a'] },
+        { formula: 'R = U / I', variables: ['R', 'U', 'I'], topic: 'Weerstand', difficulty: 1, targets: ['U', 'I'] },
+    ],
+};
+
+const attempt = (formula: string, targetVariable: string, isCorrect: boolean, durationMs: number, misconception: SessionResult['attempts'][number]['misconception'] = null) =>
+    ({ formula, targetVariable, isCorrect, durationMs, at: 0, userAnswer: isCorrect ? 'ok' : 'fout', misconception });
+
+const results: SessionResult[] = [
+    { version: 1, sessionCode: 'ABC234', studentName: 'Zoë', finishedAt: 1, attempts: [attempt('F = m * a', 'a', true, 4000), attempt('R = U / I', 'I', false, 8000, 'inverted')] },
+    { version: 1, sessionCode: 'ABC234', studentName: 'Arno', finishedAt: null, attempts: [attempt('R = U / I', 'I', false, 6000, 'inverted'), attempt('R = U / I', 'I', true, 2000)] },
+];
+
+describe('parseClassSession', () => {
+    it('accepts a valid session and normalizes its code', () => {
+        expect(parseClassSession({ ...session, code: ' abc234 ' })).toEqual(session);
+    });
+
+    it('rejects something that is not a session', () => {
+        expect(() => parseClassSession(null)).toThrow(Error);
+        expect(() => parseClassSession({ ...session, version: 2 })).toThrow(Error);
+        expect(() => parseClassSession({ ...session, problemCount: 0 })).toThrow(Error);
+        expect(() => parseClassSession({ ...session, createdAt: 'gisteren' })).toThrow(Error);
+        expect(() => parseClassSession({ ...session, createdAt: Number.NaN })).toThrow(Error);
+    });
+
+    it('drops fields that are not part of a session', () => {
+        const parsed = parseClassSession({ ...session, extra: 'x', formulas: [{ ...session.formulas[0], extra: 'y' }, session.formulas[1]] });
+        expect(JSON.parse(JSON.stringify(parsed))).toEqual(session);
+    });
+
+    it('lists every invalid formula', () => {
+        const { targets: _, ...withoutTargets } = session.formulas[0];
+        try {
+            parseClassSession({ ...session, formulas: [withoutTargets, { ...session.formulas[1], targets: ['X'] }] });
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(FormulaPackError);
+            expect((error as FormulaPackError).problems).toHaveLength(2);
+        }
+    });
+});
+
+describe('session links', () => {
+    it('round-trips a session through the URL fragment', () => {
+        const link = encodeSessionLink(session, 'https://example.org/');
+        expect(link.startsWith('https://example.org/#sessie=')).toBe(true);
+        expect(decodeSessionFromHash(link.slice(link.indexOf('#')))).toEqual(session);
+    });
+
+    it('ignores a fragment without a session', () => {
+        expect(decodeSessionFromHash('')).toBeNull();
+        expect(decodeSessionFromHash('#iets=anders')).toBeNull();
+    });
+});
+
+describe('parseSessionResult', () => {
+    it('accepts a valid result and normalizes its session code', () => {
+        expect(parseSessionResult({ ...results[0], sessionCode: 'abc234' })).toEqual(results[0]);
+    });
+
+    it('rejects a corrupt result', () => {
+        expect(() => parseSessionResult({ ...results[0], attempts: 'geen' })).toThrow(Error);
+        expect(() => parseSessionResult({ ...results[0], attempts: [{ ...results[0].attempts[0], durationMs: 'lang' }] })).toThrow(Error);
+        expect(() => parseSessionResult({ ...results[0], attempts: [{ ...results[0].attempts[0], misconception: 'onbekend' }] })).toThrow(Error);
+        expect(() => parseSessionResult({ ...results[0], attempts: [{ ...results[0].attempts[0], log: {} }] })).toThrow(Error);
+    });
+});
+
+describe('summaries', () => {
+    it('summarizes per student, alphabetically', () => {
+        expect(summarizeByStudent(results)).toEqual([
+            { label: 'Arno', attempts: 2, correct: 1, averageTimeMs: 4000 },
+            { label: 'Zoë', attempts: 2, correct: 1, averageTimeMs: 6000 },
+        ]);
+    });
+
+    it('summarizes per formula and target, including the ones nobody tried', () => {
+        expect(summarizeByFormula(session, results)).toEqual([
+            { label: 'F = m * a → a', attempts: 1, correct: 1, averageTimeMs: 4000 },
+            { label: 'R = U / I → U', attempts: 0, correct: 0, averageTimeMs: 0 },
+            { label: 'R = U / I → I', attempts: 3, correct: 1, averageTimeMs: 16000 / 3 },
+        ]);
+    });
+
+    it('counts each misconception and the students who made it', () => {
+        expect(summarizeMisconceptions(results)).toEqual([{ misconception: 'inverted', count: 2, students: 2 }]);
+    });
+});
+
+describe('sessionResultsToCsv', () => {
+    it('quotes cells with separators, quotes or line breaks', () => {
+        const [, row] = sessionResultsToCsv(session, [{ ...results[0], studentName: 'Jan "de" Smet; 4B', attempts: [results[0].attempts[0]] }]).split('\r\n');
+        expect(row.split(';').slice(0, 3)).toEqual(['ABC234', '"Jan ""de"" Smet', ' 4B"']);
+        expect(row).toContain(';4,0;');
+    });
+
+    it('quotes a lone carriage return, so it doesn\'t split the row', () => {
+        const csv = sessionResultsToCsv(session, [{ ...results[0], studentName: 'Jan\rSmet', attempts: [results[0].attempts[0]] }]);
+        expect(csv.split('\r\n')[1]).toContain(';"Jan\rSmet";');
+    });
+
+    it('keeps names and answers from being read as spreadsheet formulas', () => {
+        const csv = sessionResultsToCsv(session, [{ ...results[0], studentName: '=HYPERLINK("x")', attempts: [{ ...results[0].attempts[0], userAnswer: '@SUM(A1)' }] }]);
+        const [, row] = csv.split('\r\n');
+        expect(row).toContain(`;"'=HYPERLINK(""x"")";`);
+        expect(row).toContain(`;'@SUM(A1);`);
+        expect(sessionResultsToCsv(session, [{ ...results[0], studentName: '-2+3' }])).toContain(`;'-2+3;`);
+        expect(sessionResultsToCsv(session, [{ ...results[0], studentName: '\t=1+1' }])).toContain(`;'\t=1+1;`);
+        expect(sessionResultsToCsv(session, [{ ...results[0], studentName: '\r=1+1' }])).toContain(`;"'\r=1+1";`);
+    });
+});
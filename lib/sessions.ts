@@ -0,0 +1,201 @@
+import { parseAttemptLog } from './attemptLog';
+import type { AttemptLog } from './attemptLog';
+import { FormulaPackError, loadFormulaEntry } from './formulaPacks';
+import type { FormulaPackEntry, LoadedFormula } from './formulaPacks';
+import { isOneOf, isRecord, isStringArray } from './guards';
+import { translate } from './i18n';
+import type { Locale } from './i18n';
+import { MISCONCEPTIONS } from './misconceptions';
+import type { Misconception } from './misconceptions';
+import type { AttemptRecord } from './progress';
+
+// A session is self-contained: it carries its own formula entries, so students can join through a link or a
+// file on any device without the teacher's custom packs and without a server.
+export interface SessionFormula extends FormulaPackEntry {
+  targets: string[];
+}
+
+export interface ClassSession {
+  version: 1;
+  code: string;
+  name: string;
+  createdAt: number;
+  problemCount: number;
+  formulas: SessionFormula[];
+}
+
+interface SessionAttempt extends AttemptRecord {
+  userAnswer: string | null;
+  // Missing in results saved before misconceptions were recorded.
+  misconception?: Misconception | null;
+  // The equation after every editing step, oldest first; missing for stepwise attempts and older results.
+  history?: string[];
+  // Every change to the board and the verdict, for replaying the attempt; missing in older results.
+  log?: AttemptLog;
+}
+
+export interface SessionResult {
+  version: 1;
+  sessionCode: string;
+  studentName: string;
+  attempts: SessionAttempt[];
+  finishedAt: number | null;
+}
+
+const SESSIONS_STORAGE_KEY = 'formule-flipper.sessions';
+
+const SESSION_RESULTS_STORAGE_KEY = 'formule-flipper.sessionResults';
+
+const SESSION_LINK_PARAMETER = 'sessie';
+
+// Letters and digits that can't be confused with each other when read aloud or copied from the board.
+const SESSION_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const generateSessionCode = (): string => Array.from({ length: 6 }, () => SESSION_CODE_ALPHABET[Math.floor(Math.random() * SESSION_CODE_ALPHABET.length)]).join('');
+
+const normalizeSessionCode = (code: string) => code.trim().toUpperCase();
+
+export const createClassSession = (name: string, formulas: SessionFormula[], problemCount: number): ClassSession => ({
+    version: 1, code: generateSessionCode(), name: name.trim() || 'Sessie', createdAt: Date.now(), problemCount, formulas,
+});
+
+export const parseClassSession = (raw: unknown, locale: Locale = 'nl'): ClassSession => {
+    if (!isRecord(raw) || raw.version !== 1 || typeof raw.code !== 'string' || typeof raw.name !== 'string' || typeof raw.createdAt !== 'number' || !Number.isFinite(raw.createdAt) || !Array.isArray(raw.formulas)) {
+        throw new Error(translate(locale, 'session.error.notSession'));
+    }
+    if (typeof raw.problemCount !== 'number' || !Number.isInteger(raw.problemCount) || raw.problemCount < 1) throw new Error(translate(locale, 'session.error.problemCount'));
+    const entries: unknown[] = raw.formulas;
+    const problems: string[] = [];
+    const formulas: SessionFormula[] = [];
+    entries.forEach((entry, index) => {
+        // Unlike in a pack, the targets of a session formula are required; loadFormulaEntry checks their contents.
+        if (!isRecord(entry) || entry.targets === undefined) {
+            problems.push(translate(locale, 'packs.error.formula', { n: index + 1, problem: translate(locale, 'packs.error.missing', { field: 'targets' }) }));
+            return;
+        }
+        const loaded = loadFormulaEntry(entry, index, 'sessie', problems, locale);
+        if (loaded?.targetVariables) {
+            const { formula, variables, topic, difficulty, units, answers, targetVariables } = loaded;
+            formulas.push({ formula, variables, topic, difficulty, units, answers, targets: targetVariables });
+        }
+    });
+    if (entries.length === 0) problems.push(translate(locale, 'session.error.noFormulas'));
+    if (problems.length) throw new FormulaPackError(translate(locale, 'session.error.invalid'), problems);
+    return { version: 1, code: normalizeSessionCode(raw.code), name: raw.name, createdAt: raw.createdAt, problemCount: raw.problemCount, formulas };
+};
+
+export const loadSessionFormulas = (session: ClassSession, locale: Locale = 'nl'): LoadedFormula[] => session.formulas.map((entry, index) => {
+    const loaded = loadFormulaEntry(entry, index, `sessie-${session.code}`, [], locale);
+    if (!loaded) throw new Error(translate(locale, 'session.error.formula', { n: index + 1, code: session.code }));
+    return loaded;
+});
+
+// The session travels in the URL fragment, which browsers never send to a server.
+export const encodeSessionLink = (session: ClassSession, base = `${window.location.origin}${window.location.pathname}`): string => {
+    const bytes = new TextEncoder().encode(JSON.stringify(session));
+    const encoded = btoa(Array.from(bytes, b => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    return `${base}#${SESSION_LINK_PARAMETER}=${encoded}`;
+};
+
+export const decodeSessionFromHash = (hash: string, locale: Locale = 'nl'): ClassSession | null => {
+    const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SESSION_LINK_PARAMETER);
+    if (!encoded) return null;
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    return parseClassSession(JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)))), locale);
+};
+
+export const parseSessionResult = (raw: unknown, locale: Locale = 'nl'): SessionResult => {
+    if (!isRecord(raw) || raw.version !== 1 || typeof raw.sessionCode !== 'string' || typeof raw.studentName !== 'string' || !Array.isArray(raw.attempts)) throw new Error(translate(locale, 'session.error.notResults'));
+    const damaged = translate(locale, 'session.error.resultsDamaged', { name: raw.studentName });
+    const attempts: unknown[] = raw.attempts;
+    for (const attempt of attempts) {
+        if (!isRecord(attempt) || typeof attempt.formula !== 'string' || typeof attempt.targetVariable !== 'string' || typeof attempt.isCorrect !== 'boolean' || !Number.isFinite(attempt.durationMs) || !Number.isFinite(attempt.at) || (attempt.userAnswer !== null && typeof attempt.userAnswer !== 'string')
+            || (attempt.misconception != null && !isOneOf(MISCONCEPTIONS, attempt.misconception))
+            || (attempt.history !== undefined && !isStringArray(attempt.history))) {
+            throw new Error(damaged);
+        }
+        if (attempt.log !== undefined) {
+            try { parseAttemptLog(attempt.log); }
+            catch { throw new Error(damaged); }
+        }
+    }
+    return { ...raw, sessionCode: normalizeSessionCode(raw.sessionCode) } as unknown as SessionResult;
+};
+
+export const loadStoredSessions = (): ClassSession[] => {
+    try {
+        const raw = JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || '[]');
+        return Array.isArray(raw) ? raw.flatMap(s => { try { return [parseClassSession(s)]; } catch { return []; } }) : [];
+    } catch (e) { console.error("Sessies konden niet geladen worden", e); return []; }
+};
+
+export const storeSessions = (sessions: ClassSession[]) => {
+    try { localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions)); }
+    catch (e) { console.error("Sessies konden niet opgeslagen worden", e); }
+};
+
+export const loadSessionResults = (): SessionResult[] => {
+    try {
+        const raw = JSON.parse(localStorage.getItem(SESSION_RESULTS_STORAGE_KEY) || '[]');
+        return Array.isArray(raw) ? raw.flatMap(r => { try { return [parseSessionResult(r)]; } catch { return []; } }) : [];
+    } catch (e) { console.error("Sessieresultaten konden niet geladen worden", e); return []; }
+};
+
+// One result per student and session; a newer upload of the same student replaces the older one.
+export const saveSessionResult = (result: SessionResult) => {
+    const others = loadSessionResults().filter(r => r.sessionCode !== result.sessionCode || r.studentName !== result.studentName);
+    try { localStorage.setItem(SESSION_RESULTS_STORAGE_KEY, JSON.stringify([...others, result])); }
+    catch (e) { console.error("Sessieresultaten konden niet opgeslagen worden", e); }
+};
+
+export const removeSessionResults = (sessionCode: string) => {
+    try { localStorage.setItem(SESSION_RESULTS_STORAGE_KEY, JSON.stringify(loadSessionResults().filter(r => r.sessionCode !== sessionCode))); }
+    catch (e) { console.error("Sessieresultaten konden niet verwijderd worden", e); }
+};
+
+export interface ResultSummary { label: string; attempts: number; correct: number; averageTimeMs: number; }
+
+const summarizeAttempts = (groups: Map<string, SessionAttempt[]>): ResultSummary[] => [...groups].map(([label, attempts]) => ({
+    label, attempts: attempts.length, correct: attempts.filter(a => a.isCorrect).length,
+    averageTimeMs: attempts.length ? attempts.reduce((sum, a) => sum + a.durationMs, 0) / attempts.length : 0,
+}));
+
+export const summarizeByStudent = (results: SessionResult[]): ResultSummary[] =>
+    summarizeAttempts(new Map(results.map(r => [r.studentName, r.attempts]))).sort((a, b) => a.label.localeCompare(b.label));
+
+export const summarizeByFormula = (session: ClassSession, results: SessionResult[]): ResultSummary[] => {
+    const groups = new Map<string, SessionAttempt[]>(session.formulas.flatMap(f => f.targets.map(t => [`${f.formula} → ${t}`, []] as [string, SessionAttempt[]])));
+    for (const attempt of results.flatMap(r => r.attempts)) {
+        const label = `${attempt.formula} → ${attempt.targetVariable}`;
+        groups.set(label, [...(groups.get(label) ?? []), attempt]);
+    }
+    return summarizeAttempts(groups);
+};
+
+export interface MisconceptionSummary { misconception: Misconception; count: number; students: number; }
+
+// The recognized mistakes of a session, most frequent first.
+export const summarizeMisconceptions = (results: SessionResult[]): MisconceptionSummary[] => {
+    const byMisconception = new Map<Misconception, { count: number; students: Set<string> }>();
+    for (const result of results) for (const { misconception } of result.attempts) {
+        if (!misconception) continue;
+        const entry = byMisconception.get(misconception) ?? { count: 0, students: new Set<string>() };
+        entry.count++; entry.students.add(result.studentName);
+        byMisconception.set(misconception, entry);
+    }
+    return [...byMisconception].map(([misconception, { count, students }]) => ({ misconception, count, students: students.size })).sort((a, b) => b.count - a.count);
+};
+
+// Semicolons keep the file usable in spreadsheet programs with a Dutch or French locale, where the comma is the decimal separator.
+// A student's name or answer that starts like a spreadsheet formula, or with a tab or carriage return that a
+// spreadsheet may skip before reading one, gets a leading apostrophe, so it is shown as text instead of being run.
+export const sessionResultsToCsv = (session: ClassSession, results: SessionResult[], locale: Locale = 'nl'): string => {
+    const cell = (value: string | number) => {
+        const text = String(value).replace(/^[=+\-@\t\r]/, start => `'${start}`);
+        return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const header = (['session', 'student', 'formula', 'target', 'answer', 'correct', 'misconception', 'duration', 'at'] as const).map(column => translate(locale, `csv.${column}`));
+    const seconds = (ms: number) => locale === 'en' ? (ms / 1000).toFixed(1) : (ms / 1000).toFixed(1).replace('.', ',');
+    const rows = results.flatMap(r => r.attempts.map(a => [session.code, r.studentName, a.formula, a.targetVariable, a.userAnswer ?? '', translate(locale, a.isCorrect ? 'csv.yes' : 'csv.no'), a.misconception ?? '', seconds(a.durationMs), new Date(a.at).toISOString()]));
+    return [header, ...rows].map(row => row.map(cell).join(';')).join('\r\n');
+};
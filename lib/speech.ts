@@ -0,0 +1,59 @@
+import type { DraggableItem, EquationSide } from '../types';
+import { clampCursor } from './equationCursor';
+import type { EquationCursor } from './equationCursor';
+import { getNested } from './equationTree';
+import { translate } from './i18n';
+import type { Locale, MessageKey } from './i18n';
+
+const GREEK_NAMES: Record<Locale, Record<string, string>> = {
+    nl: {
+        'α': 'alfa', 'β': 'bèta', 'γ': 'gamma', 'δ': 'delta', 'Δ': 'delta', 'ε': 'epsilon', 'η': 'èta', 'θ': 'theta', 'λ': 'lambda',
+        'μ': 'mu', 'π': 'pi', 'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'ω': 'omega', 'Ω': 'omega',
+    },
+    en: {
+        'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'Δ': 'delta', 'ε': 'epsilon', 'η': 'eta', 'θ': 'theta', 'λ': 'lambda',
+        'μ': 'mu', 'π': 'pi', 'ρ': 'rho', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'ω': 'omega', 'Ω': 'omega',
+    },
+    fr: {
+        'α': 'alpha', 'β': 'bêta', 'γ': 'gamma', 'δ': 'delta', 'Δ': 'delta', 'ε': 'epsilon', 'η': 'êta', 'θ': 'thêta', 'λ': 'lambda',
+        'μ': 'mu', 'π': 'pi', 'ρ': 'rhô', 'σ': 'sigma', 'τ': 'tau', 'φ': 'phi', 'ω': 'oméga', 'Ω': 'oméga',
+    },
+};
+
+const SPOKEN_SYMBOLS: Record<string, MessageKey> = {
+    '+': 'speech.plus', '-': 'speech.minus', '*': 'speech.times', '(': 'speech.open', ')': 'speech.close',
+    '__square__': 'speech.square', '__sqrt__': 'speech.sqrtSymbol', '__fraction__': 'speech.fractionSymbol', '__power__': 'speech.powerSymbol', '__root__': 'speech.rootSymbol',
+    '½': 'speech.half',
+};
+
+const PART_NAMES: Record<string, MessageKey> = {
+    numerator: 'speech.in.numerator', denominator: 'speech.in.denominator', content: 'speech.in.content', exponent: 'speech.in.exponent', index: 'speech.in.index',
+};
+
+export const speakSymbol = (symbol: string, locale: Locale = 'nl'): string => {
+    if (SPOKEN_SYMBOLS[symbol]) return translate(locale, SPOKEN_SYMBOLS[symbol]);
+    return [...symbol].map(ch => GREEK_NAMES[locale][ch] ? ` ${GREEK_NAMES[locale][ch]} ` : ch).join('').replace(/\s+/g, ' ').trim();
+};
+
+export const speakStructure = (type: Exclude<DraggableItem['type'], 'symbol'>, locale: Locale = 'nl'): string => translate(locale, `speech.structure.${type}`);
+
+export const speakSide = (side: EquationSide, locale: Locale = 'nl'): string => {
+    if (side.items.length === 0) return translate(locale, 'speech.empty');
+    const speak = (inner: EquationSide) => speakSide(inner, locale);
+    return side.items.map(item => {
+        if (item.type === 'symbol') return speakSymbol(item.content, locale);
+        if (item.type === 'sqrt') return translate(locale, 'speech.sqrt', { content: speak(item.content) });
+        if (item.type === 'power') return translate(locale, 'speech.power', { exponent: speak(item.exponent) });
+        if (item.type === 'root') return translate(locale, 'speech.root', { index: speak(item.index), content: speak(item.content) });
+        return translate(locale, 'speech.fraction', { numerator: speak(item.numerator), denominator: speak(item.denominator) });
+    }).join(' ');
+};
+
+export const describeCursor = (side: EquationSide, cursor: EquationCursor, locale: Locale = 'nl'): string => {
+    const { path, index } = clampCursor(side, cursor);
+    const items: DraggableItem[] = getNested(side, path);
+    const part = path.length === 1 ? undefined : PART_NAMES[path[path.length - 2] as string];
+    const before = items[index - 1];
+    const position = !before ? translate(locale, 'speech.atStart') : translate(locale, 'speech.after', { name: before.type === 'symbol' ? speakSymbol(before.content, locale) : speakStructure(before.type, locale) });
+    return part ? translate(locale, 'speech.cursorIn', { where: translate(locale, part), position }) : translate(locale, 'speech.cursor', { position });
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { Problem } from '../types';
+import { ExpressionParseError, areExpressionsEquivalent, checkAnswerSymbolically, collectVariables, evaluateExpression, parseExpression } from './symbolic';
+
+const problem: Problem = { originalFormula: 'Epot = m*g*h', targetVariable: 'h', correctAnswer: 'h = Epot / (m * g)', symbols: [] };
+
+describe('parseExpression', () => {
+    it('reads juxtaposed symbols as a product', () => {
+        expect(areExpressionsEquivalent(parseExpression('m g'), parseExpression('m * g'))).toBe(true);
+    });
+
+    it('reads ½ and π as numbers', () => {
+        expect(evaluateExpression(parseExpression('½ * 2π'), {})).toBeCloseTo(Math.PI);
+        expect([...collectVariables(parseExpression('2π * sqrt(l / g)'))]).toEqual(['l', 'g']);
+    });
+
+    it('points at the offending character', () => {
+        expect(() => parseExpression('m * * g')).toThrow(ExpressionParseError);
+        try { parseExpression('m * )'); } catch (error) { expect((error as ExpressionParseError).position).toBe(4); }
+    });
+});
+
+describe('checkAnswerSymbolically', () => {
+    it.each(['h = Epot / (m * g)', 'h = Epot / (g * m)', 'h = (Epot / m) / g', 'Epot / (m g) = h'])('accepts %s', (answer) => {
+        expect(checkAnswerSymbolically(problem, answer)).toMatchObject({ verdict: 'correct', isCorrect: true });
+    });
+
+    it.each([
+        ['h = Epot * m * g', 'not-equivalent'],
+        ['h * m = Epot / g', 'not-isolated'],
+        ['h = Epot / (m * g * h) * h', 'target-on-both-sides'],
+        ['h = Epot / (m *', 'syntax-error'],
+    ])('rejects %s as %s', (answer, verdict) => {
+        expect(checkAnswerSymbolically(problem, answer)).toMatchObject({ verdict, isCorrect: false });
+    });
+
+    it('accepts equivalent square roots', () => {
+        const energy: Problem = { originalFormula: 'E = m*c^2', targetVariable: 'c', correctAnswer: 'c = sqrt(E / m)', symbols: [] };
+        expect(checkAnswerSymbolically(energy, 'c = sqrt(E) / sqrt(m)').isCorrect).toBe(true);
+    });
+
+    it.each([
+        ['v = v0 + a*t', 'a', 'a = (v - v0) / t', 'a = v / t - v0 / t'],
+        ['s = v0*t + ½*a*t^2', 'v0', 'v0 = (s - ½ * a * t^2) / t', 'v0 = s / t - a t / 2'],
+        ['1/f = 1/v + 1/b', 'f', 'f = 1 / (1 / v + 1 / b)', 'f = v b / (v + b)'],
+        ['T = 2π*sqrt(l/g)', 'g', 'g = 4 * l * π^2 / T^2', 'g = l * (2π / T)^2'],
+    ])('accepts a rewritten answer for %s', (originalFormula, targetVariable, correctAnswer, answer) => {
+        expect(checkAnswerSymbolically({ originalFormula, targetVariable, correctAnswer, symbols: [] }, answer).isCorrect).toBe(true);
+    });
+});
@@ -0,0 +1,263 @@
+import type { Problem } from '../types';
+import { translate } from './i18n';
+import type { Locale, MessageKey, MessageParams } from './i18n';
+
+export type Expr =
+    | { kind: 'num'; value: number }
+    | { kind: 'var'; name: string }
+    | { kind: 'neg'; arg: Expr }
+    // `implicit` marks a product written by juxtaposition ("m g"); it only matters for display.
+    | { kind: 'bin'; op: '+' | '-' | '*' | '/'; left: Expr; right: Expr; implicit?: boolean }
+    | { kind: 'pow'; base: Expr; exponent: Expr }
+    | { kind: 'sqrt'; arg: Expr };
+
+export type ParseErrorKey = Extract<MessageKey, `parse.${string}`>;
+
+// Carries its catalog key so the message can be shown in the student's language; `message` itself is Dutch.
+export class ExpressionParseError extends Error {
+    constructor(public key: ParseErrorKey, public position: number, public params: MessageParams = {}) { super(translate('nl', key, params)); this.name = 'ExpressionParseError'; }
+
+    localize(locale: Locale) { return translate(locale, this.key, this.params); }
+}
+
+interface Token { type: 'num' | 'ident' | 'op' | 'lparen' | 'rparen'; value: string; position: number; }
+
+// Typographic operators that students copy from a textbook or the rendered formula.
+const OPERATOR_ALIASES: Record<string, string> = { '·': '*', '×': '*', '−': '-' };
+
+// Named constants have a fixed value; they are never asked for and are not listed among a formula's variables.
+export const MATH_CONSTANTS: ReadonlyMap<string, number> = new Map([['π', Math.PI]]);
+
+export const tokenizeExpression = (input: string): Token[] => {
+    const tokens: Token[] = [];
+    const pattern = /(\d+(?:[.,]\d+)?|½)|([\p{L}][\p{L}\p{N}_]*)|([-+*/^·×−])|(\()|(\))/uy;
+    let position = 0;
+    while (position < input.length) {
+        if (/\s/.test(input[position])) { position++; continue; }
+        pattern.lastIndex = position;
+        const match = pattern.exec(input);
+        if (!match) throw new ExpressionParseError('parse.unexpectedChar', position, { char: input[position] });
+        if (match[1]) tokens.push({ type: 'num', value: match[1] === '½' ? '0.5' : match[1].replace(',', '.'), position });
+        else if (match[2]) tokens.push({ type: 'ident', value: match[2], position });
+        else if (match[3]) tokens.push({ type: 'op', value: OPERATOR_ALIASES[match[3]] ?? match[3], position });
+        else if (match[4]) tokens.push({ type: 'lparen', value: '(', position });
+        else tokens.push({ type: 'rparen', value: ')', position });
+        position = pattern.lastIndex;
+    }
+    return tokens;
+};
+
+// Recursive descent parser for the strings serializeSide produces. Symbols dropped next to each other
+// ("m g") are joined by spaces only, so juxtaposition is read as multiplication.
+export const parseExpression = (input: string): Expr => {
+    const tokens = tokenizeExpression(input);
+    let index = 0;
+    const peek = () => tokens[index];
+    const expect = (type: Token['type']) => {
+        const token = tokens[index];
+        if (!token || token.type !== type) throw new ExpressionParseError(type === 'rparen' ? 'parse.missingParen' : 'parse.unexpectedEnd', token?.position ?? input.length);
+        index++; return token;
+    };
+    const startsPrimary = (token?: Token) => !!token && (token.type === 'num' || token.type === 'ident' || token.type === 'lparen');
+
+    const parseSum = (): Expr => {
+        let left = parseProduct();
+        while (peek()?.type === 'op' && (peek().value === '+' || peek().value === '-')) {
+            const op = tokens[index++].value as '+' | '-';
+            left = { kind: 'bin', op, left, right: parseProduct() };
+        }
+        return left;
+    };
+    const parseProduct = (): Expr => {
+        let left = parseUnary();
+        while (true) {
+            const token = peek();
+            if (token?.type === 'op' && (token.value === '*' || token.value === '/')) { index++; left = { kind: 'bin', op: token.value as '*' | '/', left, right: parseUnary() }; }
+            else if (startsPrimary(token)) left = { kind: 'bin', op: '*', left, right: parseUnary(), implicit: true };
+            else return left;
+        }
+    };
+    const parseUnary = (): Expr => {
+        const token = peek();
+        if (token?.type === 'op' && token.value === '-') { index++; return { kind: 'neg', arg: parseUnary() }; }
+        if (token?.type === 'op' && token.value === '+') { index++; return parseUnary(); }
+        return parsePower();
+    };
+    const parsePower = (): Expr => {
+        const base = parsePrimary();
+        if (peek()?.type === 'op' && peek().value === '^') { index++; return { kind: 'pow', base, exponent: parseUnary() }; }
+        return base;
+    };
+    const parsePrimary = (): Expr => {
+        const token = peek();
+        if (!token) throw new ExpressionParseError('parse.unexpectedEnd', input.length);
+        if (token.type === 'num') { index++; return { kind: 'num', value: parseFloat(token.value) }; }
+        if (token.type === 'ident') {
+            index++;
+            if (token.value === 'sqrt') {
+                if (peek()?.type !== 'lparen') throw new ExpressionParseError('parse.sqrtNeedsParen', peek()?.position ?? input.length);
+                index++; const arg = parseSum(); expect('rparen'); return { kind: 'sqrt', arg };
+            }
+            return { kind: 'var', name: token.value };
+        }
+        if (token.type === 'lparen') { index++; const inner = parseSum(); expect('rparen'); return inner; }
+        throw new ExpressionParseError('parse.unexpectedChar', token.position, { char: token.value });
+    };
+
+    if (tokens.length === 0) throw new ExpressionParseError('parse.empty', 0);
+    const result = parseSum();
+    if (index < tokens.length) throw new ExpressionParseError(tokens[index].type === 'rparen' ? 'parse.extraParen' : 'parse.unexpectedChar', tokens[index].position, { char: tokens[index].value });
+    return result;
+};
+
+export const collectVariables = (expr: Expr, into: Set<string> = new Set()): Set<string> => {
+    switch (expr.kind) {
+        case 'var': if (!MATH_CONSTANTS.has(expr.name)) into.add(expr.name); break;
+        case 'neg': case 'sqrt': collectVariables(expr.arg, into); break;
+        case 'bin': collectVariables(expr.left, into); collectVariables(expr.right, into); break;
+        case 'pow': collectVariables(expr.base, into); collectVariables(expr.exponent, into); break;
+    }
+    return into;
+};
+
+// Numbers and named constants as they appear on the symbol palette; one half is written as '½'.
+export const collectConstants = (expr: Expr, into: Set<string> = new Set()): Set<string> => {
+    switch (expr.kind) {
+        case 'num': into.add(expr.value === 0.5 ? '½' : String(expr.value)); break;
+        case 'var': if (MATH_CONSTANTS.has(expr.name)) into.add(expr.name); break;
+        case 'neg': case 'sqrt': collectConstants(expr.arg, into); break;
+        case 'bin': collectConstants(expr.left, into); collectConstants(expr.right, into); break;
+        case 'pow': collectConstants(expr.base, into); collectConstants(expr.exponent, into); break;
+    }
+    return into;
+};
+
+export const evaluateExpression = (expr: Expr, values: Record<string, number>): number => {
+    switch (expr.kind) {
+        case 'num': return expr.value;
+        case 'var': return MATH_CONSTANTS.get(expr.name) ?? values[expr.name] ?? NaN;
+        case 'neg': return -evaluateExpression(expr.arg, values);
+        case 'sqrt': return Math.sqrt(evaluateExpression(expr.arg, values));
+        case 'pow': return Math.pow(evaluateExpression(expr.base, values), evaluateExpression(expr.exponent, values));
+        case 'bin': {
+            const l = evaluateExpression(expr.left, values), r = evaluateExpression(expr.right, values);
+            return expr.op === '+' ? l + r : expr.op === '-' ? l - r : expr.op === '*' ? l * r : l / r;
+        }
+    }
+};
+
+// Canonical form: a sum of monomials, each a coefficient times a product of factors with rational exponents.
+// Sorting the factors and terms makes commutativity, regrouping and equivalent fraction forms compare equal.
+export interface Monomial { coefficient: number; factors: Map<string, number>; }
+
+export const roundCoefficient = (n: number) => Math.round(n * 1e9) / 1e9;
+
+const monomialKey = (m: Monomial) => [...m.factors.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([f, e]) => `${f}^${roundCoefficient(e)}`).join('*');
+
+const canonicalKey = (terms: Monomial[]) => terms.map(m => `${roundCoefficient(m.coefficient)}*${monomialKey(m)}`).sort().join(' + ') || '0';
+
+const combineTerms = (terms: Monomial[]): Monomial[] => {
+    const byKey = new Map<string, Monomial>();
+    for (const term of terms) {
+        const factors = new Map([...term.factors].filter(([, exponent]) => roundCoefficient(exponent) !== 0));
+        const key = monomialKey({ coefficient: term.coefficient, factors }), existing = byKey.get(key);
+        if (existing) existing.coefficient += term.coefficient; else byKey.set(key, { coefficient: term.coefficient, factors });
+    }
+    return [...byKey.values()].filter(m => roundCoefficient(m.coefficient) !== 0);
+};
+
+const multiplyTerms = (a: Monomial[], b: Monomial[]): Monomial[] => combineTerms(a.flatMap(x => b.map(y => {
+    const factors = new Map(x.factors);
+    for (const [factor, exponent] of y.factors) factors.set(factor, (factors.get(factor) ?? 0) + exponent);
+    return { coefficient: x.coefficient * y.coefficient, factors };
+})));
+
+const opaqueFactor = (terms: Monomial[], exponent: number): Monomial[] => [{ coefficient: 1, factors: new Map([[`(${canonicalKey(terms)})`, exponent]]) }];
+
+const raiseTerms = (terms: Monomial[], exponent: number): Monomial[] => {
+    if (terms.length === 0) return exponent > 0 ? [] : opaqueFactor(terms, exponent);
+    if (terms.length === 1) {
+        const [{ coefficient, factors }] = terms;
+        if (coefficient < 0 && !Number.isInteger(exponent)) return opaqueFactor(terms, exponent);
+        return [{ coefficient: Math.pow(coefficient, exponent), factors: new Map([...factors].map(([f, e]) => [f, e * exponent])) }];
+    }
+    if (Number.isInteger(exponent) && exponent > 0 && exponent <= 4) {
+        let result = terms;
+        for (let i = 1; i < exponent; i++) result = multiplyTerms(result, terms);
+        return result;
+    }
+    return opaqueFactor(terms, exponent);
+};
+
+export const toCanonicalTerms = (expr: Expr): Monomial[] => {
+    switch (expr.kind) {
+        case 'num': return combineTerms([{ coefficient: expr.value, factors: new Map() }]);
+        case 'var': return [{ coefficient: 1, factors: new Map([[expr.name, 1]]) }];
+        case 'neg': return toCanonicalTerms(expr.arg).map(m => ({ ...m, coefficient: -m.coefficient }));
+        case 'sqrt': return raiseTerms(toCanonicalTerms(expr.arg), 0.5);
+        case 'pow': {
+            const exponent = collectVariables(expr.exponent).size === 0 ? evaluateExpression(expr.exponent, {}) : NaN;
+            if (Number.isFinite(exponent)) return raiseTerms(toCanonicalTerms(expr.base), exponent);
+            return [{ coefficient: 1, factors: new Map([[`(${canonicalKey(toCanonicalTerms(expr.base))})^(${canonicalKey(toCanonicalTerms(expr.exponent))})`, 1]]) }];
+        }
+        case 'bin': {
+            const left = toCanonicalTerms(expr.left), right = toCanonicalTerms(expr.right);
+            if (expr.op === '+') return combineTerms([...left, ...right]);
+            if (expr.op === '-') return combineTerms([...left, ...right.map(m => ({ ...m, coefficient: -m.coefficient }))]);
+            if (expr.op === '*') return multiplyTerms(left, right);
+            return multiplyTerms(left, raiseTerms(right, -1));
+        }
+    }
+};
+
+// Physics quantities are positive, so spot-check values are drawn from a positive range.
+const numericallyEquivalent = (a: Expr, b: Expr, trials = 12): boolean => {
+    const variables = [...new Set([...collectVariables(a), ...collectVariables(b)])];
+    let compared = 0;
+    for (let i = 0; i < trials; i++) {
+        const values = Object.fromEntries(variables.map(v => [v, 0.5 + Math.random() * 9.5]));
+        const x = evaluateExpression(a, values), y = evaluateExpression(b, values);
+        if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+        if (Math.abs(x - y) > 1e-7 * Math.max(1, Math.abs(x), Math.abs(y))) return false;
+        compared++;
+    }
+    return compared > 0;
+};
+
+export const areExpressionsEquivalent = (a: Expr, b: Expr): boolean => canonicalKey(toCanonicalTerms(a)) === canonicalKey(toCanonicalTerms(b)) || numericallyEquivalent(a, b);
+
+type AnswerVerdict = 'correct' | 'syntax-error' | 'not-isolated' | 'target-on-both-sides' | 'not-equivalent' | 'no-reference';
+
+interface AnswerCheckResult {
+    verdict: AnswerVerdict;
+    isCorrect: boolean;
+    parseError?: ExpressionParseError;
+}
+
+export const parseEquation = (equation: string): { left: Expr; right: Expr } => {
+    const parts = equation.split('=');
+    if (parts.length !== 2) throw new ExpressionParseError('parse.oneEquals', 0);
+    return { left: parseExpression(parts[0]), right: parseExpression(parts[1]) };
+};
+
+export const checkAnswerSymbolically = (problem: Problem, userAnswer: string): AnswerCheckResult => {
+    if (!problem.correctAnswer) return { verdict: 'no-reference', isCorrect: false };
+    const reference = parseEquation(problem.correctAnswer);
+    let answer: { left: Expr; right: Expr };
+    try { answer = parseEquation(userAnswer); }
+    catch (error) {
+        if (!(error instanceof ExpressionParseError)) throw error;
+        return { verdict: 'syntax-error', isCorrect: false, parseError: error };
+    }
+
+    const isTarget = (e: Expr) => e.kind === 'var' && e.name === problem.targetVariable;
+    const isolated = isTarget(answer.left) ? answer.right : isTarget(answer.right) ? answer.left : null;
+    if (!isolated) {
+        const onBothSides = collectVariables(answer.left).has(problem.targetVariable) && collectVariables(answer.right).has(problem.targetVariable);
+        return { verdict: onBothSides ? 'target-on-both-sides' : 'not-isolated', isCorrect: false };
+    }
+    if (collectVariables(isolated).has(problem.targetVariable)) return { verdict: 'target-on-both-sides', isCorrect: false };
+    return areExpressionsEquivalent(isolated, reference.right) ? { verdict: 'correct', isCorrect: true } : { verdict: 'not-equivalent', isCorrect: false };
+};
+
+export const localFeedback = (verdict: AnswerVerdict, locale: Locale = 'nl'): string => translate(locale, `verdict.${verdict}`);
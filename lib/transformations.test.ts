@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { deriveIsolation } from './formulaPacks';
+import { parseExpression } from './symbolic';
+import { isIsolated, judgeTransformation } from './transformations';
+import type { TransformationKind } from './transformations';
+
+const judge = (equation: string, kind: TransformationKind, operand: string | null, target: string, variableOrder: string[]) =>
+    judgeTransformation(equation, kind, operand === null ? null : parseExpression(operand), target, variableOrder);
+
+describe('judgeTransformation', () => {
+    it.each([
+        ['R = U / I', 'I', ['R', 'U', 'I']],
+        ['θ = s / r', 'r', ['θ', 's', 'r']],
+        ['v = Δx / Δt', 'Δt', ['v', 'Δx', 'Δt']],
+        ['p = F / A', 'A', ['p', 'F', 'A']],
+        ['ρ = m / v', 'v', ['ρ', 'm', 'v']],
+        ['1/f - 1/b = 1/v', 'v', ['f', 'v', 'b']],
+        ['1/f = 1/v + 1/b', 'v', ['f', 'v', 'b']],
+        ['Epot = m*g*h', 'g', ['Epot', 'm', 'g', 'h']],
+    ])('accepts every step of the worked solution of %s for %s', (formula, target, variableOrder) => {
+        let equation = formula;
+        for (const { action } of deriveIsolation(formula, target, variableOrder).slice(1)) {
+            const verdict = judge(equation, action.kind as TransformationKind, 'operand' in action ? action.operand : null, target, variableOrder);
+            expect(verdict.ok, `${action.kind} on ${equation}`).toBe(true);
+            equation = verdict.equation;
+        }
+        expect(isIsolated(equation, target)).toBe(true);
+    });
+
+    it('accepts multiplying both sides by a denominator that holds the target', () => {
+        expect(judge('R = U / I', 'multiply', 'I', 'I', ['R', 'U', 'I'])).toEqual({ ok: true, equation: 'R * I = U' });
+        expect(judge('p = F / A', 'multiply', 'A', 'A', ['p', 'F', 'A'])).toEqual({ ok: true, equation: 'p * A = F' });
+    });
+
+    it('accepts the steps of a solution in another order', () => {
+        const verdict = judge('Epot = m*g*h', 'divide', 'm', 'g', ['Epot', 'm', 'g', 'h']);
+        expect(verdict).toEqual({ ok: true, equation: 'Epot / m = g * h' });
+        expect(judge(verdict.equation, 'divide', 'h', 'g', ['Epot', 'm', 'g', 'h']).equation).toBe('Epot / (m * h) = g');
+    });
+
+    it('rejects a step away from the solution with a tip for the next step', () => {
+        const verdict = judge('F = m * a', 'multiply', 'm', 'a', ['F', 'm', 'a']);
+        expect(verdict.ok).toBe(false);
+        expect(verdict.equation).toBe('F = m * a');
+        expect(verdict.message).toContain('Tip:');
+    });
+
+    it('rejects steps that remove the target or put it on both sides', () => {
+        expect(judge('F = m * a', 'multiply', '0', 'a', ['F', 'm', 'a']).ok).toBe(false);
+        expect(judge('F = m * a', 'divide', 'a', 'a', ['F', 'm', 'a']).ok).toBe(false);
+        expect(judge('F = m * a', 'add', 'a', 'a', ['F', 'm', 'a']).ok).toBe(false);
+    });
+});
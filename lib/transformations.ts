@@ -0,0 +1,108 @@
+import type { Problem } from '../types';
+import { countOccurrences, formatExpression, deriveIsolation, describeStep, printExpression } from './formulaPacks';
+import type { DerivationAction, DerivationStep } from './formulaPacks';
+import { translate } from './i18n';
+import type { Locale } from './i18n';
+import { collectVariables, evaluateExpression, parseEquation } from './symbolic';
+import type { Expr } from './symbolic';
+
+export type TransformationKind = 'multiply' | 'divide' | 'add' | 'subtract' | 'square' | 'sqrt' | 'swap';
+
+// The button labels are the catalog keys `transformation.<kind>`.
+export const TRANSFORMATIONS: { kind: TransformationKind; needsOperand: boolean }[] = [
+    { kind: 'multiply', needsOperand: true }, { kind: 'divide', needsOperand: true },
+    { kind: 'add', needsOperand: true }, { kind: 'subtract', needsOperand: true },
+    { kind: 'square', needsOperand: false }, { kind: 'sqrt', needsOperand: false },
+    { kind: 'swap', needsOperand: false },
+];
+
+export const transformationAction = (kind: TransformationKind, operand: string): DerivationAction => {
+    switch (kind) {
+        case 'multiply': case 'divide': case 'add': case 'subtract': return { kind, operand };
+        default: return { kind };
+    }
+};
+
+// Applies an operation to both sides and simplifies them, returning the new equation as a string.
+const applyTransformation = (equation: string, kind: TransformationKind, operand: Expr | null, variableOrder: string[]): string => {
+    const { left, right } = parseEquation(equation);
+    if (kind === 'swap') return `${formatExpression(right, variableOrder)} = ${formatExpression(left, variableOrder)}`;
+    // Simplifying expands a product with a sum in it, so a factor like (1 / f - 1 / b) is cancelled here by hand.
+    const isOperand = (e: Expr) => printExpression(e) === printExpression(operand!);
+    const apply = (side: Expr): Expr => {
+        switch (kind) {
+            case 'multiply': return side.kind === 'bin' && side.op === '/' && isOperand(side.right) ? side.left : { kind: 'bin', op: '*', left: side, right: operand! };
+            case 'divide':
+                if (side.kind === 'bin' && side.op === '*' && (isOperand(side.left) || isOperand(side.right))) return isOperand(side.left) ? side.right : side.left;
+                return { kind: 'bin', op: '/', left: side, right: operand! };
+            case 'add': return { kind: 'bin', op: '+', left: side, right: operand! };
+            case 'subtract': return { kind: 'bin', op: '-', left: side, right: operand! };
+            case 'square': return { kind: 'pow', base: side, exponent: { kind: 'num', value: 2 } };
+            case 'sqrt': return { kind: 'sqrt', arg: side };
+        }
+    };
+    return `${formatExpression(apply(left), variableOrder)} = ${formatExpression(apply(right), variableOrder)}`;
+};
+
+// Whether the target sits in a denominator, either after a '/' or raised to a negative power.
+const inDenominator = (expr: Expr, target: string): boolean => {
+    switch (expr.kind) {
+        case 'num': case 'var': return false;
+        case 'neg': case 'sqrt': return inDenominator(expr.arg, target);
+        case 'bin': return (expr.op === '/' && countOccurrences(expr.right, target) > 0) || inDenominator(expr.left, target) || inDenominator(expr.right, target);
+        case 'pow': {
+            const negative = expr.exponent.kind === 'neg' || (expr.exponent.kind === 'num' && expr.exponent.value < 0);
+            return (negative && countOccurrences(expr.base, target) > 0) || inDenominator(expr.base, target);
+        }
+    }
+};
+
+const equationInDenominator = (equation: string, target: string): boolean => {
+    const { left, right } = parseEquation(equation);
+    return inDenominator(left, target) || inDenominator(right, target);
+};
+
+// The operations of the worked solution from this equation on, leaving out the swaps, or null if it can't be derived.
+const solutionSteps = (equation: string, target: string, variableOrder: string[]): DerivationStep[] | null => {
+    try { return deriveIsolation(equation, target, variableOrder).filter(({ action }) => action.kind !== 'start' && action.kind !== 'swap'); }
+    catch { return null; }
+};
+
+const sameEquation = (a: string, b: string): boolean => {
+    const [left, right] = b.split(' = ');
+    return a === b || a === `${right} = ${left}`;
+};
+
+export const isIsolated = (equation: string, target: string): boolean => {
+    const { left, right } = parseEquation(equation);
+    const isTarget = (e: Expr) => e.kind === 'var' && e.name === target;
+    return (isTarget(left) && countOccurrences(right, target) === 0) || (isTarget(right) && countOccurrences(left, target) === 0);
+};
+
+interface TransformationVerdict { ok: boolean; equation: string; message?: string; }
+
+// A step counts as correct when it is a line of the worked solution (with the sides in either order), moves the
+// target out of a denominator, or leaves a shorter solution than before; swapping the sides is always allowed.
+export const judgeTransformation = (equation: string, kind: TransformationKind, operand: Expr | null, target: string, variableOrder: string[], locale: Locale = 'nl'): TransformationVerdict => {
+    if (operand && (kind === 'multiply' || kind === 'divide') && collectVariables(operand).size === 0 && evaluateExpression(operand, {}) === 0) {
+        return { ok: false, equation, message: translate(locale, kind === 'divide' ? 'judge.divideByZero' : 'judge.multiplyByZero') };
+    }
+    const next = applyTransformation(equation, kind, operand, variableOrder);
+    if (kind === 'swap') return { ok: true, equation: next };
+    const { left, right } = parseEquation(next);
+    const inLeft = countOccurrences(left, target), inRight = countOccurrences(right, target);
+    if (inLeft + inRight === 0) return { ok: false, equation, message: translate(locale, 'judge.targetGone', { target }) };
+    if (inLeft > 0 && inRight > 0) return { ok: false, equation, message: translate(locale, 'judge.bothSides', { target }) };
+    const solution = solutionSteps(equation, target, variableOrder), remaining = solutionSteps(next, target, variableOrder);
+    if (solution?.some(step => sameEquation(next, step.equation))) return { ok: true, equation: next };
+    if (equationInDenominator(equation, target) && !equationInDenominator(next, target)) return { ok: true, equation: next };
+    if (solution && remaining && remaining.length < solution.length) return { ok: true, equation: next };
+    const tip = solution?.length ? describeStep(solution[0].action, locale) : '';
+    const message = translate(locale, 'judge.notCloser', { target });
+    return { ok: false, equation, message: tip ? `${message} ${translate(locale, 'judge.tip', { tip: `${tip.charAt(0).toLowerCase()}${tip.slice(1)}` })}` : message };
+};
+
+export const canTransformStepwise = (problem: Problem): boolean => {
+    try { deriveIsolation(problem.originalFormula, problem.targetVariable, problem.symbols); return true; }
+    catch { return false; }
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { Problem } from '../types';
+import { UnitError, checkAnswerDimensions, dimensionsEqual, formatDimension, parseUnit, readUnit } from './units';
+
+const pressure: Problem = { originalFormula: 'p = F / A', targetVariable: 'F', correctAnswer: 'F = p * A', symbols: [], units: { p: 'Pa', F: 'N', A: 'm²' } };
+
+describe('parseUnit', () => {
+    it('reads superscripts, products and derived units', () => {
+        expect(parseUnit('m·s⁻²')).toEqual({ m: 1, s: -2 });
+        expect(dimensionsEqual(parseUnit('J/(kg·K)'), parseUnit('m^2/(s^2 K)'))).toBe(true);
+        expect(dimensionsEqual(parseUnit('V/A'), parseUnit('Ω'))).toBe(true);
+    });
+
+    it('treats radians and empty units as dimensionless', () => {
+        expect(parseUnit('rad')).toEqual({});
+        expect(parseUnit('')).toEqual({});
+    });
+
+    it('rejects unknown units', () => {
+        expect(() => parseUnit('furlong')).toThrow(UnitError);
+    });
+});
+
+describe('readUnit', () => {
+    it('gives the factor to SI for prefixes and non-SI units', () => {
+        expect(readUnit('cm')).toEqual({ dimension: { m: 1 }, factor: 0.01 });
+        expect(readUnit('km/h').factor).toBeCloseTo(1 / 3.6);
+        expect(readUnit('g').factor).toBe(0.001);
+        expect(readUnit('kPa')).toEqual({ dimension: parseUnit('Pa'), factor: 1000 });
+        expect(readUnit('cm³').factor).toBeCloseTo(1e-6);
+        expect(readUnit('N/kg')).toEqual({ dimension: parseUnit('m/s²'), factor: 1 });
+    });
+
+    it('does not put a prefix before kg', () => {
+        expect(() => readUnit('mkg')).toThrow(UnitError);
+    });
+});
+
+describe('formatDimension', () => {
+    it('writes base units and names a matching derived unit', () => {
+        expect(formatDimension(parseUnit('N'))).toBe('kg·m·s⁻² (N)');
+        expect(formatDimension(parseUnit('m/s²'))).toBe('m·s⁻²');
+    });
+});
+
+describe('checkAnswerDimensions', () => {
+    it('accepts answers whose sides have the same unit', () => {
+        expect(checkAnswerDimensions(pressure, 'F = p * A')).toBeNull();
+    });
+
+    it('names both units when the sides differ', () => {
+        expect(checkAnswerDimensions(pressure, 'F = p / A')).toBe('Je rechterlid heeft als eenheid kg·m⁻³·s⁻², het linkerlid kg·m·s⁻² (N).');
+    });
+
+    it('points out a sum of different units', () => {
+        const speed: Problem = { originalFormula: 'v = v0 + a*t', targetVariable: 'v0', correctAnswer: 'v0 = v - a * t', symbols: [], units: { v: 'm/s', v0: 'm/s', a: 'm/s²', t: 's' } };
+        expect(checkAnswerDimensions(speed, 'v0 = v - a')).toContain('m·s⁻¹ op bij m·s⁻²');
+    });
+
+    it('skips the check without units', () => {
+        expect(checkAnswerDimensions({ ...pressure, units: undefined }, 'F = p / A')).toBeNull();
+    });
+});
@@ -0,0 +1,144 @@
+import type { Problem } from '../types';
+import { translate } from './i18n';
+import type { Locale, MessageKey, MessageParams } from './i18n';
+import { MATH_CONSTANTS, collectVariables, evaluateExpression, parseEquation, parseExpression } from './symbolic';
+import type { Expr } from './symbolic';
+
+// A dimension is a product of SI base units with rational exponents; kg·m·s⁻² is { kg: 1, m: 1, s: -2 }.
+export type Dimension = { [baseUnit: string]: number };
+
+// Like ExpressionParseError, it carries its catalog key; `message` itself is Dutch.
+export class UnitError extends Error {
+    constructor(public key: Extract<MessageKey, `units.error.${string}`>, public params: MessageParams = {}) { super(translate('nl', key, params)); this.name = 'UnitError'; }
+
+    localize(locale: Locale) { return translate(locale, this.key, this.params); }
+}
+
+// Thrown when a sum or difference combines two different dimensions, as in v0 + a.
+export class DimensionMismatchError extends Error {
+    constructor(public left: Dimension, public right: Dimension) { super('Ongelijke eenheden in een som of verschil'); this.name = 'DimensionMismatchError'; }
+}
+
+const BASE_UNITS = ['kg', 'm', 's', 'A', 'K', 'mol', 'cd'];
+
+// Derived units are defined in terms of units listed before them, with a factor for units that aren't coherent SI units.
+const DERIVED_UNITS: [string, string, number?][] = [
+    ['N', 'kg·m/s²'], ['Pa', 'N/m²'], ['J', 'N·m'], ['W', 'J/s'], ['C', 'A·s'], ['V', 'W/A'], ['Ω', 'V/A'],
+    ['Hz', '1/s'], ['rad', '1'], ['g', 'kg', 1e-3], ['L', 'm³', 1e-3], ['min', 's', 60], ['h', 's', 3600],
+];
+
+const PREFIXES: { [prefix: string]: number } = { G: 1e9, M: 1e6, k: 1e3, h: 1e2, d: 1e-1, c: 1e-2, m: 1e-3, µ: 1e-6, μ: 1e-6, n: 1e-9 };
+
+// Named units that are worth mentioning next to a dimension written in base units.
+const NAMED_UNITS = ['N', 'Pa', 'J', 'W', 'C', 'V', 'Ω'];
+
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+export const toSuperscript = (n: number) => [...String(n)].map(ch => ch === '-' ? '⁻' : SUPERSCRIPTS[Number(ch)] ?? ch).join('');
+
+const combine = (a: Dimension, b: Dimension, factor = 1): Dimension => {
+    const result: Dimension = { ...a };
+    for (const [unit, exponent] of Object.entries(b)) {
+        const next = Math.round(((result[unit] ?? 0) + factor * exponent) * 1e9) / 1e9;
+        if (next === 0) delete result[unit]; else result[unit] = next;
+    }
+    return result;
+};
+
+const scale = (a: Dimension, factor: number): Dimension => combine({}, a, factor);
+
+export const dimensionsEqual = (a: Dimension, b: Dimension) => {
+    const units = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...units].every(unit => (a[unit] ?? 0) === (b[unit] ?? 0));
+};
+
+// The dimension of an expression, given the dimension of each variable. Numbers and constants such as π are
+// dimensionless. Returns null when a variable has no known unit, so the caller can skip the check.
+export const dimensionOf = (expr: Expr, dimensions: { [name: string]: Dimension }): Dimension | null => {
+    switch (expr.kind) {
+        case 'num': return {};
+        case 'var': return MATH_CONSTANTS.has(expr.name) ? {} : dimensions[expr.name] ?? null;
+        case 'neg': return dimensionOf(expr.arg, dimensions);
+        case 'sqrt': { const arg = dimensionOf(expr.arg, dimensions); return arg && scale(arg, 0.5); }
+        case 'pow': {
+            const base = dimensionOf(expr.base, dimensions);
+            if (!base || collectVariables(expr.exponent).size > 0) return null;
+            return scale(base, evaluateExpression(expr.exponent, {}));
+        }
+        case 'bin': {
+            const left = dimensionOf(expr.left, dimensions), right = dimensionOf(expr.right, dimensions);
+            if (!left || !right) return null;
+            if (expr.op === '*') return combine(left, right);
+            if (expr.op === '/') return combine(left, right, -1);
+            if (!dimensionsEqual(left, right)) throw new DimensionMismatchError(left, right);
+            return left;
+        }
+    }
+};
+
+// A unit as a dimension and the factor that converts a value in that unit to SI: km is { m: 1 } with factor 1000.
+export interface UnitDefinition { dimension: Dimension; factor: number; }
+
+const KNOWN_UNITS = new Map<string, UnitDefinition>(BASE_UNITS.map(unit => [unit, { dimension: { [unit]: 1 }, factor: 1 }]));
+
+// A known unit, or one with an SI prefix such as km, mA or kPa.
+const lookupUnit = (name: string): UnitDefinition | undefined => {
+    const known = KNOWN_UNITS.get(name);
+    if (known) return known;
+    const unprefixed = KNOWN_UNITS.get(name.slice(1)), prefix = PREFIXES[name[0]];
+    return unprefixed && prefix && name.slice(1) !== 'kg' ? { dimension: unprefixed.dimension, factor: prefix * unprefixed.factor } : undefined;
+};
+
+// Reads a unit as it is written in a formula pack or an answer: "kg/m³", "m·s⁻²", "J/(kg·K)", "km/h". An empty unit
+// or "1" is dimensionless.
+export const readUnit = (text: string): UnitDefinition => {
+    if (text.trim() === '' || text.trim() === '1') return { dimension: {}, factor: 1 };
+    const written = text.replace(/°C/g, 'K').replace(new RegExp(`[⁻${SUPERSCRIPTS}]+`, 'g'), run => `^(${[...run].map(ch => ch === '⁻' ? '-' : SUPERSCRIPTS.indexOf(ch)).join('')})`);
+    let expr: Expr;
+    try { expr = parseExpression(written); }
+    catch { throw new UnitError('units.error.invalid', { unit: text }); }
+    const units = [...collectVariables(expr)];
+    const unknown = units.find(unit => !lookupUnit(unit));
+    if (unknown) throw new UnitError('units.error.unknown', { unit: unknown });
+    const definitions = units.map(unit => [unit, lookupUnit(unit)!] as const);
+    return {
+        dimension: dimensionOf(expr, Object.fromEntries(definitions.map(([unit, { dimension }]) => [unit, dimension])))!,
+        factor: evaluateExpression(expr, Object.fromEntries(definitions.map(([unit, { factor }]) => [unit, factor]))),
+    };
+};
+
+export const parseUnit = (text: string): Dimension => readUnit(text).dimension;
+
+for (const [unit, definition, factor = 1] of DERIVED_UNITS) {
+    const { dimension, factor: definitionFactor } = readUnit(definition);
+    KNOWN_UNITS.set(unit, { dimension, factor: factor * definitionFactor });
+}
+
+// Writes a dimension in base units, positive exponents first ("kg·m·s⁻²"), followed by a matching named unit ("(N)").
+export const formatDimension = (dimension: Dimension, locale: Locale = 'nl'): string => {
+    const entries = BASE_UNITS.filter(unit => dimension[unit]).map(unit => [unit, dimension[unit]] as const);
+    if (entries.length === 0) return translate(locale, 'units.none');
+    const written = [...entries.filter(([, e]) => e > 0), ...entries.filter(([, e]) => e < 0)].map(([unit, e]) => e === 1 ? unit : `${unit}${Number.isInteger(e) ? toSuperscript(e) : `^${e}`}`).join('·');
+    const named = NAMED_UNITS.find(unit => dimensionsEqual(KNOWN_UNITS.get(unit)!.dimension, dimension));
+    return named ? `${written} (${named})` : written;
+};
+
+// Compares the units of both sides of a submitted answer. Returns a hint when they don't match, and null when
+// they do or when the formula has no units for every quantity used.
+export const checkAnswerDimensions = (problem: Problem, userAnswer: string, locale: Locale = 'nl'): string | null => {
+    if (!problem.units) return null;
+    const dimensions: { [name: string]: Dimension } = {};
+    for (const [variable, unit] of Object.entries(problem.units)) {
+        try { dimensions[variable] = parseUnit(unit); } catch { /* an unknown unit only disables the check for that quantity */ }
+    }
+    let answer: { left: Expr; right: Expr };
+    try { answer = parseEquation(userAnswer); } catch { return null; }
+    try {
+        const left = dimensionOf(answer.left, dimensions), right = dimensionOf(answer.right, dimensions);
+        if (!left || !right || dimensionsEqual(left, right)) return null;
+        return translate(locale, 'units.sidesDiffer', { left: formatDimension(left, locale), right: formatDimension(right, locale) });
+    } catch (error) {
+        if (!(error instanceof DimensionMismatchError)) throw error;
+        return translate(locale, 'units.sumMismatch', { left: formatDimension(error.left, locale), right: formatDimension(error.right, locale) });
+    }
+};
@@ -0,0 +1,44 @@
+import type { Problem } from '../types';
+import type { Locale } from '../lib/i18n';
+import { checkAnswerSymbolically, localFeedback } from '../lib/symbolic';
+import { classifyMisconception, misconceptionHint } from '../lib/misconceptions';
+import type { Misconception } from '../lib/misconceptions';
+import { checkAnswerDimensions } from '../lib/units';
+import { playSuccess, playError } from './soundService';
+import { createValidatorProvider, readValidatorConfig } from './validatorProviders';
+import type { ValidatorProvider } from './validatorProviders';
+
+export interface ValidationResponse {
+    isCorrect: boolean;
+    explanation: string;
+    hintSource: 'ai' | 'local';
+    // Set when the units of the two sides of a wrong answer don't match.
+    unitHint?: string;
+    misconception?: Misconception;
+}
+
+const defaultProvider = createValidatorProvider(readValidatorConfig());
+
+// A provider that fails or times out is logged and the student gets the local feedback instead.
+const requestHint = async (provider: ValidatorProvider, problem: Problem, userAnswer: string, locale: Locale): Promise<string | null> => {
+    try { return await provider.requestHint(problem, userAnswer, locale, new AbortController().signal); }
+    catch (error) { console.error(`Geen hint van '${provider.id}':`, error); return null; }
+};
+
+// The verdict is always decided locally. A recognized misconception gets its fixed hint; otherwise the configured
+// provider is asked for one. All feedback is in the given language.
+export const validateAnswer = async (problem: Problem, userAnswer: string, locale: Locale = 'nl', provider: ValidatorProvider = defaultProvider): Promise<ValidationResponse> => {
+    const check = checkAnswerSymbolically(problem, userAnswer);
+    if (check.isCorrect) {
+        playSuccess();
+        return { isCorrect: true, explanation: localFeedback('correct', locale), hintSource: 'local' };
+    }
+    const misconception = classifyMisconception(problem, userAnswer) ?? undefined;
+    const unitHint = checkAnswerDimensions(problem, userAnswer, locale) ?? undefined;
+    if (misconception) { playError(); return { isCorrect: false, explanation: misconceptionHint(misconception, locale), hintSource: 'local', unitHint, misconception }; }
+    const aiHint = check.verdict === 'syntax-error' ? null : await requestHint(provider, problem, userAnswer, locale);
+    playError();
+    if (aiHint) return { isCorrect: false, explanation: aiHint, hintSource: 'ai', unitHint };
+    const explanation = check.parseError ? `${localFeedback(check.verdict, locale)} (${check.parseError.localize(locale)})` : localFeedback(check.verdict, locale);
+    return { isCorrect: false, explanation, hintSource: 'local', unitHint };
+};
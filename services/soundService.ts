@@ -0,0 +1,58 @@
+import type { SoundEvent } from '../lib/preferences';
+
+let audioContext: AudioContext | null = null;
+
+let masterVolume = 1;
+let mutedSounds: readonly SoundEvent[] = [];
+
+// Called by the preferences provider whenever the settings change.
+export const configureSound = (volume: number, muted: readonly SoundEvent[]) => { masterVolume = volume; mutedSounds = muted; };
+
+// A muted or silent sound doesn't create the audio context either.
+const isAudible = (event: SoundEvent) => masterVolume > 0 && !mutedSounds.includes(event);
+
+const initializeAudio = () => {
+    if (audioContext || typeof window === 'undefined') return;
+    try {
+        audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    } catch (e) {
+        console.error("Web Audio API is not supported in this browser");
+    }
+};
+
+const playTone = (type: OscillatorType, frequency: number, duration: number, volume = 0.5, startTime = 0) => {
+    if (!audioContext) return;
+    const now = audioContext.currentTime;
+    const oscillator = audioContext.createOscillator();
+    const gainNode = audioContext.createGain();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(frequency, now + startTime);
+    gainNode.gain.setValueAtTime(volume * 0.5 * masterVolume, now + startTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.00001, now + startTime + duration);
+    oscillator.connect(gainNode);
+    gainNode.connect(audioContext.destination);
+    oscillator.start(now + startTime);
+    oscillator.stop(now + startTime + duration);
+};
+
+export const playClick = () => { if (!isAudible('click')) return; initializeAudio(); playTone('triangle', 523.25, 0.08, 0.2); playTone('triangle', 783.99, 0.08, 0.2); };
+
+export const playDrop = () => { if (!isAudible('drop')) return; initializeAudio(); playTone('sine', 220, 0.1, 0.4); };
+
+export const playSuccess = () => { if (!isAudible('success')) return; initializeAudio(); if (!audioContext) return; playTone('sine', 261.63, 0.12, 0.3, 0); playTone('sine', 329.63, 0.12, 0.3, 0.1); playTone('sine', 392.00, 0.12, 0.3, 0.2); playTone('sine', 523.25, 0.2, 0.3, 0.3); };
+
+export const playError = () => { if (!isAudible('error')) return; initializeAudio(); playTone('sawtooth', 130.81, 0.25, 0.2); };
+
+export const playReset = () => {
+    if (!isAudible('reset')) return;
+    initializeAudio(); if (!audioContext) return;
+    const now = audioContext.currentTime, duration = 0.2, bufferSize = audioContext.sampleRate * duration;
+    const buffer = audioContext.createBuffer(1, bufferSize, audioContext.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) data[i] = Math.random() * 2 - 1;
+    const noise = audioContext.createBufferSource(); noise.buffer = buffer;
+    const filter = audioContext.createBiquadFilter(); filter.type = 'bandpass'; filter.frequency.setValueAtTime(1800, now); filter.frequency.exponentialRampToValueAtTime(100, now + duration); filter.Q.value = 8;
+    const gain = audioContext.createGain(); gain.gain.setValueAtTime(0.3 * masterVolume, now); gain.gain.exponentialRampToValueAtTime(0.00001, now + duration);
+    noise.connect(filter); filter.connect(gain); gain.connect(audioContext.destination);
+    noise.start(now); noise.stop(now + duration);
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Problem } from '../types';
+import { validateAnswer } from './aiService';
+import { ValidatorReplyError, createMockProvider, createOpenAICompatibleProvider, parseHintReply, withReliability } from './validatorProviders';
+import type { ValidatorProvider } from './validatorProviders';
+
+const problem: Problem = { originalFormula: 'Epot = m*g*h', targetVariable: 'h', correctAnswer: 'h = Epot / (m * g)', symbols: [] };
+const signal = new AbortController().signal;
+
+describe('parseHintReply', () => {
+    it('reads the hint, also from a Markdown code block', () => {
+        expect(parseHintReply('{"hint": "Deel door m."}')).toBe('Deel door m.');
+        expect(parseHintReply('```json\n{"hint": "Deel door m."}\n```')).toBe('Deel door m.');
+    });
+
+    it.each(['geen json', '{"tip": "x"}', '{"hint": ""}', 'null'])('rejects %s', (text) => {
+        expect(() => parseHintReply(text)).toThrow(ValidatorReplyError);
+    });
+});
+
+describe('withReliability', () => {
+    it('caches hints per formula, target, answer and language', async () => {
+        const requestHint = vi.fn(async () => 'hint');
+        const provider = withReliability({ id: 'mock', requestHint });
+        await provider.requestHint(problem, 'h = m', 'nl', signal);
+        await provider.requestHint(problem, 'h = m', 'nl', signal);
+        await provider.requestHint(problem, 'h = g', 'nl', signal);
+        await provider.requestHint(problem, 'h = m', 'en', signal);
+        expect(requestHint).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries after a failure', async () => {
+        const requestHint = vi.fn<ValidatorProvider['requestHint']>().mockRejectedValueOnce(new Error('offline')).mockResolvedValue('hint');
+        expect(await withReliability({ id: 'mock', requestHint }, { retries: 1 }).requestHint(problem, 'h = m', 'nl', signal)).toBe('hint');
+    });
+
+    it('gives up after the timeout, even when the provider ignores the signal', async () => {
+        const provider = withReliability({ id: 'mock', requestHint: () => new Promise(() => {}) }, { timeoutMs: 20, retries: 0 });
+        await expect(provider.requestHint(problem, 'h = m', 'nl', signal)).rejects.toThrow('Geen antwoord binnen 20 ms');
+    });
+});
+
+describe('createOpenAICompatibleProvider', () => {
+    it('posts the prompt and validates the reply', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: '{"hint": "Kijk naar de noemer."}' } }] })));
+        vi.stubGlobal('fetch', fetchMock);
+        try {
+            const hint = await createOpenAICompatibleProvider('http://localhost:8080/v1/', 'lokaal-model').requestHint(problem, 'h = m', 'nl', signal);
+            expect(hint).toBe('Kijk naar de noemer.');
+            expect(fetchMock).toHaveBeenCalledWith('http://localhost:8080/v1/chat/completions', expect.objectContaining({ method: 'POST' }));
+        } finally {
+            vi.unstubAllGlobals();
+        }
+    });
+});
+
+describe('validateAnswer', () => {
+    it('uses the provider hint for a mistake without a known misconception', async () => {
+        const result = await validateAnswer(problem, 'h = Epot - m - g', 'nl', createMockProvider({ 'h = Epot - m - g': 'Nep-hint' }));
+        expect(result).toMatchObject({ isCorrect: false, explanation: 'Nep-hint', hintSource: 'ai' });
+    });
+
+    it('falls back to local feedback when the provider fails', async () => {
+        const failing: ValidatorProvider = { id: 'mock', requestHint: async () => { throw new Error('offline'); } };
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(await validateAnswer(problem, 'h = Epot - m - g', 'nl', failing)).toMatchObject({ isCorrect: false, hintSource: 'local' });
+        vi.restoreAllMocks();
+    });
+});
@@ -0,0 +1,169 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import type { Problem } from '../types';
+import { translate } from '../lib/i18n';
+import type { Locale } from '../lib/i18n';
+
+export type ValidatorProviderId = 'gemini' | 'openai-compatible' | 'mock' | 'symbolic';
+
+// The verdict always comes from the symbolic checker; a provider only explains a wrong answer. It returns
+// null when it has nothing to add, and throws when the model can't be reached or replies in the wrong shape.
+export interface ValidatorProvider {
+  id: ValidatorProviderId;
+  requestHint: (problem: Problem, userAnswer: string, locale: Locale, signal: AbortSignal) => Promise<string | null>;
+}
+
+export class ValidatorReplyError extends Error {
+    constructor(message: string) { super(message); this.name = 'ValidatorReplyError'; }
+}
+
+// The prompt is written in the student's language and asks for a hint in that language.
+export const buildHintPrompt = (problem: Problem, userAnswer: string, locale: Locale) =>
+    translate(locale, 'prompt.hint', { formula: problem.originalFormula, target: problem.targetVariable, answer: userAnswer });
+
+// Every model is asked for {"hint": "..."}. Local models often wrap their JSON in a Markdown code block, which is stripped first.
+export const parseHintReply = (text: string): string => {
+    let reply: unknown;
+    try { reply = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')); }
+    catch { throw new ValidatorReplyError('Het model antwoordde niet met geldige JSON'); }
+    const hint = (reply as { hint?: unknown } | null)?.hint;
+    if (typeof hint !== 'string' || !hint.trim()) throw new ValidatorReplyError("Het antwoord van het model bevat geen tekst in 'hint'");
+    return hint.trim();
+};
+
+export const createGeminiProvider = (apiKey: string, model = 'gemini-2.5-pro'): ValidatorProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        id: 'gemini',
+        requestHint: async (problem, userAnswer, locale, signal) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: buildHintPrompt(problem, userAnswer, locale),
+                config: {
+                    abortSignal: signal,
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            hint: { type: Type.STRING, description: translate(locale, 'prompt.hintField') }
+                        },
+                        required: ['hint']
+                    }
+                }
+            });
+            return parseHintReply(response.text ?? '');
+        },
+    };
+};
+
+// Any server that speaks the OpenAI chat completions API, such as a model running on the school's own machine.
+export const createOpenAICompatibleProvider = (baseUrl: string, model: string, apiKey?: string): ValidatorProvider => ({
+    id: 'openai-compatible',
+    requestHint: async (problem, userAnswer, locale, signal) => {
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            signal,
+            headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+            body: JSON.stringify({ model, messages: [{ role: 'user', content: buildHintPrompt(problem, userAnswer, locale) }], response_format: { type: 'json_object' }, temperature: 0.2 }),
+        });
+        if (!response.ok) throw new Error(`De modelserver antwoordde met status ${response.status}`);
+        const content = (await response.json())?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') throw new ValidatorReplyError('Het antwoord van de modelserver bevat geen bericht');
+        return parseHintReply(content);
+    },
+});
+
+// Deterministic, for tests and offline demos: the hint depends only on the answer, the problem and the language.
+export const createMockProvider = (hints: { [userAnswer: string]: string } = {}): ValidatorProvider => ({
+    id: 'mock',
+    requestHint: async (problem, userAnswer, locale) => hints[userAnswer] ?? translate(locale, 'hint.mock', { target: problem.targetVariable }),
+});
+
+// Adds nothing to the symbolic checker's own feedback.
+export const symbolicProvider: ValidatorProvider = { id: 'symbolic', requestHint: async () => null };
+
+export interface ReliabilityOptions {
+  timeoutMs: number;
+  retries: number;
+  cacheSize: number;
+}
+
+export const DEFAULT_RELIABILITY: ReliabilityOptions = { timeoutMs: 15_000, retries: 1, cacheSize: 200 };
+
+const rejectOnAbort = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+});
+
+// Wraps a provider with a timeout per attempt, retries and a cache per (formula, target, answer, language). The timeout also
+// holds for providers that ignore the abort signal.
+export const withReliability = (provider: ValidatorProvider, options: Partial<ReliabilityOptions> = {}): ValidatorProvider => {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_RELIABILITY.timeoutMs, retries = options.retries ?? DEFAULT_RELIABILITY.retries, cacheSize = options.cacheSize ?? DEFAULT_RELIABILITY.cacheSize;
+    const cache = new Map<string, string | null>();
+    return {
+        id: provider.id,
+        requestHint: async (problem, userAnswer, locale, signal) => {
+            const key = JSON.stringify([problem.originalFormula, problem.targetVariable, userAnswer, locale]);
+            if (cache.has(key)) return cache.get(key)!;
+            let lastError: unknown;
+            for (let attempt = 0; attempt <= retries && !signal.aborted; attempt++) {
+                const controller = new AbortController();
+                const abort = () => controller.abort(signal.reason);
+                signal.addEventListener('abort', abort);
+                const timer = setTimeout(() => controller.abort(new Error(`Geen antwoord binnen ${timeoutMs} ms`)), timeoutMs);
+                try {
+                    const hint = await Promise.race([provider.requestHint(problem, userAnswer, locale, controller.signal), rejectOnAbort(controller.signal)]);
+                    cache.set(key, hint);
+                    if (cache.size > cacheSize) cache.delete(cache.keys().next().value!);
+                    return hint;
+                } catch (error) {
+                    lastError = error;
+                } finally {
+                    clearTimeout(timer);
+                    signal.removeEventListener('abort', abort);
+                }
+            }
+            throw lastError ?? signal.reason;
+        },
+    };
+};
+
+export interface ValidatorConfig {
+  provider: ValidatorProviderId;
+  geminiApiKey?: string;
+  geminiModel?: string;
+  endpointUrl?: string;
+  endpointModel?: string;
+  endpointApiKey?: string;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// Read from .env.local through vite.config.ts. Without VALIDATOR_PROVIDER, Gemini is used when a key is set.
+export const readValidatorConfig = (): ValidatorConfig => {
+    const provider = process.env.VALIDATOR_PROVIDER as ValidatorProviderId | '';
+    return {
+        provider: provider || (process.env.API_KEY ? 'gemini' : 'symbolic'),
+        geminiApiKey: process.env.API_KEY || undefined,
+        geminiModel: process.env.GEMINI_MODEL || undefined,
+        endpointUrl: process.env.LLM_ENDPOINT_URL || undefined,
+        endpointModel: process.env.LLM_ENDPOINT_MODEL || undefined,
+        endpointApiKey: process.env.LLM_ENDPOINT_API_KEY || undefined,
+        timeoutMs: Number(process.env.VALIDATOR_TIMEOUT_MS) || undefined,
+        retries: process.env.VALIDATOR_RETRIES ? Number(process.env.VALIDATOR_RETRIES) : undefined,
+    };
+};
+
+// An incomplete configuration falls back to the symbolic checker instead of failing on every answer.
+export const createValidatorProvider = (config: ValidatorConfig): ValidatorProvider => {
+    const base = (() => {
+        switch (config.provider) {
+            case 'gemini': return config.geminiApiKey ? createGeminiProvider(config.geminiApiKey, config.geminiModel) : null;
+            case 'openai-compatible': return config.endpointUrl && config.endpointModel ? createOpenAICompatibleProvider(config.endpointUrl, config.endpointModel, config.endpointApiKey) : null;
+            case 'mock': return createMockProvider();
+            case 'symbolic': return symbolicProvider;
+            default: return null;
+        }
+    })();
+    if (!base) { console.error(`Validatie via '${config.provider}' is niet volledig ingesteld; alleen de symbolische controle wordt gebruikt.`); return symbolicProvider; }
+    return base === symbolicProvider ? base : withReliability(base, { timeoutMs: config.timeoutMs, retries: config.retries });
+};
@@ -0,0 +1,72 @@
+import type { LoadedFormula } from './lib/formulaPacks';
+import type { ClassSession } from './lib/sessions';
+
+export type GameMode = 'classic' | 'streak';
+
+export type InteractionMode = 'build' | 'transform';
+
+export interface GameSettings {
+  studentName: string;
+  mode: GameMode;
+  interaction: InteractionMode;
+  timeLimitSeconds: number | null;
+  // After a correct isolation, also work out the value from generated givens.
+  numericPhase: boolean;
+  formulas: LoadedFormula[];
+  session?: ClassSession;
+}
+
+export interface Problem {
+  originalFormula: string;
+  targetVariable: string;
+  correctAnswer: string;
+  symbols: string[];
+  // SI unit per quantity, e.g. { Fz: 'N', m: 'kg' }; used for the palette and the dimension check.
+  units?: { [variable: string]: string };
+}
+
+export interface DroppedSymbol {
+  id: string;
+  type: 'symbol';
+  content: string;
+}
+
+export interface SqrtNode {
+  id:string;
+  type: 'sqrt';
+  content: EquationSide;
+}
+
+export interface FractionNode {
+    id: string;
+    type: 'fraction';
+    numerator: EquationSide;
+    denominator: EquationSide;
+}
+
+// A power with its own exponent box, for exponents other than the 2 of __square__.
+export interface PowerNode {
+    id: string;
+    type: 'power';
+    exponent: EquationSide;
+}
+
+// An n-th root; the index box holds the n.
+export interface RootNode {
+    id: string;
+    type: 'root';
+    index: EquationSide;
+    content: EquationSide;
+}
+
+export type DraggableItem = DroppedSymbol | SqrtNode | FractionNode | PowerNode | RootNode;
+
+export interface EquationSide {
+  items: DraggableItem[];
+}
+
+export interface MissedProblem {
+  problem: Problem;
+  userAnswer: string | null;
+  explanation: string;
+}
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        ...Object.fromEntries(['VALIDATOR_PROVIDER', 'GEMINI_MODEL', 'LLM_ENDPOINT_URL', 'LLM_ENDPOINT_MODEL', 'LLM_ENDPOINT_API_KEY', 'VALIDATOR_TIMEOUT_MS', 'VALIDATOR_RETRIES']
+          .map(name => [`process.env.${name}`, JSON.stringify(env[name] ?? '')])),
       },
       resolve: {
         alias: {